@@ -0,0 +1,57 @@
+/**
+ * Messages exchanged between Code Wizard and the local command bridge
+ */
+
+import { z } from 'zod';
+
+export const BRIDGE_VERSION = 1;
+export const DEFAULT_BRIDGE_PORT = 11435;
+
+export interface HealthResponse {
+  ok: true;
+  version: number;
+  platform: string;
+  homeDirectory: string;
+}
+
+// Writes a file; a relative path is taken from `cwd`, or the home directory
+export interface WriteFileRequest {
+  path: string;
+  content: string;
+  cwd?: string;
+  // Without this, writing to an existing file fails with 409
+  overwrite?: boolean;
+}
+
+export interface WriteFileResponse {
+  path: string;
+  bytes: number;
+}
+
+export interface ErrorResponse {
+  error: string;
+}
+
+// WebSocket messages sent by the browser. They drive a persistent terminal per
+// workspace; `sessionId` is chosen by the browser. The bridge
+// checks every frame against this schema before acting on it.
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('session-open'), sessionId: z.string(), cwd: z.string().optional(), cols: z.number().int().positive().optional(), rows: z.number().int().positive().optional() }),
+  z.object({ type: z.literal('session-run'), sessionId: z.string(), id: z.string(), command: z.string() }),
+  z.object({ type: z.literal('session-input'), sessionId: z.string(), data: z.string() }),
+  z.object({ type: z.literal('session-interrupt'), sessionId: z.string() }),
+  z.object({ type: z.literal('session-resize'), sessionId: z.string(), cols: z.number().int().positive(), rows: z.number().int().positive() }),
+  z.object({ type: z.literal('session-close'), sessionId: z.string() }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// WebSocket messages sent by the bridge
+export type ServerMessage =
+  | { type: 'error'; id?: string; sessionId?: string; error: string }
+  | { type: 'session-ready'; sessionId: string; cwd: string }
+  // Terminal output; stdout and stderr share the terminal, so they aren't told apart
+  // (see shellSession.ts). `id` is null between commands.
+  | { type: 'session-output'; sessionId: string; id: string | null; data: string }
+  | { type: 'session-exit'; sessionId: string; id: string; exitCode: number; cwd: string; durationMs: number }
+  | { type: 'session-closed'; sessionId: string; exitCode: number };
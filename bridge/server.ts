@@ -0,0 +1,319 @@
+/**
+ * Local command bridge for Code Wizard.
+ *
+ * Browsers cannot start processes, so this small companion server runs shell
+ * commands on behalf of the web app. It only listens on loopback, checks the
+ * Host and Origin headers, and requires a bearer token on every request.
+ * Commands run in persistent terminal sessions (see shellSession.ts) hosted
+ * on the /ws WebSocket, which stream their output; files are saved with
+ * POST /files.
+ *
+ *   npm run bridge
+ *
+ * Environment:
+ *   CODE_WIZARD_BRIDGE_PORT     port to listen on (default 11435)
+ *   CODE_WIZARD_BRIDGE_TOKEN    token to require (default: random, printed at startup)
+ *   CODE_WIZARD_BRIDGE_ORIGINS  comma-separated origins allowed to connect
+ */
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { homedir, platform } from 'node:os';
+import { dirname, resolve } from 'node:path';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+  BRIDGE_VERSION,
+  DEFAULT_BRIDGE_PORT,
+  ClientMessage,
+  clientMessageSchema,
+  HealthResponse,
+  ServerMessage,
+  WriteFileRequest,
+  WriteFileResponse,
+} from './protocol';
+import { ShellSession } from './shellSession';
+
+const PORT = Number(process.env.CODE_WIZARD_BRIDGE_PORT) || DEFAULT_BRIDGE_PORT;
+const TOKEN = process.env.CODE_WIZARD_BRIDGE_TOKEN || randomBytes(24).toString('hex');
+const ALLOWED_ORIGINS = (process.env.CODE_WIZARD_BRIDGE_ORIGINS ||
+  'http://localhost:8080,http://127.0.0.1:8080,http://[::1]:8080')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_FILE_BYTES = 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const isAuthorized = (token: string | null | undefined): boolean => {
+  if (!token) {
+    return false;
+  }
+  const expected = Buffer.from(TOKEN);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// Reject requests addressed to another host name, which guards against DNS rebinding
+const isLoopbackHost = (host: string | undefined): boolean => {
+  return !!host && [`127.0.0.1:${PORT}`, `localhost:${PORT}`, `[::1]:${PORT}`].includes(host);
+};
+
+const isAllowedOrigin = (origin: string | undefined): boolean => {
+  // Non-browser clients such as curl send no Origin
+  return !origin || ALLOWED_ORIGINS.includes(origin);
+};
+
+const resolveCwd = async (cwd: string | undefined): Promise<string> => {
+  const directory = cwd?.trim() || homedir();
+  try {
+    if ((await stat(directory)).isDirectory()) {
+      return directory;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, `Working directory does not exist: ${directory}`);
+};
+
+const readJson = (req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const parseWriteFileRequest = (body: unknown): WriteFileRequest => {
+  const request = body as Partial<WriteFileRequest>;
+  if (!request || typeof request.path !== 'string' || !request.path.trim()) {
+    throw new HttpError(400, '"path" must be a non-empty string');
+  }
+  if (typeof request.content !== 'string') {
+    throw new HttpError(400, '"content" must be a string');
+  }
+  if (request.cwd !== undefined && typeof request.cwd !== 'string') {
+    throw new HttpError(400, '"cwd" must be a string');
+  }
+  return { path: request.path, content: request.content, cwd: request.cwd, overwrite: request.overwrite === true };
+};
+
+// Save a file, creating missing parent directories
+const saveFile = async (request: WriteFileRequest): Promise<WriteFileResponse> => {
+  const path = resolve(await resolveCwd(request.cwd), request.path.trim());
+  const existing = await stat(path).catch(() => null);
+  if (existing?.isDirectory()) {
+    throw new HttpError(400, `A directory already exists at ${path}`);
+  }
+  if (existing && !request.overwrite) {
+    throw new HttpError(409, `File already exists: ${path}`);
+  }
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, request.content, 'utf8');
+  return { path, bytes: Buffer.byteLength(request.content) };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const origin = req.headers.origin;
+  if (origin && isAllowedOrigin(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Vary', 'Origin');
+  }
+
+  if (!isLoopbackHost(req.headers.host) || !isAllowedOrigin(origin)) {
+    throw new HttpError(403, 'Forbidden');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  if (!isAuthorized(token)) {
+    throw new HttpError(401, 'Missing or invalid bridge token');
+  }
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    const health: HealthResponse = {
+      ok: true,
+      version: BRIDGE_VERSION,
+      platform: platform(),
+      homeDirectory: homedir(),
+    };
+    sendJson(res, 200, health);
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/files') {
+    const request = parseWriteFileRequest(await readJson(req, MAX_FILE_BYTES));
+    console.log(`[files] ${request.cwd ?? '~'} > ${request.path}`);
+    sendJson(res, 200, await saveFile(request));
+    return;
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch((error) => {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) {
+      console.error(error);
+    }
+    if (!res.headersSent) {
+      sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+});
+
+const wss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  // Browsers cannot set headers on a WebSocket, so the token travels in the query string
+  if (
+    url.pathname !== '/ws' ||
+    !isLoopbackHost(req.headers.host) ||
+    !isAllowedOrigin(req.headers.origin) ||
+    !isAuthorized(url.searchParams.get('token'))
+  ) {
+    socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+    socket.destroy();
+    return;
+  }
+
+  wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+});
+
+wss.on('connection', (ws: WebSocket) => {
+  // Terminal sessions live as long as the connection that opened them
+  const sessions = new Map<string, ShellSession>();
+  const send = (message: ServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  ws.on('message', async (raw) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(raw.toString());
+    } catch {
+      send({ type: 'error', error: 'Message is not valid JSON' });
+      return;
+    }
+
+    const parsed = clientMessageSchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      send({ type: 'error', error: `Invalid message: ${issue.path.length > 0 ? `"${issue.path.join('.')}" ` : ''}${issue.message}` });
+      return;
+    }
+    const message = parsed.data;
+
+    try {
+      await handleSessionMessage(message, sessions, send);
+    } catch (error) {
+      const id = message.type === 'session-run' ? message.id : undefined;
+      send({ type: 'error', id, sessionId: message.sessionId, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  ws.on('close', () => {
+    sessions.forEach(session => session.close());
+  });
+});
+
+const handleSessionMessage = async (
+  message: ClientMessage,
+  sessions: Map<string, ShellSession>,
+  send: (message: ServerMessage) => void,
+) => {
+  const { sessionId } = message;
+
+  if (message.type === 'session-open') {
+    const existing = sessions.get(sessionId);
+    if (existing) {
+      send({ type: 'session-ready', sessionId, cwd: existing.getCwd() });
+      return;
+    }
+    const cwd = await resolveCwd(message.cwd);
+    console.log(`[session] open ${cwd}`);
+    sessions.set(sessionId, new ShellSession(cwd, {
+      onReady: (readyCwd) => send({ type: 'session-ready', sessionId, cwd: readyCwd }),
+      onOutput: (id, data) => send({ type: 'session-output', sessionId, id, data }),
+      onCommandExit: (id, exitCode, exitCwd, durationMs) =>
+        send({ type: 'session-exit', sessionId, id, exitCode, cwd: exitCwd, durationMs }),
+      onClose: (exitCode) => {
+        sessions.delete(sessionId);
+        send({ type: 'session-closed', sessionId, exitCode });
+      },
+    }, message.cols, message.rows));
+    return;
+  }
+
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new Error(`No open session ${sessionId}`);
+  }
+
+  switch (message.type) {
+    case 'session-run':
+      if (!message.command.trim()) {
+        throw new Error('"command" must be a non-empty string');
+      }
+      console.log(`[session] ${session.getCwd()} $ ${message.command}`);
+      session.run(message.id, message.command);
+      break;
+    case 'session-input':
+      session.write(message.data);
+      break;
+    case 'session-interrupt':
+      session.interrupt();
+      break;
+    case 'session-resize':
+      session.resize(message.cols, message.rows);
+      break;
+    case 'session-close':
+      session.close();
+      break;
+  }
+};
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Code Wizard bridge listening on http://127.0.0.1:${PORT}`);
+  console.log(`Allowed origins: ${ALLOWED_ORIGINS.join(', ')}`);
+  console.log(`Token: ${TOKEN}`);
+});
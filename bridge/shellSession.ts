@@ -0,0 +1,176 @@
+/**
+ * A persistent interactive shell running in a pseudo-terminal.
+ *
+ * The shell reports each finished command through a private OSC escape
+ * sequence printed from its prompt hook. The sequence carries the exit status
+ * and working directory and is stripped from the output before it is
+ * forwarded, so `cd` state carries over between commands and Ctrl-C reaches
+ * the foreground process the way it would in a real terminal.
+ *
+ * stdout and stderr both write to the terminal, so they arrive as one stream.
+ * Keeping them apart would mean giving stderr a pipe instead of the terminal,
+ * which turns off the colours, progress bars and prompts that commands only
+ * show on a terminal; the interleaved output is what a user would have seen.
+ */
+
+import { homedir, platform } from 'node:os';
+import * as pty from 'node-pty';
+
+// ESC ] 7777 ; <status> ; <cwd> BEL
+const MARKER_START = '\x1b]7777;';
+const MARKER_END = '\x07';
+
+export interface ShellSessionEvents {
+  // The shell printed its first prompt and is ready for commands
+  onReady: (cwd: string) => void;
+  onOutput: (commandId: string | null, data: string) => void;
+  onCommandExit: (commandId: string, exitCode: number, cwd: string, durationMs: number) => void;
+  // The shell process itself ended
+  onClose: (exitCode: number) => void;
+}
+
+interface ShellLaunch {
+  file: string;
+  args: string[];
+  env: Record<string, string>;
+}
+
+const getShellLaunch = (): ShellLaunch => {
+  if (platform() === 'win32') {
+    const prompt = "function prompt { $s = if ($?) { 0 } elseif ($LASTEXITCODE) { $LASTEXITCODE } else { 1 }; \"$([char]27)]7777;$s;$($PWD.Path)$([char]7)\" }";
+    return {
+      file: 'powershell.exe',
+      args: ['-NoLogo', '-NoProfile', '-NoExit', '-Command', prompt],
+      env: {},
+    };
+  }
+
+  // Echo is switched off on the first prompt so commands aren't repeated back
+  const promptCommand = [
+    '__cw_status=$?',
+    'if [ -z "$__cw_ready" ]; then stty -echo; __cw_ready=1; fi',
+    `printf '\\033]7777;%s;%s\\007' "$__cw_status" "$PWD"`,
+  ].join('; ');
+  return {
+    file: 'bash',
+    args: ['--noprofile', '--norc', '--noediting', '-i'],
+    env: { PS1: '', PS2: '', PROMPT_COMMAND: promptCommand, TERM: 'xterm-256color' },
+  };
+};
+
+export class ShellSession {
+  private pty: pty.IPty;
+  private ready = false;
+  private pending = '';
+  private current: { id: string; startedAt: number } | null = null;
+  private cwd: string;
+
+  constructor(cwd: string | undefined, private events: ShellSessionEvents, cols = 120, rows = 30) {
+    const launch = getShellLaunch();
+    this.cwd = cwd || homedir();
+    this.pty = pty.spawn(launch.file, launch.args, {
+      name: 'xterm-256color',
+      cols,
+      rows,
+      cwd: this.cwd,
+      env: { ...process.env, ...launch.env } as Record<string, string>,
+    });
+    this.pty.onData(data => this.handleData(data));
+    this.pty.onExit(({ exitCode }) => this.events.onClose(exitCode));
+  }
+
+  public isBusy(): boolean {
+    return this.current !== null;
+  }
+
+  public getCwd(): string {
+    return this.cwd;
+  }
+
+  // Run a command; only one command runs at a time
+  public run(id: string, command: string): void {
+    if (!this.ready) {
+      throw new Error('Shell is still starting');
+    }
+    if (this.current) {
+      throw new Error('A command is already running; send input to it or interrupt it first');
+    }
+    this.current = { id, startedAt: Date.now() };
+    this.pty.write(`${command.replace(/\r?\n$/, '')}\r`);
+  }
+
+  // Send raw input to whatever is running in the terminal
+  public write(data: string): void {
+    this.pty.write(data);
+  }
+
+  // Ctrl-C goes to the foreground process group through the terminal driver
+  public interrupt(): void {
+    this.pty.write('\x03');
+  }
+
+  public resize(cols: number, rows: number): void {
+    this.pty.resize(cols, rows);
+  }
+
+  public close(): void {
+    this.pty.kill();
+  }
+
+  private handleData(data: string): void {
+    let text = this.pending + data;
+    this.pending = '';
+
+    for (;;) {
+      const start = text.indexOf(MARKER_START);
+      if (start === -1) {
+        break;
+      }
+      const end = text.indexOf(MARKER_END, start);
+      if (end === -1) {
+        // Marker split across chunks; wait for the rest
+        this.pending = text.slice(start);
+        text = text.slice(0, start);
+        break;
+      }
+
+      this.emitOutput(text.slice(0, start));
+      const [status, ...cwd] = text.slice(start + MARKER_START.length, end).split(';');
+      this.handlePrompt(Number(status) || 0, cwd.join(';'));
+      text = text.slice(end + MARKER_END.length);
+    }
+
+    // Hold back a trailing partial marker such as a lone ESC
+    for (let length = Math.min(MARKER_START.length - 1, text.length); length > 0; length--) {
+      if (MARKER_START.startsWith(text.slice(-length))) {
+        this.pending = text.slice(-length) + this.pending;
+        text = text.slice(0, -length);
+        break;
+      }
+    }
+
+    this.emitOutput(text);
+  }
+
+  private handlePrompt(exitCode: number, cwd: string): void {
+    this.cwd = cwd || this.cwd;
+    if (!this.ready) {
+      this.ready = true;
+      this.events.onReady(this.cwd);
+      return;
+    }
+
+    const finished = this.current;
+    this.current = null;
+    if (finished) {
+      this.events.onCommandExit(finished.id, exitCode, this.cwd, Date.now() - finished.startedAt);
+    }
+  }
+
+  private emitOutput(text: string): void {
+    // Anything printed before the first prompt is shell start-up noise
+    if (text && this.ready) {
+      this.events.onOutput(this.current?.id ?? null, text);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RotateCcw } from "lucide-react";
+import { SamplingOptions } from "@/services/samplingOptions";
+import { PARAMETER_SPECS, validateParameterValue } from "@/utils/modelfileUtils";
+
+type NumericKey = Exclude<keyof SamplingOptions, "stop">;
+
+interface AdvancedSamplingSettingsProps {
+  value: SamplingOptions;
+  onChange: (value: SamplingOptions) => void;
+  // Parameter values from the active model's Modelfile, keyed by Ollama parameter name
+  modelDefaults: Record<string, string[]>;
+}
+
+const NUMERIC_FIELDS: { key: NumericKey; param: string; label: string; step: number }[] = [
+  { key: "topP", param: "top_p", label: "Top P", step: 0.05 },
+  { key: "topK", param: "top_k", label: "Top K", step: 1 },
+  { key: "minP", param: "min_p", label: "Min P", step: 0.01 },
+  { key: "repeatPenalty", param: "repeat_penalty", label: "Repeat Penalty", step: 0.05 },
+  { key: "seed", param: "seed", label: "Seed", step: 1 },
+  { key: "numCtx", param: "num_ctx", label: "Context Length (num_ctx)", step: 1024 },
+  { key: "numThread", param: "num_thread", label: "CPU Threads", step: 1 },
+];
+
+const toDrafts = (value: SamplingOptions): Record<string, string> => {
+  return Object.fromEntries(
+    NUMERIC_FIELDS.map(({ key }) => [key, value[key] === undefined ? "" : String(value[key])])
+  );
+};
+
+const AdvancedSamplingSettings: React.FC<AdvancedSamplingSettingsProps> = ({ value, onChange, modelDefaults }) => {
+  // Raw text per field so half-typed or out-of-range numbers can be shown with an error
+  const [drafts, setDrafts] = useState<Record<string, string>>(() => toDrafts(value));
+  const [stopText, setStopText] = useState((value.stop ?? []).join("\n"));
+
+  const previousValue = useRef(value);
+
+  // Pick up outside changes such as a profile being applied. Only fields whose
+  // value changed are touched, so a half-typed or invalid draft in another field
+  // survives, and drafts like "0." that already parse to the new value are kept.
+  useEffect(() => {
+    const previous = previousValue.current;
+    previousValue.current = value;
+
+    const changed = NUMERIC_FIELDS.filter(({ key }) => value[key] !== previous[key]);
+    if (changed.length > 0) {
+      setDrafts(prev => {
+        const next = { ...prev };
+        for (const { key } of changed) {
+          const draft = prev[key] ?? "";
+          const current = draft.trim() === "" ? undefined : Number(draft);
+          if (current !== value[key]) {
+            next[key] = value[key] === undefined ? "" : String(value[key]);
+          }
+        }
+        return next;
+      });
+    }
+
+    const stop = (value.stop ?? []).join("\n");
+    if (stop !== (previous.stop ?? []).join("\n")) {
+      setStopText(prev => prev.split("\n").filter(line => line !== "").join("\n") === stop ? prev : stop);
+    }
+  }, [value]);
+
+  const handleNumberChange = (key: NumericKey, param: string, text: string) => {
+    setDrafts(prev => ({ ...prev, [key]: text }));
+
+    if (text.trim() === "") {
+      onChange({ ...value, [key]: undefined });
+    } else if (!validateParameterValue(param, text)) {
+      onChange({ ...value, [key]: Number(text) });
+    }
+  };
+
+  const handleStopChange = (text: string) => {
+    setStopText(text);
+    const stop = text.split("\n").filter(line => line !== "");
+    onChange({ ...value, stop: stop.length > 0 ? stop : undefined });
+  };
+
+  const resetAll = () => {
+    // Invalid drafts never reached `value`, so clear them here as well
+    setDrafts(toDrafts({}));
+    setStopText("");
+    onChange({});
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Empty fields use the model's own default.
+        </p>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={resetAll}>
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Reset all
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {NUMERIC_FIELDS.map(({ key, param, label, step }) => {
+          const spec = PARAMETER_SPECS[param];
+          const draft = drafts[key] ?? "";
+          const error = draft.trim() === "" ? null : validateParameterValue(param, draft);
+          const modelDefault = modelDefaults[param]?.[0];
+
+          return (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`sampling-${key}`} className="text-xs">{label}</Label>
+              <div className="flex items-center gap-1">
+                <Input
+                  id={`sampling-${key}`}
+                  type="number"
+                  step={step}
+                  min={spec?.min}
+                  max={spec?.max}
+                  placeholder={modelDefault ? `model default: ${modelDefault}` : "model default"}
+                  value={draft}
+                  onChange={(e) => handleNumberChange(key, param, e.target.value)}
+                  className="text-sm h-8"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Reset to model default"
+                  disabled={draft === ""}
+                  onClick={() => handleNumberChange(key, param, "")}
+                >
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+              </div>
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="sampling-stop" className="text-xs">Stop Sequences (one per line)</Label>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Reset to model default"
+            disabled={stopText === ""}
+            onClick={() => handleStopChange("")}
+          >
+            <RotateCcw className="h-3 w-3" />
+          </Button>
+        </div>
+        <Textarea
+          id="sampling-stop"
+          rows={2}
+          placeholder={modelDefaults.stop ? `model default: ${modelDefaults.stop.join(", ")}` : "model default"}
+          value={stopText}
+          onChange={(e) => handleStopChange(e.target.value)}
+          className="terminal-text text-xs"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AdvancedSamplingSettings;
@@ -0,0 +1,68 @@
+import React, { useMemo } from "react";
+import HighlightedText from "./HighlightedText";
+import { parseAnsi, type AnsiColor, type AnsiStyle } from "@/utils/terminalUtils";
+
+interface AnsiTextProps {
+  text: string;
+  // Search text to mark wherever it appears
+  highlight?: string;
+}
+
+// The 16 basic terminal colours, tuned to the app's dark theme
+const BASIC_COLORS = [
+  "#45475a", "#f38ba8", "#a6e3a1", "#f9e2af", "#89b4fa", "#f5c2e7", "#94e2d5", "#bac2de",
+  "#6c7086", "#f7a8be", "#b9ecb4", "#fbe9bf", "#a5c6fb", "#f8d3ec", "#ace9de", "#cdd6f4"
+];
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+// Colours 16-231 form a 6x6x6 cube and 232-255 a grayscale ramp
+const toCssColor = (color: AnsiColor): string => {
+  if (typeof color === "string") {
+    return color;
+  }
+  if (color < 16) {
+    return BASIC_COLORS[color];
+  }
+  if (color < 232) {
+    const index = color - 16;
+    return `rgb(${CUBE_LEVELS[Math.floor(index / 36)]}, ${CUBE_LEVELS[Math.floor(index / 6) % 6]}, ${CUBE_LEVELS[index % 6]})`;
+  }
+  const level = 8 + (color - 232) * 10;
+  return `rgb(${level}, ${level}, ${level})`;
+};
+
+const toCss = (style: AnsiStyle): React.CSSProperties | undefined => {
+  let color = style.fg !== undefined ? toCssColor(style.fg) : undefined;
+  let background = style.bg !== undefined ? toCssColor(style.bg) : undefined;
+  if (style.inverse) {
+    [color, background] = [background ?? "hsl(var(--card))", color ?? "hsl(var(--muted-foreground))"];
+  }
+  const decorations = [style.underline && "underline", style.strikethrough && "line-through"].filter(Boolean);
+
+  const css: React.CSSProperties = {
+    color,
+    backgroundColor: background,
+    fontWeight: style.bold ? "bold" : undefined,
+    fontStyle: style.italic ? "italic" : undefined,
+    opacity: style.dim ? 0.7 : undefined,
+    textDecoration: decorations.length > 0 ? decorations.join(" ") : undefined
+  };
+  return Object.values(css).some(value => value !== undefined) ? css : undefined;
+};
+
+// Renders terminal text with its colours and styles; escape sequences never reach the DOM
+const AnsiText: React.FC<AnsiTextProps> = ({ text, highlight }) => {
+  const spans = useMemo(() => parseAnsi(text), [text]);
+  return (
+    <>
+      {spans.map((span, index) => {
+        const style = toCss(span.style);
+        const content = <HighlightedText text={span.text} query={highlight} />;
+        return style ? <span key={index} style={style}>{content}</span> : <React.Fragment key={index}>{content}</React.Fragment>;
+      })}
+    </>
+  );
+};
+
+export default AnsiText;
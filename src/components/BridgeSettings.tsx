@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RefreshCw, Plug, ChevronRight } from "lucide-react";
+import commandService, { BridgeStatus } from "@/services/commandService";
+
+const BridgeSettings: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [config, setConfig] = useState(() => commandService.getBridgeConfig());
+  const [status, setStatus] = useState<BridgeStatus>(() => commandService.getBridgeStatus());
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = commandService.onBridgeStatusChange(setStatus);
+    commandService.checkBridge();
+    return unsubscribe;
+  }, []);
+
+  const updateConfig = (changes: Partial<typeof config>) => {
+    commandService.setBridgeConfig(changes);
+    setConfig(commandService.getBridgeConfig());
+  };
+
+  const testConnection = async () => {
+    setIsChecking(true);
+    try {
+      await commandService.checkBridge();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsOpen(!isOpen)}
+          className="h-7 px-1 text-xs"
+        >
+          <ChevronRight className={`h-3 w-3 mr-1 transition-transform ${isOpen ? "rotate-90" : ""}`} />
+          <Plug className="h-3 w-3 mr-1" />
+          Command Bridge
+        </Button>
+        <div className={`flex items-center text-xs ${status.available ? "text-green-400" : "text-yellow-400"}`}>
+          <div className={`w-2 h-2 rounded-full mr-2 ${status.available ? "bg-green-400" : "bg-yellow-400"}`}></div>
+          {status.available
+            ? `Connected (${status.platform})`
+            : `Not available${status.error ? `: ${status.error}` : ""}`}
+        </div>
+      </div>
+
+      {isOpen && (
+        <Card className="mt-2 border border-border">
+          <CardContent className="pt-4 space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Commands run on this machine through a local companion server. Start it with
+              <code className="mx-1 px-1 rounded bg-secondary">npm run bridge</code>
+              and paste the token it prints.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="bridge-url" className="text-xs">Bridge URL</Label>
+                <Input
+                  id="bridge-url"
+                  value={config.url}
+                  onChange={(e) => updateConfig({ url: e.target.value })}
+                  className="text-sm h-8"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bridge-token" className="text-xs">Token</Label>
+                <Input
+                  id="bridge-token"
+                  type="password"
+                  value={config.token}
+                  onChange={(e) => updateConfig({ token: e.target.value })}
+                  className="text-sm h-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bridge-cwd" className="text-xs">Working Directory</Label>
+              <Input
+                id="bridge-cwd"
+                placeholder={status.homeDirectory ?? "Home directory"}
+                value={config.workingDirectory}
+                onChange={(e) => updateConfig({ workingDirectory: e.target.value })}
+                className="text-sm h-8"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={testConnection}
+                disabled={isChecking}
+                className="h-7 text-xs"
+              >
+                <RefreshCw className={`h-3 w-3 mr-1 ${isChecking ? "animate-spin" : ""}`} />
+                Test
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BridgeSettings;
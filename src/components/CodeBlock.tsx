@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Check, Copy, ListOrdered, Play, Save, TextCursorInput } from "lucide-react";
+import SaveCodeDialog from "./SaveCodeDialog";
+import HighlightedText from "./HighlightedText";
+import { highlightLines } from "@/utils/syntaxHighlight";
+import { isShellLanguage } from "@/utils/commandParser";
+import { cn } from "@/lib/utils";
+
+// What the surrounding view lets code blocks do beyond copying and saving
+export interface CodeBlockActions {
+  onInsert?: (code: string, language: string) => void;
+  // Offered on shell blocks only
+  onRun?: (code: string, language: string) => void;
+  runDisabled?: boolean;
+}
+
+interface CodeBlockProps {
+  language: string;
+  content: string;
+  actions?: CodeBlockActions;
+  highlight?: string;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ language, content, actions, highlight }) => {
+  const [showLineNumbers, setShowLineNumbers] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const lines = useMemo(() => highlightLines(content, language), [content, language]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      toast.error("Could not copy to the clipboard");
+    }
+  };
+
+  const renderLine = (line: typeof lines[number]) => line.map((token, index) => (
+    <span key={index} className={token.kind && `code-${token.kind}`}>
+      <HighlightedText text={token.text} query={highlight} />
+    </span>
+  ));
+
+  const iconButton = "h-6 px-1.5 text-muted-foreground hover:text-foreground";
+
+  return (
+    <div className="code-block code-block-content my-2">
+      <div className="code-block-header py-1">
+        <span className="text-muted-foreground">{language || "text"}</span>
+        <div className="flex items-center gap-0.5">
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(iconButton, showLineNumbers && "text-accent")}
+            onClick={() => setShowLineNumbers(shown => !shown)}
+            title={showLineNumbers ? "Hide line numbers" : "Show line numbers"}
+            aria-pressed={showLineNumbers}
+          >
+            <ListOrdered className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="sm" className={iconButton} onClick={handleCopy} title="Copy">
+            {copied ? <Check className="h-3.5 w-3.5 text-green-400" /> : <Copy className="h-3.5 w-3.5" />}
+          </Button>
+          {actions?.onInsert && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className={iconButton}
+              onClick={() => actions.onInsert(content, language)}
+              title="Insert into editor"
+            >
+              <TextCursorInput className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className={iconButton} onClick={() => setIsSaveOpen(true)} title="Save as file…">
+            <Save className="h-3.5 w-3.5" />
+          </Button>
+          {actions?.onRun && isShellLanguage(language) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn(iconButton, "hover:text-green-400")}
+              onClick={() => actions.onRun(content, language)}
+              disabled={actions.runDisabled}
+              title="Run"
+            >
+              <Play className="h-3.5 w-3.5 mr-1" />
+              Run
+            </Button>
+          )}
+        </div>
+      </div>
+      <pre className="overflow-x-auto p-0 text-code-text">
+        <code className={language ? `language-${language}` : undefined}>
+          {showLineNumbers
+            ? lines.map((line, index) => (
+              <div key={index} className="flex">
+                <span
+                  className="select-none pr-4 text-right text-code-comment"
+                  style={{ minWidth: `${String(lines.length).length + 1}ch` }}
+                >
+                  {index + 1}
+                </span>
+                <span className="whitespace-pre">{renderLine(line)}</span>
+              </div>
+            ))
+            : lines.map((line, index) => (
+              <React.Fragment key={index}>
+                {index > 0 && "\n"}
+                {renderLine(line)}
+              </React.Fragment>
+            ))}
+        </code>
+      </pre>
+      {isSaveOpen && (
+        <SaveCodeDialog open onOpenChange={setIsSaveOpen} content={content} language={language} />
+      )}
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -1,39 +1,124 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { AlertCircle, Terminal, Code, Download, Cpu, Zap, FolderOpen, Server, RefreshCw } from "lucide-react";
-import CommandInput from "./CommandInput";
+import { AlertCircle, Terminal, Code, Download, Cpu, Zap, FolderOpen, Server, RefreshCw, MessageSquarePlus, Square, Command as CommandIcon, Eraser, FileDown, Bookmark, BookmarkPlus, Trash2, SlidersHorizontal } from "lucide-react";
+import CommandInput, { CommandInputHandle } from "./CommandInput";
 import CommandOutput from "./CommandOutput";
-import ModelSettings from "./ModelSettings";
+import SharedContextList from "./SharedContextList";
+import ModelSettings, { ModelSettingsValue } from "./ModelSettings";
 import FileExplorer from "./FileExplorer";
+import BridgeSettings from "./BridgeSettings";
+import CommandPolicySettings from "./CommandPolicySettings";
+import CommandConfirmDialog from "./CommandConfirmDialog";
+import DefaultRouteSelect from "./DefaultRouteSelect";
+import CommandPalette, { PaletteAction } from "./CommandPalette";
 import InstallInstructions from "./InstallInstructions";
-import ollamaService from "@/services/ollamaService";
-import commandService, { CommandResult } from "@/services/commandService";
-import { detectOS } from "@/utils/platformUtils";
+import PullProgressList, { PullState } from "./PullProgressList";
+import ollamaService, { ChatMessage, DEFAULT_NUM_CTX, isAbortError } from "@/services/ollamaService";
+import commandService, { SuggestedCommand } from "@/services/commandService";
+import terminalService from "@/services/terminalService";
+import commandRegistry, { CommandContext } from "@/services/commandRegistry";
+import "@/services/builtinCommands";
+import commandPolicyService, { CommandSource, PolicyDecision } from "@/services/commandPolicyService";
+import { classifyCommand } from "@/utils/commandSafety";
+import { extractBlockCommands } from "@/utils/commandParser";
+import { detectOS, parseSSHConnectionString } from "@/utils/platformUtils";
+import { stripAnsi, TerminalScreen } from "@/utils/terminalUtils";
+import { useActiveModel } from "@/hooks/use-active-model";
+import { useTerminalState } from "@/hooks/use-terminal-state";
+import { useKeybindings } from "@/hooks/use-keybindings";
+import keybindingService from "@/services/keybindingService";
+import savedPromptService from "@/services/savedPromptService";
+import { formatKeybinding } from "@/utils/keybindings";
+import profileService, { DEFAULT_SYSTEM_PROMPT, SettingsProfile, WizardTab } from "@/services/profileService";
+import { sessionStore, settingsStore, SharedContext } from "@/services/sessionStore";
+import { downloadFile } from "@/lib/utils";
 
 interface OutputItem {
+  // Set on items that are updated in place, such as streaming command output
+  id?: string;
   type: "command" | "response" | "error" | "info";
   content: string;
   timestamp: Date;
+  interrupted?: boolean;
+  // Commands extracted from an AI response, shown as reviewable cards
+  suggestions?: SuggestedCommand[];
+  // The AI response a command was suggested by
+  sourceId?: string;
+  // Shown as written rather than as markdown, e.g. terminal output
+  preformatted?: boolean;
 }
 
+// Each tab keeps its own log, model conversation and context sent from other tabs
+interface Transcript {
+  output: OutputItem[];
+  conversation: ChatMessage[];
+  context: SharedContext[];
+}
+
+const TAB_LABELS: Record<WizardTab, string> = {
+  commands: "Commands",
+  code: "Code Generation",
+  files: "Files"
+};
+
+const WIZARD_TABS = Object.keys(TAB_LABELS) as WizardTab[];
+
+// Output sent to another tab is cut to this length so it can't crowd out the conversation
+const MAX_SHARED_CONTEXT = 20_000;
+
+// Oldest entries are dropped past this, so a long session can't grow without bound
+const MAX_OUTPUT_ITEMS = 50_000;
+// Saving serializes the session, so streaming output is saved at most this often
+const SESSION_SAVE_DELAY = 1000;
+
+// The context sent to a tab, as a system message for its conversation
+const describeSharedContext = (context: SharedContext[]): ChatMessage[] => context.length === 0 ? [] : [{
+  role: "system",
+  content: [
+    "The user shared the following from other parts of the app for you to use as context.",
+    ...context.map(shared => `## ${shared.label} (from ${TAB_LABELS[shared.from]})\n\n${shared.content}`)
+  ].join("\n\n")
+}];
+
+const completeInput = (input: string) => commandRegistry.complete(input);
+
+// Name the command input would be sent to, for the hint under the editor
+const describeInputRoute = (input: string): string | undefined => {
+  const { command } = commandRegistry.resolve(input);
+  return command && `/${command.name}`;
+};
+
 const CodeWizard: React.FC = () => {
-  const [output, setOutput] = useState<OutputItem[]>([]);
+  const [restoredSession] = useState(() => sessionStore.load());
+  const [transcripts, setTranscripts] = useState<Record<WizardTab, Transcript>>(restoredSession.transcripts);
   const [isProcessing, setIsProcessing] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Raw terminal output of the command currently running in the shell session
+  const runningCommandRef = useRef<{ id: string; screen: TerminalScreen } | null>(null);
+  const commandInputRef = useRef<CommandInputHandle>(null);
+  const [pendingConfirmation, setPendingConfirmation] = useState<PolicyDecision | null>(null);
+  const confirmResolverRef = useRef<((confirmed: boolean) => void) | null>(null);
+  const [pulls, setPulls] = useState<PullState[]>([]);
+  const pullControllersRef = useRef(new Map<string, AbortController>());
   const [ollamaConnected, setOllamaConnected] = useState(false);
   const [modelLoaded, setModelLoaded] = useState(false);
   const [showInstallInstructions, setShowInstallInstructions] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [modelSettings, setModelSettings] = useState({
-    temperature: 0.2,
-    useGPU: true,
-    maxTokens: 2048,
-    endpoint: "http://localhost:11434"
-  });
-  const [activeTab, setActiveTab] = useState<"commands" | "code" | "files">("commands");
+  // Restored up front so the saved endpoint is in place before the first connection check
+  const [modelSettings, setModelSettings] = useState<ModelSettingsValue>(() => settingsStore.load());
+  const [activeTab, setActiveTab] = useState<WizardTab>(restoredSession.activeTab);
+  const { output, conversation, context } = transcripts[activeTab];
+  const visitedTabs = useRef(new Set<WizardTab>([restoredSession.activeTab]));
+  const [appliedProfile, setAppliedProfile] = useState<SettingsProfile | undefined>();
   const [os, setOs] = useState<'windows' | 'linux' | 'mac' | 'unknown'>('unknown');
+  const activeModel = useActiveModel();
+  const terminal = useTerminalState();
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // Palette list to open straight into, when a shortcut targets one
+  const [paletteActionId, setPaletteActionId] = useState<string | null>(null);
 
   useEffect(() => {
     setOs(detectOS());
@@ -49,6 +134,73 @@ const CodeWizard: React.FC = () => {
     checkOllamaStatus();
   }, []);
 
+  // Save the session at most once per SESSION_SAVE_DELAY, so streaming output
+  // is still saved as it arrives, with a trailing save for the last changes
+  const sessionRef = useRef({ activeTab, transcripts });
+  const sessionSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const sessionSavedAt = useRef(0);
+
+  const flushSession = useCallback(() => {
+    if (sessionSaveTimer.current) {
+      clearTimeout(sessionSaveTimer.current);
+      sessionSaveTimer.current = null;
+    }
+    sessionSavedAt.current = Date.now();
+    sessionStore.save(sessionRef.current);
+  }, []);
+
+  useEffect(() => {
+    sessionRef.current = { activeTab, transcripts };
+    // A pending save picks up the latest session when it fires
+    if (!sessionSaveTimer.current) {
+      const wait = Math.max(0, sessionSavedAt.current + SESSION_SAVE_DELAY - Date.now());
+      sessionSaveTimer.current = setTimeout(flushSession, wait);
+    }
+  }, [activeTab, transcripts, flushSession]);
+
+  // Don't lose the last changes when the page is closed before a pending save
+  useEffect(() => {
+    const flushPending = () => {
+      if (sessionSaveTimer.current) {
+        flushSession();
+      }
+    };
+    window.addEventListener("beforeunload", flushPending);
+    window.addEventListener("pagehide", flushPending);
+    return () => {
+      window.removeEventListener("beforeunload", flushPending);
+      window.removeEventListener("pagehide", flushPending);
+      flushPending();
+    };
+  }, [flushSession]);
+
+  // Switch to the tab's default profile, if it has one, the first time the tab
+  // is opened. Later visits keep the current settings, so manual changes aren't
+  // lost, and the restored tab counts as visited so the restored settings stay.
+  useEffect(() => {
+    if (visitedTabs.current.has(activeTab)) {
+      return;
+    }
+    visitedTabs.current.add(activeTab);
+    
+    const profile = profileService.getTabProfile(activeTab);
+    if (profile) {
+      // Fresh object so a profile shared with another tab still applies
+      setAppliedProfile({ ...profile });
+    }
+  }, [activeTab]);
+
+  // Re-check availability whenever a different model is selected
+  useEffect(() => {
+    if (!ollamaConnected) {
+      return;
+    }
+    
+    ollamaService.isModelAvailable(activeModel)
+      .then(setModelLoaded)
+      .catch(() => setModelLoaded(false));
+  }, [activeModel, ollamaConnected]);
+
   const checkOllamaStatus = async () => {
     try {
       setIsConnecting(true);
@@ -63,12 +215,13 @@ const CodeWizard: React.FC = () => {
       setOllamaConnected(isRunning);
       
       if (isRunning) {
-        const isAvailable = await ollamaService.isModelAvailable();
+        const model = ollamaService.getModel();
+        const isAvailable = await ollamaService.isModelAvailable(model);
         setModelLoaded(isAvailable);
         
         addOutput({
           type: "info",
-          content: `Ollama is ${isRunning ? "running" : "not running"} at ${ollamaService.getEndpoint()}. Model qwen2.5-coder:14b is ${isAvailable ? "loaded" : "not loaded"}.`,
+          content: `Ollama is ${isRunning ? "running" : "not running"} at ${ollamaService.getEndpoint()}. Model ${model} is ${isAvailable ? "loaded" : "not loaded"}.`,
           timestamp: new Date()
         });
         
@@ -94,11 +247,64 @@ const CodeWizard: React.FC = () => {
     }
   };
 
-  const addOutput = (item: OutputItem) => {
-    setOutput(prev => [...prev, item]);
+  const updateTranscript = (tab: WizardTab, update: (transcript: Transcript) => Partial<Transcript>) => {
+    setTranscripts(prev => ({ ...prev, [tab]: { ...prev[tab], ...update(prev[tab]) } }));
+  };
+
+  // Handlers see the state of the render they were called from, so by default
+  // output goes to the tab an operation started in, even if the user has moved on
+  const addOutput = (item: OutputItem, tab: WizardTab = activeTab) => {
+    updateTranscript(tab, ({ output }) => ({
+      output: output.length < MAX_OUTPUT_ITEMS ? [...output, item] : [...output.slice(1 - MAX_OUTPUT_ITEMS), item]
+    }));
+  };
+
+  // Replace an item in whichever tab's log it is in, or drop it when `update` returns null
+  const replaceOutput = (id: string, update: (item: OutputItem) => OutputItem | null) => {
+    setTranscripts(prev => {
+      const tab = WIZARD_TABS.find(name => prev[name].output.some(item => item.id === id));
+      if (!tab) {
+        return prev;
+      }
+      const output = prev[tab].output.flatMap(item => item.id === id ? update(item) ?? [] : [item]);
+      return { ...prev, [tab]: { ...prev[tab], output } };
+    });
+  };
+
+  const updateOutput = (id: string, changes: Partial<OutputItem>) => {
+    replaceOutput(id, item => ({ ...item, ...changes }));
+  };
+
+  // Start a cancellable operation, aborting any previous one still in flight
+  const beginCancellable = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
   };
 
   const handleSendCommand = async (command: string) => {
+    // While a shell command runs, input is meant for its stdin
+    const running = runningCommandRef.current;
+    if (terminal.busy && running) {
+      // The terminal doesn't echo input, so show it in the output ourselves
+      running.screen.write(`${command}\n`);
+      updateOutput(running.id, { content: running.screen.toString() });
+      terminalService.sendInput(`${command}\n`).catch((error) => {
+        toast.error(`Failed to send input: ${error instanceof Error ? error.message : error}`);
+      });
+      return;
+    }
+    // Empty lines are only meant for a running command
+    if (!command.trim()) {
+      return;
+    }
+    
     setIsProcessing(true);
     
     addOutput({
@@ -107,60 +313,152 @@ const CodeWizard: React.FC = () => {
       timestamp: new Date()
     });
 
-    if (command.startsWith("ollama")) {
-      if (command.includes("run")) {
-        await handleOllamaRunCommand(command);
-      } else if (command.includes("pull")) {
-        await handleOllamaPullCommand(command);
-      } else {
-        await executeCommand(command);
-      }
-    } else if (command.match(/install ollama/i)) {
-      setShowInstallInstructions(true);
+    try {
+      await commandRegistry.execute(command, commandContext);
+    } catch (error) {
       addOutput({
-        type: "info",
-        content: "Showing Ollama installation instructions...",
+        type: "error",
+        content: `Command failed: ${error instanceof Error ? error.message : error}`,
         timestamp: new Date()
       });
-    } else if (command.match(/^ssh/i)) {
-      await handleSSHCommand(command);
-    } else if (command.match(/^warpify|analyze/i)) {
-      setActiveTab("files");
+    }
+    
+    setIsProcessing(false);
+  };
+
+  // Ask the user to confirm a risky command; resolves with their answer
+  const requestConfirmation = (decision: PolicyDecision): Promise<boolean> => {
+    return new Promise(resolve => {
+      confirmResolverRef.current = resolve;
+      setPendingConfirmation(decision);
+    });
+  };
+
+  const handleConfirmation = (confirmed: boolean) => {
+    // The dialog can report both a button click and its own close; only the first counts
+    confirmResolverRef.current?.(confirmed);
+    confirmResolverRef.current = null;
+    setPendingConfirmation(null);
+  };
+
+  // Apply the command policy, asking for confirmation when it requires it.
+  // Every decision is recorded in the audit log. Returns whether to run the command.
+  const checkCommandPolicy = async (command: string, source: CommandSource, sourceId?: string): Promise<boolean> => {
+    const decision = commandPolicyService.evaluate(command, source);
+    
+    if (decision.action === "deny") {
+      commandPolicyService.record(decision, "denied");
       addOutput({
-        type: "info",
-        content: "Switched to File Explorer. Select files to analyze.",
-        timestamp: new Date()
+        type: "error",
+        content: `Command blocked. ${decision.explanation}`,
+        timestamp: new Date(),
+        sourceId
       });
-    } else if (!command.match(/^(cd|ls|dir|mkdir|rm|git|npm|yarn|pnpm)/i)) {
-      await handleAICommand(command);
-    } else {
-      await executeCommand(command);
+      return false;
     }
     
-    setIsProcessing(false);
+    if (decision.action === "confirm") {
+      const confirmed = await requestConfirmation(decision);
+      commandPolicyService.record(decision, confirmed ? "confirmed" : "rejected");
+      if (!confirmed) {
+        addOutput({
+          type: "info",
+          content: "Command not run.",
+          timestamp: new Date(),
+          sourceId
+        });
+      }
+      return confirmed;
+    }
+    
+    commandPolicyService.record(decision, "allowed");
+    return true;
   };
 
-  const executeCommand = async (command: string) => {
+  // Run a command in the terminal session. `sourceId` links the output to the
+  // AI response that suggested the command.
+  const executeCommand = async (
+    command: string,
+    source: CommandSource = "user",
+    sourceId?: string
+  ): Promise<Pick<SuggestedCommand, "status" | "exitCode">> => {
+    if (!(await checkCommandPolicy(command, source, sourceId))) {
+      return { status: "blocked" };
+    }
+    
+    const translation = terminalService.translate(command);
+    if (translation.command !== command) {
+      addOutput({
+        type: "info",
+        content: `Running as: ${translation.command}`,
+        timestamp: new Date(),
+        sourceId
+      });
+    }
+    translation.warnings.forEach(warning => addOutput({
+      type: "error",
+      content: `Warning: ${warning}`,
+      timestamp: new Date(),
+      sourceId
+    }));
+
+    const signal = beginCancellable();
+    const running = { id: `terminal-${Date.now()}`, screen: new TerminalScreen() };
+    runningCommandRef.current = running;
+    addOutput({
+      id: running.id,
+      type: "response",
+      content: "",
+      timestamp: new Date(),
+      sourceId,
+      preformatted: true
+    });
+    
     try {
-      const result = await commandService.executeCommand(command);
+      const result = await terminalService.run(translation.command, (data) => {
+        running.screen.write(data);
+        updateOutput(running.id, { content: running.screen.toString() });
+      }, signal);
       
+      updateOutput(running.id, { interrupted: signal.aborted });
       addOutput({
-        type: result.success ? "response" : "error",
-        content: result.output,
-        timestamp: new Date()
+        type: result.exitCode === 0 ? "info" : "error",
+        content: `Exited with code ${result.exitCode} in ${(result.durationMs / 1000).toFixed(2)}s (${result.cwd})`,
+        timestamp: new Date(),
+        sourceId
       });
+      return { status: result.exitCode === 0 ? "succeeded" : "failed", exitCode: result.exitCode };
     } catch (error) {
+      if (isAbortError(error)) {
+        addOutput({
+          type: "info",
+          content: "Stopped before the command started",
+          timestamp: new Date(),
+          sourceId
+        });
+        return { status: "skipped" };
+      }
+      
       addOutput({
         type: "error",
-        content: `Error executing command: ${error}`,
-        timestamp: new Date()
+        content: `Error executing command: ${error instanceof Error ? error.message : error}`,
+        timestamp: new Date(),
+        sourceId
       });
+      commandService.checkBridge();
+      return { status: "failed" };
+    } finally {
+      runningCommandRef.current = null;
+      // Drop the placeholder if the command printed nothing
+      replaceOutput(running.id, item => item.content ? item : null);
+      if (abortControllerRef.current?.signal === signal) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
-  const handleSSHCommand = async (command: string) => {
-    const hostMatch = command.match(/ssh\s+(?:-\w+\s+)*([^@\s]+@)?([^@\s]+)/i);
-    const host = hostMatch ? hostMatch[2] : "remote-host";
+  const handleSSHCommand = async (target: string) => {
+    const { host } = parseSSHConnectionString(target);
     
     addOutput({
       type: "info",
@@ -185,65 +483,110 @@ const CodeWizard: React.FC = () => {
     }, 2000);
   };
 
-  const handleOllamaRunCommand = async (command: string) => {
-    const modelMatch = command.match(/ollama run (\S+)/);
-    const modelName = modelMatch ? modelMatch[1] : "qwen2.5-coder:14b";
+  // Switch models; the effect on `activeModel` keeps `modelLoaded` in step with the server
+  const handleOllamaRunCommand = async (modelName: string) => {
+    ollamaService.setModel(modelName);
     
-    addOutput({
-      type: "info",
-      content: `Starting Ollama with model ${modelName}...`,
-      timestamp: new Date()
-    });
-    
-    setTimeout(() => {
-      setOllamaConnected(true);
-      setModelLoaded(true);
-      
+    if (!ollamaConnected) {
       addOutput({
-        type: "response",
-        content: `Ollama started successfully with model ${modelName}.`,
+        type: "error",
+        content: `Ollama is not running at ${ollamaService.getEndpoint()}. ${modelName} will be used once it's connected.`,
         timestamp: new Date()
       });
-      
-      toast.success(`Ollama is now running with model ${modelName}`);
-    }, 2000);
+      return;
+    }
+    
+    const available = await ollamaService.isModelAvailable(modelName).catch(() => false);
+    addOutput(available
+      ? { type: "info", content: `Now using model ${modelName}.`, timestamp: new Date() }
+      : { type: "error", content: `Model ${modelName} is not installed. Download it with /pull ${modelName}.`, timestamp: new Date() }
+    );
   };
 
-  const handleOllamaPullCommand = async (command: string) => {
-    const modelMatch = command.match(/ollama pull (\S+)/);
-    const modelName = modelMatch ? modelMatch[1] : "qwen2.5-coder:14b";
+  const updatePull = (id: string, update: (pull: PullState) => PullState) => {
+    setPulls(prev => prev.map(pull => pull.id === id ? update(pull) : pull));
+  };
+
+  const handleOllamaPullCommand = (modelName: string) => {
+    const id = `${modelName}-${Date.now()}`;
+    const controller = new AbortController();
+    pullControllersRef.current.set(id, controller);
     
+    setPulls(prev => [...prev, { id, model: modelName, status: "starting", layers: {}, state: "pulling" }]);
     addOutput({
       type: "info",
       content: `Pulling model ${modelName}...`,
       timestamp: new Date()
     });
     
-    let progress = 0;
-    const intervalId = setInterval(() => {
-      progress += 20;
-      
-      if (progress <= 100) {
+    // Not awaited so several pulls can run while the input stays usable
+    ollamaService.pullModel(modelName, controller.signal, (progress) => {
+      updatePull(id, pull => ({
+        ...pull,
+        status: progress.status,
+        layers: progress.digest && progress.total
+          ? { ...pull.layers, [progress.digest]: { total: progress.total, completed: progress.completed ?? 0 } }
+          : pull.layers
+      }));
+    })
+      .then(() => {
+        updatePull(id, pull => ({ ...pull, status: "success", state: "success" }));
         addOutput({
           type: "response",
-          content: `Download progress: ${progress}%`,
+          content: `Model ${modelName} pulled successfully.`,
           timestamp: new Date()
         });
-      }
-      
-      if (progress >= 100) {
-        clearInterval(intervalId);
         
+        if (modelName === ollamaService.getModel()) {
+          setModelLoaded(true);
+        }
+        toast.success(`Model ${modelName} is now available`);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) {
+          updatePull(id, pull => ({ ...pull, status: "cancelled", state: "cancelled" }));
+          addOutput({
+            type: "info",
+            content: `Pull of ${modelName} cancelled.`,
+            timestamp: new Date()
+          });
+          return;
+        }
+        
+        const message = error instanceof Error ? error.message : String(error);
+        updatePull(id, pull => ({ ...pull, state: "error", error: message }));
         addOutput({
-          type: "response",
-          content: `Model ${modelName} pulled successfully.`,
+          type: "error",
+          content: `Failed to pull ${modelName}: ${message}`,
           timestamp: new Date()
         });
-        
-        setModelLoaded(true);
-        toast.success(`Model ${modelName} is now available`);
-      }
-    }, 1000);
+        toast.error(`Failed to pull ${modelName}`);
+      })
+      .finally(() => {
+        pullControllersRef.current.delete(id);
+      });
+  };
+
+  // What slash commands can do here
+  const commandContext: CommandContext = {
+    print: (type, content) => addOutput({ type, content, timestamp: new Date(), preformatted: true }),
+    runShell: async (command) => {
+      await executeCommand(command);
+    },
+    ask: (prompt) => handleAICommand(prompt),
+    setModel: handleOllamaRunCommand,
+    pullModel: handleOllamaPullCommand,
+    showTab: setActiveTab,
+    showInstallInstructions: () => setShowInstallInstructions(true),
+    connectSSH: handleSSHCommand
+  };
+
+  const handleCancelPull = (id: string) => {
+    pullControllersRef.current.get(id)?.abort();
+  };
+
+  const handleDismissPull = (id: string) => {
+    setPulls(prev => prev.filter(pull => pull.id !== id));
   };
 
   const handleAICommand = async (command: string) => {
@@ -259,85 +602,362 @@ const CodeWizard: React.FC = () => {
     if (!modelLoaded) {
       addOutput({
         type: "error",
-        content: "Model is not loaded. Please run 'ollama run qwen2.5-coder:14b' first.",
+        content: `Model ${activeModel} is not loaded. Please run 'ollama run ${activeModel}' first.`,
         timestamp: new Date()
       });
       return;
     }
     
+    // One entry shows "Thinking..." until the first chunk, then the response as it streams in
+    const responseId = `response-${Date.now()}`;
     addOutput({
+      id: responseId,
       type: "info",
       content: "Thinking...",
       timestamp: new Date()
     });
     
+    const signal = beginCancellable();
+    const userMessage: ChatMessage = { role: "user", content: command };
+    const messages: ChatMessage[] = [
+      { role: "system", content: modelSettings.systemPrompt || DEFAULT_SYSTEM_PROMPT },
+      ...describeSharedContext(context),
+      ...conversation,
+      userMessage
+    ];
+    
+    let fullResponse = "";
+    // The exchange belongs to the tab it was asked in
+    const tab = activeTab;
+    const recordExchange = () => updateTranscript(tab, transcript => ({
+      conversation: [...transcript.conversation, userMessage, { role: "assistant", content: fullResponse }]
+    }));
+    
     try {
-      let fullResponse = "";
-      
-      await ollamaService.streamCompletion(
-        command,
+      await ollamaService.streamChat(
+        messages,
         {
+          ...modelSettings.sampling,
+          model: activeModel,
           temperature: modelSettings.temperature,
           useGPU: modelSettings.useGPU,
           maxTokens: modelSettings.maxTokens
         },
         (chunk, done) => {
           fullResponse += chunk;
-          if (done) {
-            addOutput({
+          if (!done) {
+            if (chunk) {
+              updateOutput(responseId, { type: "response", content: fullResponse });
+            }
+          } else {
+            const commands = commandService.parseCommandsFromAI(fullResponse);
+            updateOutput(responseId, {
               type: "response",
               content: fullResponse,
-              timestamp: new Date()
+              timestamp: new Date(),
+              suggestions: commands.map((suggested, index) => ({
+                id: `${responseId}-${index}`,
+                command: suggested,
+                status: "pending"
+              }))
             });
             
-            const commands = commandService.parseCommandsFromAI(fullResponse);
+            recordExchange();
+            
             if (commands.length > 0) {
+              const risky = commands.filter(suggested => {
+                const classes = classifyCommand(suggested).classes;
+                return classes.includes("destructive") || classes.includes("privileged");
+              }).length;
               addOutput({
                 type: "info",
-                content: `Found ${commands.length} executable command${commands.length > 1 ? 's' : ''}. Use the Execute button to run them.`,
+                content: `Found ${commands.length} executable command${commands.length > 1 ? 's' : ''}${risky ? ` (${risky} destructive or privileged)` : ''}. Review and run them from the cards under the response.`,
                 timestamp: new Date()
               });
             }
           }
-        }
+        },
+        signal
       );
     } catch (error) {
-      console.error("Error with Ollama:", error);
+      if (isAbortError(error)) {
+        // Keep whatever streamed before the stop so the user can still use it
+        updateOutput(responseId, {
+          type: "response",
+          content: fullResponse,
+          timestamp: new Date(),
+          interrupted: true
+        });
+        
+        if (fullResponse) {
+          recordExchange();
+        }
+        
+        toast.info("Generation stopped");
+        return;
+      }
       
-      const responses = [
-        "```python\ndef hello_world():\n    print('Hello, world!')\n```",
-        "I'd recommend creating a function to handle this task:",
-        "```javascript\nasync function processData(input) {\n  const result = await fetch('/api/data', {\n    method: 'POST',\n    body: JSON.stringify(input)\n  });\n  return result.json();\n}\n```",
-        "Here's how you can solve this problem with React:",
-        "```jsx\nimport React, { useState } from 'react';\n\nfunction Counter() {\n  const [count, setCount] = useState(0);\n  \n  return (\n    <div>\n      <p>Count: {count}</p>\n      <button onClick={() => setCount(count + 1)}>Increment</button>\n    </div>\n  );\n}\n```"
-      ];
+      console.error("Error with Ollama:", error);
       
-      const randomResponse = responses[Math.floor(Math.random() * responses.length)];
+      // Show what arrived before the failure, but keep it out of the conversation
+      replaceOutput(responseId, item => fullResponse ? {
+        ...item,
+        type: "response",
+        content: fullResponse,
+        timestamp: new Date(),
+        interrupted: true
+      } : null);
       
       addOutput({
-        type: "response",
-        content: randomResponse,
+        type: "error",
+        content: `The model failed to respond: ${error instanceof Error ? error.message : String(error)}`,
         timestamp: new Date()
       });
+    } finally {
+      if (abortControllerRef.current?.signal === signal) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  const updateSuggestion = (itemId: string, suggestionId: string, changes: Partial<SuggestedCommand>) => {
+    replaceOutput(itemId, item => item.suggestions
+      ? { ...item, suggestions: item.suggestions.map(suggestion => suggestion.id === suggestionId ? { ...suggestion, ...changes } : suggestion) }
+      : item
+    );
+  };
+
+  // Run AI-suggested commands one after another, stopping at the first that fails or is not run.
+  // `onProgress` hears when each command starts and how it ended.
+  const runCommandSequence = async (
+    commands: string[],
+    sourceId: string | undefined,
+    onProgress?: (index: number, result: Pick<SuggestedCommand, "status" | "exitCode">) => void
+  ) => {
+    if (isProcessing || commands.length === 0) {
+      return;
+    }
+    
+    setIsProcessing(true);
+    try {
+      for (const [index, command] of commands.entries()) {
+        onProgress?.(index, { status: "running", exitCode: undefined });
+        addOutput({
+          type: "command",
+          content: command,
+          timestamp: new Date(),
+          sourceId
+        });
+        
+        const result = await executeCommand(command, "ai", sourceId);
+        onProgress?.(index, result);
+        
+        if (result.status !== "succeeded") {
+          const remaining = commands.length - index - 1;
+          if (remaining > 0) {
+            addOutput({
+              type: "info",
+              content: `Stopped: "${command}" ${result.status === "blocked" ? "was not run" : "failed"}, so ${remaining} remaining command${remaining > 1 ? "s were" : " was"} not run.`,
+              timestamp: new Date(),
+              sourceId
+            });
+          }
+          break;
+        }
+      }
+    } finally {
+      setIsProcessing(false);
     }
   };
 
+  const handleRunSuggestions = (itemId: string, suggestions: SuggestedCommand[]) => {
+    return runCommandSequence(
+      suggestions.map(suggestion => suggestion.command),
+      itemId,
+      (index, result) => updateSuggestion(itemId, suggestions[index].id, result)
+    );
+  };
+
+  // Run every command in a shell code block from a response
+  const handleRunCode = (code: string, language: string, itemId?: string) => {
+    const commands = extractBlockCommands(code, language).map(({ command }) => command);
+    if (commands.length === 0) {
+      addOutput({ type: "info", content: "No commands found in that code block.", timestamp: new Date(), sourceId: itemId });
+      return;
+    }
+    return runCommandSequence(commands, itemId);
+  };
+
+  const handleInsertCode = (code: string, language: string) => {
+    commandInputRef.current?.insertCode(code, language);
+  };
+
+  const handleNewConversation = () => {
+    updateTranscript(activeTab, () => ({ conversation: [] }));
+    addOutput({
+      type: "info",
+      content: "Started a new conversation. Previous messages will no longer be sent to the model.",
+      timestamp: new Date()
+    });
+  };
+
+  const handleClearOutput = () => {
+    updateTranscript(activeTab, () => ({ output: [] }));
+  };
+
+  // Share an item from this tab's log with another tab's conversation
+  const handleSendTo = (tab: WizardTab, item: OutputItem) => {
+    const text = item.preformatted ? stripAnsi(item.content) : item.content;
+    const firstLine = text.trim().split("\n", 1)[0];
+    const shared: SharedContext = {
+      id: `context-${Date.now()}`,
+      from: activeTab,
+      label: firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine || "Output",
+      content: text.length > MAX_SHARED_CONTEXT ? `${text.slice(0, MAX_SHARED_CONTEXT)}\n[truncated]` : text
+    };
+    updateTranscript(tab, transcript => ({ context: [...transcript.context, shared] }));
+    addOutput({
+      type: "info",
+      content: `Added "${shared.label}" from ${TAB_LABELS[activeTab]} as context for the next messages.`,
+      timestamp: new Date()
+    }, tab);
+    toast.success(`Sent to ${TAB_LABELS[tab]}`, {
+      action: { label: "Open", onClick: () => setActiveTab(tab) }
+    });
+  };
+
+  const handleRemoveContext = (id: string) => {
+    updateTranscript(activeTab, transcript => ({ context: transcript.context.filter(shared => shared.id !== id) }));
+  };
+
+  // Download every tab's transcript as JSON
+  const handleExportSession = () => {
+    const session = { exportedAt: new Date().toISOString(), activeTab, transcripts };
+    downloadFile(`code-wizard-session-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(session, null, 2), "application/json");
+  };
+
+  const lastInput = [...output].reverse().find(item => item.type === "command")?.content;
+
+  const paletteActions: PaletteAction[] = [
+    { id: "tab.commands", label: "Go to Commands", group: "Navigation", icon: Terminal, run: () => setActiveTab("commands") },
+    { id: "tab.code", label: "Go to Code Generation", group: "Navigation", icon: Code, run: () => setActiveTab("code") },
+    { id: "tab.files", label: "Go to Files", group: "Navigation", icon: FolderOpen, run: () => setActiveTab("files") },
+    {
+      id: "model.choose",
+      label: "Choose model",
+      group: "Model",
+      icon: Cpu,
+      keywords: ["switch", "llm"],
+      children: async () => {
+        const models = await ollamaService.listModels().catch(() => []);
+        return models.map(model => ({
+          id: `model:${model.name}`,
+          label: model.name === activeModel ? `${model.name} (active)` : model.name,
+          group: "Model",
+          run: () => ollamaService.setModel(model.name)
+        }));
+      }
+    },
+    {
+      id: "profile.choose",
+      label: "Apply profile",
+      group: "Model",
+      icon: SlidersHorizontal,
+      children: () => profileService.getProfiles().map(profile => ({
+        id: `profile:${profile.id}`,
+        label: profile.name,
+        group: "Model",
+        // Fresh object so re-applying the same profile resets manual tweaks
+        run: () => setAppliedProfile({ ...profile })
+      }))
+    },
+    { id: "ollama.reconnect", label: "Reconnect to Ollama", group: "Ollama", icon: RefreshCw, disabled: isConnecting, run: checkOllamaStatus },
+    { id: "ollama.install", label: "Show install instructions", group: "Ollama", icon: Download, run: () => setShowInstallInstructions(true) },
+    { id: "output.clear", label: "Clear output", group: "Session", icon: Eraser, run: handleClearOutput },
+    { id: "conversation.new", label: "Start a new chat", group: "Session", icon: MessageSquarePlus, disabled: isProcessing, run: handleNewConversation },
+    { id: "session.export", label: "Export session", group: "Session", icon: FileDown, run: handleExportSession },
+    {
+      id: "prompt.run",
+      label: "Run saved prompt",
+      group: "Prompts",
+      icon: Bookmark,
+      disabled: isProcessing,
+      children: () => savedPromptService.getPrompts().map(saved => ({
+        id: `prompt:${saved.id}`,
+        label: saved.name,
+        group: "Prompts",
+        keywords: [saved.prompt],
+        run: () => handleSendCommand(saved.prompt)
+      }))
+    },
+    {
+      id: "prompt.save",
+      label: "Save last input as a prompt",
+      group: "Prompts",
+      icon: BookmarkPlus,
+      disabled: !lastInput,
+      run: () => {
+        const saved = savedPromptService.savePrompt(lastInput);
+        toast.success(`Saved prompt "${saved.name}"`);
+      }
+    },
+    {
+      id: "prompt.delete",
+      label: "Delete saved prompt",
+      group: "Prompts",
+      icon: Trash2,
+      children: () => savedPromptService.getPrompts().map(saved => ({
+        id: `prompt-delete:${saved.id}`,
+        label: saved.name,
+        group: "Prompts",
+        run: () => savedPromptService.deletePrompt(saved.id)
+      }))
+    }
+  ];
+
+  const openPalette = (actionId: string | null = null) => {
+    setPaletteActionId(actionId);
+    setIsPaletteOpen(true);
+  };
+
+  useKeybindings({
+    "palette.open": () => openPalette(),
+    ...Object.fromEntries(paletteActions
+      .filter(action => !action.disabled)
+      .map(action => [action.id, action.children ? () => openPalette(action.id) : action.run]))
+  });
+
+  const paletteShortcut = keybindingService.getBinding("palette.open");
+
   const handleFileAnalysis = (result: string) => {
     addOutput({
       type: "response",
       content: result,
       timestamp: new Date()
-    });
+    }, "files");
   };
 
-  const handleSettingsChange = (settings: {
-    temperature: number;
-    useGPU: boolean;
-    maxTokens: number;
-    endpoint: string;
-  }) => {
+  // A tab's shared context and log
+  const renderTranscript = (tab: WizardTab) => (
+    <>
+      <SharedContextList context={transcripts[tab].context} sourceLabels={TAB_LABELS} onRemove={handleRemoveContext} />
+      <CommandOutput
+        output={transcripts[tab].output}
+        onRunSuggestions={handleRunSuggestions}
+        onUpdateSuggestion={updateSuggestion}
+        onInsertCode={handleInsertCode}
+        onRunCode={handleRunCode}
+        sendTargets={WIZARD_TABS.filter(other => other !== tab).map(other => ({ tab: other, label: TAB_LABELS[other] }))}
+        onSendTo={handleSendTo}
+        isProcessing={isProcessing}
+      />
+    </>
+  );
+
+  // Stable identity so ModelSettings' change effect doesn't re-fire on every render
+  const handleSettingsChange = useCallback((settings: ModelSettingsValue) => {
     setModelSettings(settings);
-  };
+  }, []);
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
@@ -354,6 +974,15 @@ const CodeWizard: React.FC = () => {
               </span>
             </CardTitle>
             <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => openPalette()}
+                title="Command palette"
+              >
+                <CommandIcon className="h-4 w-4 mr-1" />
+                {paletteShortcut ? formatKeybinding(paletteShortcut) : "Commands"}
+              </Button>
               {ollamaConnected ? (
                 <div className="flex items-center gap-2">
                   <div className="flex items-center text-green-400 text-sm">
@@ -400,7 +1029,7 @@ const CodeWizard: React.FC = () => {
         </CardHeader>
         
         <CardContent className="pt-6">
-          <Tabs defaultValue="commands" value={activeTab} onValueChange={(value) => setActiveTab(value as "commands" | "code" | "files")}>
+          <Tabs defaultValue="commands" value={activeTab} onValueChange={(value) => setActiveTab(value as WizardTab)}>
             <TabsList className="mb-4">
               <TabsTrigger value="commands" className="flex items-center gap-1">
                 <Terminal className="h-4 w-4" />
@@ -419,23 +1048,41 @@ const CodeWizard: React.FC = () => {
             <TabsContent value="commands" className="space-y-4">
               <div className="flex items-center space-x-2 p-3 rounded-md bg-secondary/20 border border-border">
                 <AlertCircle className="h-5 w-5 text-muted-foreground" />
-                <p className="text-sm text-muted-foreground">
+                <p className="text-sm text-muted-foreground flex-1">
                   Enter system commands to manage Ollama or execute tasks on your {os} system.
                 </p>
+                {terminal.cwd && (
+                  <span className="text-xs font-mono text-muted-foreground truncate max-w-[40%]" title="Shell working directory">
+                    {terminal.cwd}
+                  </span>
+                )}
               </div>
               
-              <CommandOutput output={output} />
+              <BridgeSettings />
+              <CommandPolicySettings />
+              
+              {renderTranscript("commands")}
             </TabsContent>
             
             <TabsContent value="code" className="space-y-4">
               <div className="flex items-center space-x-2 p-3 rounded-md bg-secondary/20 border border-border">
                 <Zap className="h-5 w-5 text-accent" />
-                <p className="text-sm text-muted-foreground">
+                <p className="text-sm text-muted-foreground flex-1">
                   Describe what code you need, and the AI will generate it for you.
+                  {conversation.length > 0 && ` (${conversation.length / 2} previous exchange${conversation.length > 2 ? "s" : ""} in context)`}
                 </p>
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={handleNewConversation}
+                  disabled={isProcessing || conversation.length === 0}
+                >
+                  <MessageSquarePlus className="h-4 w-4 mr-1" />
+                  New Chat
+                </Button>
               </div>
               
-              <CommandOutput output={output} />
+              {renderTranscript("code")}
             </TabsContent>
             
             <TabsContent value="files" className="space-y-4">
@@ -446,27 +1093,71 @@ const CodeWizard: React.FC = () => {
                 </p>
               </div>
               
-              <CommandOutput output={output} />
+              {renderTranscript("files")}
               
               <FileExplorer 
                 onAnalyze={handleFileAnalysis}
                 isProcessing={isProcessing}
                 setIsProcessing={setIsProcessing}
+                createSignal={beginCancellable}
               />
             </TabsContent>
           </Tabs>
           
-          <ModelSettings onSettingsChange={handleSettingsChange} />
+          <PullProgressList 
+            pulls={pulls}
+            onCancel={handleCancelPull}
+            onDismiss={handleDismissPull}
+          />
+          
+          <ModelSettings 
+            onSettingsChange={handleSettingsChange}
+            activeTab={activeTab}
+            appliedProfile={appliedProfile}
+          />
         </CardContent>
         
-        <CardFooter className="pt-2 border-t border-border">
-          <CommandInput 
-            onSendCommand={handleSendCommand}
-            isProcessing={isProcessing}
-          />
+        <CardFooter className="pt-2 border-t border-border gap-2">
+          <DefaultRouteSelect disabled={terminal.busy} />
+          <div className="flex-1">
+            <CommandInput 
+              ref={commandInputRef}
+              onSendCommand={handleSendCommand}
+              isProcessing={isProcessing && !terminal.busy}
+              placeholder={terminal.busy ? "Send input to the running command (Ctrl-C to interrupt)..." : undefined}
+              onInterrupt={terminal.busy ? handleStop : undefined}
+              recordHistory={!terminal.busy}
+              allowEmpty={terminal.busy}
+              contextLength={modelSettings.sampling.numCtx ?? DEFAULT_NUM_CTX}
+              onComplete={terminal.busy ? undefined : completeInput}
+              describeRoute={terminal.busy ? undefined : describeInputRoute}
+            />
+          </div>
+          {isProcessing && (
+            <Button 
+              variant="destructive" 
+              onClick={handleStop}
+              title={terminal.busy ? "Interrupt the running command" : "Stop generating"}
+            >
+              <Square className="h-4 w-4 mr-1" />
+              Stop
+            </Button>
+          )}
         </CardFooter>
       </Card>
       
+      <CommandConfirmDialog 
+        decision={pendingConfirmation}
+        onResolve={handleConfirmation}
+      />
+      
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        actions={paletteActions}
+        initialActionId={paletteActionId}
+      />
+      
       <InstallInstructions 
         isOpen={showInstallInstructions} 
         onClose={() => setShowInstallInstructions(false)} 
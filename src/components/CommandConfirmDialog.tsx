@@ -0,0 +1,66 @@
+import React from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { ShieldAlert } from "lucide-react";
+import RiskBadges from "./RiskBadges";
+import { PolicyDecision } from "@/services/commandPolicyService";
+
+interface CommandConfirmDialogProps {
+  // The decision awaiting confirmation, or null when the dialog is closed
+  decision: PolicyDecision | null;
+  onResolve: (confirmed: boolean) => void;
+}
+
+const CommandConfirmDialog: React.FC<CommandConfirmDialogProps> = ({ decision, onResolve }) => {
+  return (
+    <AlertDialog open={!!decision} onOpenChange={(open) => !open && onResolve(false)}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-yellow-400" />
+            Run this command?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {decision?.explanation}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {decision && (
+          <div className="space-y-3">
+            <pre className="terminal-text whitespace-pre-wrap break-all rounded-md bg-code-bg text-code-text p-3 text-sm">
+              {decision.command}
+            </pre>
+            <RiskBadges classes={decision.assessment.classes} />
+            {decision.assessment.reasons.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                {decision.assessment.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => onResolve(false)}>Don't run</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => onResolve(true)}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Run anyway
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CommandConfirmDialog;
@@ -0,0 +1,90 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { History, Trash2, X } from "lucide-react";
+import historyService from "@/services/historyService";
+import { useCommandHistory } from "@/hooks/use-command-history";
+
+interface CommandHistoryPopoverProps {
+  // Put an entry back into the input for editing
+  onSelect: (entry: string) => void;
+  disabled?: boolean;
+}
+
+const CommandHistoryPopover: React.FC<CommandHistoryPopoverProps> = ({ onSelect, disabled }) => {
+  const entries = useCommandHistory();
+  const [isOpen, setIsOpen] = useState(false);
+  const [excludeText, setExcludeText] = useState(() => historyService.getExcludePatterns().join("\n"));
+
+  const recentEntries = [...entries].reverse();
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={disabled} title="Command history" aria-label="Command history">
+          <History className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">History for this workspace</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => historyService.clear()}
+            disabled={entries.length === 0}
+            className="h-6 text-xs"
+          >
+            <Trash2 className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        </div>
+        <div className="max-h-56 overflow-y-auto rounded-md border border-border divide-y divide-border">
+          {recentEntries.length === 0 && (
+            <p className="p-2 text-xs text-muted-foreground italic">Nothing entered yet.</p>
+          )}
+          {recentEntries.map(entry => (
+            <div key={entry} className="group flex items-center gap-1 px-2 py-1">
+              <button
+                className="flex-1 text-left font-mono text-xs truncate hover:text-accent"
+                onClick={() => {
+                  onSelect(entry);
+                  setIsOpen(false);
+                }}
+                title={entry}
+              >
+                {entry}
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                onClick={() => historyService.remove(entry)}
+                aria-label={`Remove ${entry} from history`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-exclude" className="text-xs">Never save entries matching</Label>
+          <Textarea
+            id="history-exclude"
+            value={excludeText}
+            onChange={(e) => setExcludeText(e.target.value)}
+            onBlur={() => historyService.setExcludePatterns(excludeText.split("\n").map(line => line.trim()).filter(Boolean))}
+            className="text-xs font-mono min-h-[60px]"
+          />
+          <p className="text-xs text-muted-foreground">
+            One pattern per line, as in the command policy. Start an entry with a space to keep just that one out.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CommandHistoryPopover;
@@ -1,55 +1,375 @@
 
-import React, { useState, KeyboardEvent } from "react";
-import { Input } from "@/components/ui/input";
+import React, { useState, useRef, useEffect, useLayoutEffect, useImperativeHandle, KeyboardEvent, ClipboardEvent } from "react";
+import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
 import { Send, Terminal } from "lucide-react";
+import CommandHistoryPopover from "./CommandHistoryPopover";
+import historyService from "@/services/historyService";
+import type { Completion } from "@/services/commandRegistry";
+import { estimateTokens, guessLanguage, looksLikeCode, wrapInFence } from "@/utils/promptUtils";
+import { cn } from "@/lib/utils";
 
 interface CommandInputProps {
   onSendCommand: (command: string) => void;
   isProcessing: boolean;
+  placeholder?: string;
+  // Called on Ctrl-C when nothing is selected, e.g. to interrupt a running command
+  onInterrupt?: () => void;
+  // Whether submitted entries are saved to history; off for input sent to a running command
+  recordHistory?: boolean;
+  // Whether an empty line can be sent, e.g. a bare Return for a running command's prompt
+  allowEmpty?: boolean;
+  // The model's context length, to show how much of it the prompt would use
+  contextLength?: number;
+  // Suggestions for what has been typed so far, e.g. slash commands and their arguments
+  onComplete?: (input: string) => Promise<Completion[]>;
+  // Where the input would go when sent, shown as a hint
+  describeRoute?: (input: string) => string | undefined;
 }
 
-const CommandInput: React.FC<CommandInputProps> = ({
+export interface CommandInputHandle {
+  // Add code at the cursor as a fenced block, as if it had been pasted
+  insertCode: (code: string, language: string) => void;
+}
+
+// The editor grows with its content up to this height, then scrolls
+const MAX_EDITOR_HEIGHT = 240;
+
+// Incremental reverse search, as with Ctrl-R in bash
+interface HistorySearch {
+  query: string;
+  // Index of the current match in the history, or -1 when nothing matches
+  matchIndex: number;
+  // What was in the input before searching, restored on cancel
+  original: string;
+}
+
+// Find the newest entry at or before `from` containing the query
+const findMatch = (entries: string[], query: string, from: number): number => {
+  for (let i = Math.min(from, entries.length - 1); i >= 0; i--) {
+    if (entries[i].includes(query)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const CommandInput = React.forwardRef<CommandInputHandle, CommandInputProps>(({
   onSendCommand,
-  isProcessing
-}) => {
+  isProcessing,
+  placeholder = "Enter a command or ask for code assistance...",
+  onInterrupt,
+  recordHistory = true,
+  allowEmpty = false,
+  contextLength,
+  onComplete,
+  describeRoute
+}, ref) => {
   const [command, setCommand] = useState("");
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Position while browsing history with the arrow keys; null while editing a new entry
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  // The unsent entry, kept while browsing so Down can return to it
+  const [draft, setDraft] = useState("");
+  const [search, setSearch] = useState<HistorySearch | null>(null);
+  const [completions, setCompletions] = useState<Completion[]>([]);
+  const [completionIndex, setCompletionIndex] = useState(0);
 
-  const handleSubmit = () => {
-    if (command.trim() && !isProcessing) {
-      onSendCommand(command);
+  const submit = (value: string) => {
+    if ((value.trim() || allowEmpty) && !isProcessing) {
+      if (recordHistory && value.trim()) {
+        historyService.add(value);
+      }
+      onSendCommand(value);
       setCommand("");
+      setHistoryIndex(null);
+      setSearch(null);
+    }
+  };
+
+  const recall = (index: number | null) => {
+    const entries = historyService.getEntries();
+    if (index === null) {
+      setCommand(draft);
+    } else {
+      if (historyIndex === null) {
+        setDraft(command);
+      }
+      setCommand(entries[index]);
     }
+    setHistoryIndex(index);
   };
 
-  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+  // Leave search mode, keeping the match in the input for editing
+  const acceptSearch = () => {
+    const entries = historyService.getEntries();
+    setCommand(search.matchIndex >= 0 ? entries[search.matchIndex] : search.original);
+    setHistoryIndex(search.matchIndex >= 0 ? search.matchIndex : null);
+    setSearch(null);
+  };
+
+  const handleSearchKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const entries = historyService.getEntries();
+    if (e.key === "r" && e.ctrlKey) {
+      e.preventDefault();
+      // Step to the next older match, staying put when there is none
+      const next = findMatch(entries, search.query, search.matchIndex - 1);
+      if (next >= 0) {
+        setSearch({ ...search, matchIndex: next });
+      }
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (search.matchIndex >= 0) {
+        submit(entries[search.matchIndex]);
+      }
+    } else if (e.key === "Escape" || (e.key === "g" && e.ctrlKey) || (e.key === "c" && e.ctrlKey)) {
+      e.preventDefault();
+      setCommand(search.original);
+      setSearch(null);
+    } else if (["ArrowLeft", "ArrowRight", "ArrowUp", "ArrowDown", "Tab", "Home", "End"].includes(e.key)) {
+      e.preventDefault();
+      acceptSearch();
+    }
+  };
+
+  const acceptCompletion = (completion: Completion) => {
+    setCommand(completion.value);
+    setHistoryIndex(null);
+    textareaRef.current?.focus();
+  };
+
+  // Navigate and accept completions; returns whether the key was handled
+  const handleCompletionKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setCompletionIndex((completionIndex + step + completions.length) % completions.length);
+    } else if (e.key === "Tab") {
+      acceptCompletion(completions[completionIndex]);
+    } else if (e.key === "Escape") {
+      setCompletions([]);
+    } else {
+      return false;
+    }
+    e.preventDefault();
+    return true;
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (search) {
+      handleSearchKeyDown(e);
+      return;
+    }
+
+    if (completions.length > 0 && handleCompletionKeyDown(e)) {
+      return;
+    }
+
+    const entries = historyService.getEntries();
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    // Arrows only browse history from the first or last line; elsewhere they move the caret
+    const onFirstLine = !value.slice(0, selectionStart).includes("\n");
+    const onLastLine = !value.slice(selectionEnd).includes("\n");
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
-      handleSubmit();
+      submit(command);
+    } else if (e.key === "ArrowUp" && onFirstLine && entries.length > 0) {
+      e.preventDefault();
+      recall(historyIndex === null ? entries.length - 1 : Math.max(historyIndex - 1, 0));
+    } else if (e.key === "ArrowDown" && onLastLine && historyIndex !== null) {
+      e.preventDefault();
+      recall(historyIndex + 1 < entries.length ? historyIndex + 1 : null);
+    } else if (e.key === "r" && e.ctrlKey) {
+      e.preventDefault();
+      setSearch({ query: "", matchIndex: entries.length - 1, original: command });
+    } else if (e.key === "c" && e.ctrlKey && onInterrupt) {
+      if (selectionStart === selectionEnd) {
+        e.preventDefault();
+        onInterrupt();
+      }
+    }
+  };
+
+  const handleChange = (value: string) => {
+    if (search) {
+      setSearch({ ...search, query: value, matchIndex: findMatch(historyService.getEntries(), value, Infinity) });
+      return;
+    }
+    setCommand(value);
+    setHistoryIndex(null);
+  };
+
+  // Replace the selection with a fenced block, leaving the caret after it.
+  // Returns the text around the block.
+  const insertCodeBlock = (code: string, language: string | undefined, start: number, end: number) => {
+    const before = command.slice(0, start);
+    const after = command.slice(end);
+    // Fences have to start and end on their own lines
+    const block = `${before && !before.endsWith("\n") ? "\n" : ""}${wrapInFence(code, language)}\n`;
+    const caret = before.length + block.length;
+
+    setCommand(`${before}${block}${after}`);
+    setHistoryIndex(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+    return { before, after };
+  };
+
+  useImperativeHandle(ref, () => ({
+    insertCode: (code, language) => {
+      const textarea = textareaRef.current;
+      if (search || !textarea) {
+        setSearch(null);
+        insertCodeBlock(code, language, command.length, command.length);
+      } else {
+        insertCodeBlock(code, language, textarea.selectionStart, textarea.selectionEnd);
+      }
+    }
+  }));
+
+  // Pasted code goes in as a fenced block so the model can tell it apart from the question
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const text = e.clipboardData.getData("text/plain");
+    if (search || !looksLikeCode(text)) {
+      return;
     }
+
+    e.preventDefault();
+    const language = guessLanguage(text);
+    const { before, after } = insertCodeBlock(text, language, e.currentTarget.selectionStart, e.currentTarget.selectionEnd);
+    toast(`Pasted as a ${language && language !== "text" ? language : "plain text"} code block`, {
+      action: {
+        label: "Paste as typed",
+        onClick: () => setCommand(`${before}${text}${after}`)
+      }
+    });
   };
 
+  // Refresh suggestions as the input changes, ignoring answers to stale input
+  useEffect(() => {
+    if (!onComplete || search || !command.startsWith("/")) {
+      setCompletions([]);
+      return;
+    }
+
+    let isCurrent = true;
+    onComplete(command)
+      .then(results => {
+        if (isCurrent) {
+          setCompletions(results);
+          setCompletionIndex(0);
+        }
+      })
+      .catch(() => isCurrent && setCompletions([]));
+    return () => {
+      isCurrent = false;
+    };
+  }, [command, search, onComplete]);
+
+  // Grow with the content, up to MAX_EDITOR_HEIGHT
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.style.height = "auto";
+      textarea.style.height = `${Math.min(textarea.scrollHeight, MAX_EDITOR_HEIGHT)}px`;
+    }
+  }, [command, search]);
+
+  const route = command.trim() && describeRoute?.(command);
+  const tokens = estimateTokens(command);
+  const contextUsage = contextLength ? tokens / contextLength : 0;
+
+  const searchMatch = search && search.matchIndex >= 0 ? historyService.getEntries()[search.matchIndex] : null;
+
   return (
-    <div className="flex items-center space-x-2 bg-secondary/50 p-3 rounded-lg border border-border">
-      <Terminal className="h-5 w-5 text-accent" />
-      <Input
-        className="flex-1 bg-transparent border-none focus-visible:ring-0 focus-visible:ring-offset-0 placeholder:text-muted-foreground terminal-text"
-        placeholder="Enter a command or ask for code assistance..."
-        value={command}
-        onChange={(e) => setCommand(e.target.value)}
-        onKeyDown={handleKeyDown}
-        disabled={isProcessing}
-      />
-      <Button 
-        onClick={handleSubmit} 
-        disabled={isProcessing || !command.trim()}
-        variant="secondary"
-        size="icon"
-      >
-        <Send className="h-4 w-4" />
-      </Button>
+    <div className="relative bg-secondary/50 p-3 rounded-lg border border-border space-y-1">
+      {completions.length > 0 && (
+        <div
+          className="absolute bottom-full left-0 right-0 mb-2 z-50 max-h-60 overflow-y-auto rounded-md border border-border bg-popover shadow-md py-1"
+          role="listbox"
+        >
+          {completions.map((completion, index) => (
+            <div
+              key={completion.value}
+              role="option"
+              aria-selected={index === completionIndex}
+              className={cn(
+                "flex items-baseline gap-3 px-3 py-1 cursor-pointer text-xs",
+                index === completionIndex && "bg-accent/20"
+              )}
+              // Keep focus in the editor
+              onMouseDown={(e) => {
+                e.preventDefault();
+                acceptCompletion(completion);
+              }}
+              onMouseEnter={() => setCompletionIndex(index)}
+            >
+              <span className="font-mono shrink-0">{completion.label}</span>
+              {completion.description && <span className="text-muted-foreground truncate">{completion.description}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+      {search && (
+        <div className="flex items-center gap-2 text-xs font-mono pl-7">
+          <span className={cn("text-muted-foreground shrink-0", searchMatch === null && search.query && "text-destructive")}>
+            {searchMatch === null && search.query ? "(failing reverse-i-search)" : "(reverse-i-search)"}
+          </span>
+          <span className="truncate">{searchMatch ?? ""}</span>
+        </div>
+      )}
+      <div className="flex items-start space-x-2">
+        <Terminal className="h-5 w-5 mt-2 text-accent" />
+        <Textarea
+          ref={textareaRef}
+          rows={1}
+          className="flex-1 min-h-0 resize-none bg-transparent border-none focus-visible:ring-0 focus-visible:ring-offset-0 placeholder:text-muted-foreground terminal-text"
+          placeholder={search ? "Type to search history; Ctrl-R for older matches, Esc to cancel" : placeholder}
+          value={search ? search.query : command}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          onBlur={() => search && acceptSearch()}
+          disabled={isProcessing}
+        />
+        <CommandHistoryPopover
+          onSelect={(entry) => {
+            setCommand(entry);
+            setHistoryIndex(null);
+            setSearch(null);
+          }}
+          disabled={isProcessing}
+        />
+        <Button
+          onClick={() => submit(command)}
+          disabled={isProcessing || (!command.trim() && !allowEmpty)}
+          variant="secondary"
+          size="icon"
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+      {command && !search && (
+        <div className="flex justify-between pl-7 text-xs text-muted-foreground">
+          <span>
+            {route && `Sends to ${route} · `}
+            {completions.length > 0 ? "Tab to complete" : "Shift+Enter for a new line"}
+          </span>
+          <span
+            className={cn(contextUsage > 1 ? "text-destructive" : contextUsage > 0.75 && "text-yellow-400")}
+            title="Estimated at about four characters per token"
+          >
+            {command.length.toLocaleString()} chars · ~{tokens.toLocaleString()} tokens
+            {contextLength ? ` of ${contextLength.toLocaleString()} (num_ctx)` : ""}
+          </span>
+        </div>
+      )}
     </div>
   );
-};
+});
+
+CommandInput.displayName = "CommandInput";
 
 export default CommandInput;
@@ -1,84 +1,496 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { cn, searchPattern } from "@/lib/utils";
+import { ArrowDownToLine, ChevronDown, ChevronUp, CornerDownRight, Forward, Search, X } from "lucide-react";
+import SuggestedCommands from "./SuggestedCommands";
+import Markdown from "./Markdown";
+import AnsiText from "./AnsiText";
+import HighlightedText from "./HighlightedText";
+import { SuggestedCommand } from "@/services/commandService";
+import type { WizardTab } from "@/services/profileService";
+import { stripAnsi } from "@/utils/terminalUtils";
+import { useVirtualList } from "@/hooks/use-virtual-list";
 
-import React from "react";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { cn } from "@/lib/utils";
+type OutputType = "command" | "response" | "error" | "info";
+
+interface OutputEntry {
+  id?: string;
+  type: OutputType;
+  content: string;
+  timestamp: Date;
+  interrupted?: boolean;
+  suggestions?: SuggestedCommand[];
+  sourceId?: string;
+  preformatted?: boolean;
+}
 
 interface CommandOutputProps {
-  output: Array<{
-    type: "command" | "response" | "error" | "info";
-    content: string;
-    timestamp: Date;
-  }>;
+  output: OutputEntry[];
+  onRunSuggestions?: (itemId: string, suggestions: SuggestedCommand[]) => void;
+  onUpdateSuggestion?: (itemId: string, suggestionId: string, changes: Partial<SuggestedCommand>) => void;
+  // Code block actions; `itemId` is the response the block belongs to
+  onInsertCode?: (code: string, language: string) => void;
+  onRunCode?: (code: string, language: string, itemId?: string) => void;
+  // Other tabs a response or error can be sent to, e.g. as context for their chat
+  sendTargets?: { tab: WizardTab; label: string }[];
+  onSendTo?: (tab: WizardTab, item: OutputEntry) => void;
+  isProcessing?: boolean;
 }
 
-const CommandOutput: React.FC<CommandOutputProps> = ({ output }) => {
-  // Auto-scroll to bottom ref
-  const scrollRef = React.useRef<HTMLDivElement>(null);
-
-  // Format the code blocks with syntax highlighting
-  const formatOutput = (content: string) => {
-    // Replace code blocks
-    const formattedContent = content.replace(
-      /```([\s\S]*?)```/g,
-      (match, codeContent) => {
-        return `<div class="code-block my-2"><pre><code>${codeContent}</code></pre></div>`;
+const OUTPUT_TYPES: { type: OutputType; label: string }[] = [
+  { type: "command", label: "Commands" },
+  { type: "response", label: "Responses" },
+  { type: "error", label: "Errors" },
+  { type: "info", label: "Info" }
+];
+
+const ALL_TYPES = OUTPUT_TYPES.map(({ type }) => type);
+
+// Responses longer than this start collapsed
+const COLLAPSE_LINES = 30;
+const COLLAPSE_CHARS = 4000;
+// Lines of terminal output still shown while collapsed, taken from the end
+const PREVIEW_LINES = 12;
+// Counting stops here, so a one-letter search over a long session stays quick
+const MAX_MATCHES = 10_000;
+// Within this distance of the bottom, new output keeps the log scrolled down
+const FOLLOW_THRESHOLD = 40;
+
+// Items without an id are never updated in place, so the object itself identifies them
+const anonymousKeys = new WeakMap<OutputEntry, string>();
+let nextAnonymousKey = 0;
+
+const getItemKey = (item: OutputEntry): string => {
+  if (item.id) {
+    return item.id;
+  }
+  let key = anonymousKeys.get(item);
+  if (!key) {
+    key = `#${nextAnonymousKey++}`;
+    anonymousKeys.set(item, key);
+  }
+  return key;
+};
+
+// The text a search looks through: what's shown, without terminal escapes
+const searchTexts = new WeakMap<OutputEntry, string>();
+
+const getSearchText = (item: OutputEntry): string => {
+  let text = searchTexts.get(item);
+  if (text === undefined) {
+    text = item.preformatted ? stripAnsi(item.content) : item.content;
+    searchTexts.set(item, text);
+  }
+  return text;
+};
+
+const countLines = (text: string, limit: number): number => {
+  let lines = 1;
+  for (let i = text.indexOf("\n"); i !== -1 && lines <= limit; i = text.indexOf("\n", i + 1)) {
+    lines++;
+  }
+  return lines;
+};
+
+const isLong = (item: OutputEntry): boolean =>
+  item.type === "response" && (item.content.length > COLLAPSE_CHARS || countLines(item.content, COLLAPSE_LINES) > COLLAPSE_LINES);
+
+const CommandOutput: React.FC<CommandOutputProps> = ({
+  output,
+  onRunSuggestions,
+  onUpdateSuggestion,
+  onInsertCode,
+  onRunCode,
+  sendTargets = [],
+  onSendTo,
+  isProcessing = false
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [types, setTypes] = useState<OutputType[]>(ALL_TYPES);
+  const [query, setQuery] = useState("");
+  // Index into `matches`; null follows the newest match
+  const [activeMatch, setActiveMatch] = useState<number | null>(null);
+  // Long responses the user opened
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const followRef = useRef(true);
+  // A match to mark once its row has rendered
+  const pendingFocusRef = useRef<{ key: string; occurrence: number } | null>(null);
+  const [, setFocusRequest] = useState(0);
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
+
+  const visible = useMemo(
+    () => types.length === ALL_TYPES.length ? output : output.filter(item => types.includes(item.type)),
+    [output, types]
+  );
+  const keys = useMemo(() => visible.map(getItemKey), [visible]);
+
+  const typeCounts = useMemo(() => {
+    const counts: Record<OutputType, number> = { command: 0, response: 0, error: 0, info: 0 };
+    output.forEach(item => counts[item.type]++);
+    return counts;
+  }, [output]);
+
+  const matches = useMemo(() => {
+    const pattern = searchPattern(query);
+    const found: { index: number; occurrence: number }[] = [];
+    if (!pattern) {
+      return found;
+    }
+    for (let index = 0; index < visible.length && found.length < MAX_MATCHES; index++) {
+      const count = getSearchText(visible[index]).match(pattern)?.length ?? 0;
+      for (let occurrence = 0; occurrence < count && found.length < MAX_MATCHES; occurrence++) {
+        found.push({ index, occurrence });
       }
-    );
+    }
+    return found;
+  }, [visible, query]);
+
+  const currentMatch = matches.length > 0 ? Math.min(activeMatch ?? matches.length - 1, matches.length - 1) : -1;
+  const focused = currentMatch >= 0 ? matches[currentMatch] : null;
+  const focusedKey = focused ? keys[focused.index] : null;
+  const focusedOccurrence = focused?.occurrence;
+  // The match as of the latest render, read by the effect below without re-running it
+  const focusedRef = useRef({ focused, visible });
+
+  const { items, totalSize, measureRow, scrollToIndex } = useVirtualList(scrollRef, { keys, estimateSize: 48 });
 
-    return formattedContent;
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    const atBottom = element.scrollHeight - element.scrollTop - element.clientHeight < FOLLOW_THRESHOLD;
+    followRef.current = atBottom;
+    setIsAtBottom(atBottom);
   };
 
-  // Auto-scroll to bottom on new output
-  React.useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  const scrollToBottom = () => {
+    const element = scrollRef.current;
+    if (element) {
+      element.scrollTop = element.scrollHeight;
     }
-  }, [output]);
+  };
 
-  return (
-    <ScrollArea className="flex-1 p-4 bg-card rounded-lg border border-border">
-      <div ref={scrollRef} className="space-y-3 min-h-[300px]">
-        {output.map((item, index) => (
-          <div key={index} className="terminal-line">
-            {item.type === "command" && (
-              <div className="flex items-start">
-                <span className="terminal-prompt font-semibold text-green-400 mr-2">
-                  $
-                </span>
-                <span className="text-foreground font-semibold">{item.content}</span>
-              </div>
-            )}
+  // Keep showing the newest output unless the user scrolled up
+  useLayoutEffect(() => {
+    if (followRef.current) {
+      scrollToBottom();
+    }
+  }, [totalSize, visible]);
 
-            {item.type === "response" && (
-              <div 
-                className="pl-5 text-muted-foreground terminal-text whitespace-pre-wrap" 
-                dangerouslySetInnerHTML={{ 
-                  __html: formatOutput(item.content) 
-                }}
-              />
-            )}
+  useLayoutEffect(() => {
+    focusedRef.current = { focused, visible };
+  });
 
-            {item.type === "error" && (
-              <div className="pl-5 text-destructive terminal-text whitespace-pre-wrap">
-                {item.content}
-              </div>
-            )}
+  // Bring the current search match into view, opening its response if collapsed.
+  // Only a different match should move the view, not new output, so the match
+  // itself is read from the ref rather than being a dependency.
+  useEffect(() => {
+    const { focused: match, visible: rows } = focusedRef.current;
+    if (!match || focusedKey === null) {
+      return;
+    }
+    followRef.current = false;
+    setExpanded(prev => prev.has(focusedKey) || !isLong(rows[match.index]) ? prev : new Set(prev).add(focusedKey));
+    pendingFocusRef.current = { key: focusedKey, occurrence: focusedOccurrence };
+    scrollToIndex(match.index, "center");
+    // Render again even if nothing scrolled, so the match gets marked
+    setFocusRequest(request => request + 1);
+  }, [focusedKey, focusedOccurrence, query, scrollToIndex]);
 
-            {item.type === "info" && (
-              <div className="pl-2 text-accent italic terminal-text">
-                {item.content}
-              </div>
+  // The matched row may only render after the scroll above; mark the match once it has
+  useLayoutEffect(() => {
+    const pending = pendingFocusRef.current;
+    const row = pending && scrollRef.current?.querySelector(`[data-key="${CSS.escape(pending.key)}"]`);
+    if (!row) {
+      return;
+    }
+    pendingFocusRef.current = null;
+    scrollRef.current.querySelectorAll("mark[data-active]").forEach(mark => mark.removeAttribute("data-active"));
+    const marks = row.querySelectorAll("mark.search-match");
+    const mark = marks[Math.min(pending.occurrence, marks.length - 1)];
+    if (mark) {
+      mark.setAttribute("data-active", "");
+      mark.scrollIntoView({ block: "center" });
+    }
+  });
+
+  // Jump to the AI response a command was suggested by
+  useEffect(() => {
+    if (!jumpTarget) {
+      return;
+    }
+    const index = visible.findIndex(item => item.id === jumpTarget);
+    if (index !== -1) {
+      followRef.current = false;
+      scrollToIndex(index, "center");
+    }
+    setJumpTarget(null);
+  }, [jumpTarget, visible, scrollToIndex]);
+
+  const scrollToItem = (id: string) => {
+    setTypes(prev => prev.includes("response") ? prev : [...prev, "response"]);
+    setJumpTarget(id);
+  };
+
+  const moveMatch = (step: number) => {
+    if (matches.length > 0) {
+      setActiveMatch((currentMatch + step + matches.length) % matches.length);
+    }
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const highlight = query || undefined;
+  const toggleClass = "flex items-center text-xs text-muted-foreground hover:text-accent";
+
+  const renderResponse = (item: OutputEntry, key: string, collapsed: boolean) => {
+    if (item.preformatted) {
+      // Terminal output keeps its end in view, where a running command's progress is
+      const lines = collapsed ? item.content.split("\n") : null;
+      return (
+        <>
+          {collapsed && (
+            <button type="button" onClick={() => toggleExpanded(key)} className={cn(toggleClass, "pl-5 mb-1")}>
+              <ChevronUp className="h-3 w-3 mr-1" />
+              Show {lines.length - PREVIEW_LINES} earlier lines
+            </button>
+          )}
+          <div className="pl-5 text-muted-foreground terminal-text whitespace-pre-wrap">
+            <AnsiText text={collapsed ? lines.slice(-PREVIEW_LINES).join("\n") : item.content} highlight={highlight} />
+          </div>
+        </>
+      );
+    }
+
+    return (
+      <div className={cn(collapsed && "relative max-h-80 overflow-hidden")}>
+        <Markdown
+          content={item.content}
+          className="pl-5 text-muted-foreground terminal-text"
+          highlight={highlight}
+          codeActions={{
+            onInsert: onInsertCode,
+            onRun: onRunCode && ((code, language) => onRunCode(code, language, item.id)),
+            runDisabled: isProcessing
+          }}
+        />
+        {collapsed && <div className="absolute inset-x-0 bottom-0 h-12 bg-gradient-to-t from-card to-transparent" />}
+      </div>
+    );
+  };
+
+  const renderItem = (item: OutputEntry, key: string, isLast: boolean) => {
+    // A response still streaming in isn't collapsed under the reader
+    const long = isLong(item) && !(isLast && isProcessing && !item.preformatted);
+    const collapsed = long && !expanded.has(key);
+    const canSend = onSendTo && sendTargets.length > 0 && (item.type === "response" || item.type === "error") && item.content;
+
+    return (
+      <div className={cn("terminal-line group relative rounded", key === focusedKey && "ring-1 ring-accent/40")}>
+        {canSend && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute right-0 top-0 z-10 h-6 px-1.5 text-xs text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                title="Send to another tab"
+              >
+                <Forward className="h-3.5 w-3.5 mr-1" />
+                Send to
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs">Add as context in</DropdownMenuLabel>
+              {sendTargets.map(target => (
+                <DropdownMenuItem key={target.tab} onSelect={() => onSendTo(target.tab, item)}>
+                  {target.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {item.type === "command" && (
+          <div className="flex items-start">
+            <span className="terminal-prompt font-semibold text-green-400 mr-2">
+              $
+            </span>
+            <span className="text-foreground font-semibold">
+              <HighlightedText text={item.content} query={highlight} />
+            </span>
+            {item.sourceId && (
+              <button
+                type="button"
+                onClick={() => scrollToItem(item.sourceId)}
+                className="ml-2 mt-0.5 flex items-center text-xs text-muted-foreground hover:text-accent"
+                title="Show the AI response that suggested this command"
+              >
+                <CornerDownRight className="h-3 w-3 mr-1" />
+                suggested by AI
+              </button>
             )}
           </div>
-        ))}
+        )}
+
+        {item.type === "response" && renderResponse(item, key, collapsed)}
+
+        {long && !(collapsed && item.preformatted) && (
+          <button type="button" onClick={() => toggleExpanded(key)} className={cn(toggleClass, "pl-5 mt-1")}>
+            {collapsed ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronUp className="h-3 w-3 mr-1" />}
+            {collapsed ? "Show more" : "Show less"}
+          </button>
+        )}
 
-        {output.length === 0 && (
-          <div className="h-full flex items-center justify-center text-muted-foreground">
-            <p className="italic">Enter a command to get started</p>
+        {item.type === "response" && item.interrupted && (
+          <div className="pl-5 text-xs text-yellow-400 italic">
+            [interrupted]
           </div>
         )}
+
+        {item.id && item.suggestions?.length > 0 && onRunSuggestions && onUpdateSuggestion && (
+          <SuggestedCommands
+            suggestions={item.suggestions}
+            onRun={(suggestions) => onRunSuggestions(item.id, suggestions)}
+            onUpdate={(suggestionId, changes) => onUpdateSuggestion(item.id, suggestionId, changes)}
+            disabled={isProcessing}
+          />
+        )}
+
+        {item.type === "error" && (
+          <div className="pl-5 text-destructive terminal-text whitespace-pre-wrap">
+            <HighlightedText text={item.content} query={highlight} />
+          </div>
+        )}
+
+        {item.type === "info" && (
+          <div className="pl-2 text-accent italic terminal-text">
+            <HighlightedText text={item.content} query={highlight} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col bg-card rounded-lg border border-border">
+      <div className="flex flex-wrap items-center gap-2 border-b border-border p-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveMatch(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                moveMatch(e.shiftKey ? -1 : 1);
+              } else if (e.key === "Escape" && query) {
+                e.stopPropagation();
+                setQuery("");
+              }
+            }}
+            placeholder="Search output"
+            aria-label="Search output"
+            className="h-8 pl-7 pr-20 text-xs"
+          />
+          {query && (
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+              {matches.length > 0
+                ? `${currentMatch + 1}/${matches.length}${matches.length >= MAX_MATCHES ? "+" : ""}`
+                : "No matches"}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center">
+          <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => moveMatch(-1)} disabled={matches.length === 0} title="Previous match (Shift+Enter)">
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => moveMatch(1)} disabled={matches.length === 0} title="Next match (Enter)">
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => setQuery("")} disabled={!query} title="Clear search">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          value={types}
+          onValueChange={(value: OutputType[]) => setTypes(value.length > 0 ? value : ALL_TYPES)}
+          aria-label="Show output types"
+        >
+          {OUTPUT_TYPES.map(({ type, label }) => (
+            <ToggleGroupItem key={type} value={type} className="h-8 px-2 text-xs">
+              {label}
+              <span className="ml-1 text-muted-foreground">{typeCounts[type]}</span>
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="relative">
+        <div
+          ref={scrollRef}
+          onScroll={handleScroll}
+          className="h-[60vh] min-h-[300px] overflow-y-auto p-4 [overflow-anchor:none]"
+        >
+          <div className="relative" style={{ height: totalSize }}>
+            {items.map(({ index, key, start }) => (
+              <div
+                key={key}
+                data-key={key}
+                ref={measureRow}
+                className="absolute inset-x-0 top-0 pb-3"
+                style={{ transform: `translateY(${start}px)` }}
+              >
+                {renderItem(visible[index], key, index === visible.length - 1)}
+              </div>
+            ))}
+          </div>
+
+          {visible.length === 0 && (
+            <div className="h-full flex items-center justify-center text-muted-foreground">
+              <p className="italic">
+                {output.length === 0 ? "Enter a command to get started" : "No output of the selected types"}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {!isAtBottom && (
+          <Button
+            variant="secondary"
+            size="sm"
+            className="absolute bottom-3 right-5 h-7 text-xs shadow"
+            onClick={() => {
+              followRef.current = true;
+              scrollToBottom();
+            }}
+          >
+            <ArrowDownToLine className="h-3.5 w-3.5 mr-1" />
+            Latest
+          </Button>
+        )}
       </div>
-    </ScrollArea>
+    </div>
   );
 };
 
@@ -0,0 +1,235 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut
+} from "@/components/ui/command";
+import { ChevronRight, Keyboard, Loader2, RotateCcw, type LucideIcon } from "lucide-react";
+import keybindingService from "@/services/keybindingService";
+import { eventToKeybinding, formatKeybinding } from "@/utils/keybindings";
+
+export interface PaletteAction {
+  // Also identifies the action's keyboard shortcut
+  id: string;
+  label: string;
+  group: string;
+  icon?: LucideIcon;
+  keywords?: string[];
+  disabled?: boolean;
+  // Actions either run directly or open a list of further actions
+  run?: () => void;
+  children?: () => PaletteAction[] | Promise<PaletteAction[]>;
+}
+
+interface PalettePage {
+  title: string;
+  actions: PaletteAction[];
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  actions: PaletteAction[];
+  // Open straight into this action's list, e.g. when its shortcut was pressed
+  initialActionId?: string | null;
+}
+
+const SHORTCUTS_PAGE = "Keyboard shortcuts";
+
+const groupActions = (actions: PaletteAction[]): [string, PaletteAction[]][] => {
+  const groups = new Map<string, PaletteAction[]>();
+  actions.forEach(action => groups.set(action.group, [...(groups.get(action.group) ?? []), action]));
+  return [...groups.entries()];
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onOpenChange, actions, initialActionId }) => {
+  // Sub-lists opened from the root, innermost last
+  const [pages, setPages] = useState<PalettePage[]>([]);
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  // Action whose shortcut is being recorded
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [, setRevision] = useState(0);
+  // Read when opening, without reopening every time the caller re-renders its actions
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  useEffect(() => {
+    return keybindingService.onChange(() => setRevision(revision => revision + 1));
+  }, []);
+
+  const openChildren = async (action: PaletteAction) => {
+    setIsLoading(true);
+    try {
+      const children = await action.children();
+      setPages(prev => [...prev, { title: action.label, actions: children }]);
+      setSearch("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Start from the top each time, or from the requested action's list
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setPages([]);
+    setSearch("");
+    setRecordingId(null);
+    const initial = initialActionId && actionsRef.current.find(action => action.id === initialActionId);
+    if (initial?.children) {
+      openChildren(initial);
+    }
+  }, [open, initialActionId]);
+
+  // While recording, the next key press becomes the shortcut. Listening in the
+  // capture phase keeps it from reaching the palette and the page's own shortcuts.
+  useEffect(() => {
+    if (!recordingId) {
+      return;
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      if (event.key === "Escape") {
+        setRecordingId(null);
+        return;
+      }
+      if (event.key === "Backspace" || event.key === "Delete") {
+        keybindingService.setBinding(recordingId, null);
+        setRecordingId(null);
+        return;
+      }
+      const binding = eventToKeybinding(event);
+      if (binding) {
+        keybindingService.setBinding(recordingId, binding);
+        setRecordingId(null);
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [recordingId]);
+
+  const handleSelect = (action: PaletteAction) => {
+    if (action.children) {
+      openChildren(action);
+      return;
+    }
+    onOpenChange(false);
+    action.run?.();
+  };
+
+  const page = pages[pages.length - 1];
+  const isShortcutsPage = page?.title === SHORTCUTS_PAGE;
+
+  const renderShortcut = (actionId: string) => {
+    const binding = keybindingService.getBinding(actionId);
+    return binding && <CommandShortcut>{formatKeybinding(binding)}</CommandShortcut>;
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput
+        placeholder={page ? `${page.title}…` : "Type a command or search…"}
+        value={search}
+        onValueChange={setSearch}
+        onKeyDown={(e) => {
+          // Backspace in an empty search goes back a level
+          if (e.key === "Backspace" && !search && pages.length > 0) {
+            e.preventDefault();
+            setPages(prev => prev.slice(0, -1));
+          }
+        }}
+      />
+      <CommandList>
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading…
+          </div>
+        ) : (
+          <CommandEmpty>No matching commands.</CommandEmpty>
+        )}
+
+        {!page && groupActions(actions).map(([group, items]) => (
+          <CommandGroup key={group} heading={group}>
+            {items.map(action => (
+              <CommandItem
+                key={action.id}
+                value={`${action.group} ${action.label}`}
+                keywords={action.keywords}
+                disabled={action.disabled}
+                onSelect={() => handleSelect(action)}
+              >
+                {action.icon && <action.icon className="mr-2 h-4 w-4" />}
+                {action.label}
+                {renderShortcut(action.id)}
+                {action.children && !keybindingService.getBinding(action.id) && <ChevronRight className="ml-auto h-4 w-4 opacity-50" />}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+
+        {!page && (
+          <CommandGroup heading="Settings">
+            <CommandItem
+              value="Settings keyboard shortcuts keybindings"
+              onSelect={() => setPages([{ title: SHORTCUTS_PAGE, actions }])}
+            >
+              <Keyboard className="mr-2 h-4 w-4" />
+              Keyboard shortcuts
+              <ChevronRight className="ml-auto h-4 w-4 opacity-50" />
+            </CommandItem>
+          </CommandGroup>
+        )}
+
+        {page && !isShortcutsPage && !isLoading && (
+          <CommandGroup heading={page.title}>
+            {page.actions.map(action => (
+              <CommandItem
+                key={action.id}
+                value={`${action.label} ${action.id}`}
+                keywords={action.keywords}
+                disabled={action.disabled}
+                onSelect={() => handleSelect(action)}
+              >
+                {action.icon && <action.icon className="mr-2 h-4 w-4" />}
+                {action.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {isShortcutsPage && (
+          <CommandGroup heading="Select an action, then press its new shortcut. Backspace removes it, Esc cancels.">
+            {[{ id: "palette.open", label: "Open command palette" } as PaletteAction, ...actions].map(action => (
+              <CommandItem
+                key={action.id}
+                value={`${action.label} ${action.id}`}
+                onSelect={() => setRecordingId(action.id)}
+              >
+                {action.label}
+                {recordingId === action.id
+                  ? <CommandShortcut className="text-accent">Press keys…</CommandShortcut>
+                  : renderShortcut(action.id)}
+              </CommandItem>
+            ))}
+            <CommandItem value="Reset all shortcuts to defaults" onSelect={() => keybindingService.resetBindings()}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset all shortcuts to defaults
+            </CommandItem>
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
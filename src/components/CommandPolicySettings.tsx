@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronRight, ShieldCheck, Trash2, RotateCcw } from "lucide-react";
+import RiskBadges from "./RiskBadges";
+import commandPolicyService, { AuditOutcome, CommandSource } from "@/services/commandPolicyService";
+import { RISK_CLASSES, RISK_CLASS_LABELS, RiskClass } from "@/utils/commandSafety";
+
+const SOURCE_LABELS: Record<CommandSource, string> = {
+  user: "Typed",
+  ai: "AI-suggested"
+};
+
+const OUTCOME_STYLES: Record<AuditOutcome, string> = {
+  allowed: "text-green-400",
+  confirmed: "text-yellow-400",
+  rejected: "text-muted-foreground",
+  denied: "text-destructive"
+};
+
+// How many recent decisions to show; the full log is kept in storage
+const VISIBLE_AUDIT_ENTRIES = 50;
+
+const parsePatterns = (text: string): string[] => {
+  return text.split("\n").map(line => line.trim()).filter(Boolean);
+};
+
+const CommandPolicySettings: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [policy, setPolicy] = useState(() => commandPolicyService.getPolicy());
+  const [auditLog, setAuditLog] = useState(() => commandPolicyService.getAuditLog());
+  // Lists are edited as text and saved when the field loses focus
+  const [allowlistText, setAllowlistText] = useState(() => policy.allowlist.join("\n"));
+  const [denylistText, setDenylistText] = useState(() => policy.denylist.join("\n"));
+
+  useEffect(() => {
+    return commandPolicyService.onChange(() => {
+      setPolicy(commandPolicyService.getPolicy());
+      setAuditLog(commandPolicyService.getAuditLog());
+    });
+  }, []);
+
+  const toggleConfirmation = (source: CommandSource, riskClass: RiskClass, checked: boolean) => {
+    const current = policy.confirmClasses[source];
+    commandPolicyService.setPolicy({
+      confirmClasses: {
+        ...policy.confirmClasses,
+        [source]: checked ? [...current, riskClass] : current.filter(existing => existing !== riskClass)
+      }
+    });
+  };
+
+  const handleReset = () => {
+    commandPolicyService.resetPolicy();
+    const reset = commandPolicyService.getPolicy();
+    setAllowlistText(reset.allowlist.join("\n"));
+    setDenylistText(reset.denylist.join("\n"));
+  };
+
+  const recentEntries = auditLog.slice(-VISIBLE_AUDIT_ENTRIES).reverse();
+
+  return (
+    <div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        className="h-7 px-1 text-xs"
+      >
+        <ChevronRight className={`h-3 w-3 mr-1 transition-transform ${isOpen ? "rotate-90" : ""}`} />
+        <ShieldCheck className="h-3 w-3 mr-1" />
+        Command Safety
+      </Button>
+
+      {isOpen && (
+        <Card className="mt-2 border border-border">
+          <CardContent className="pt-4 space-y-4">
+            <div className="space-y-2">
+              <Label className="text-xs">Require confirmation for</Label>
+              <div className="grid grid-cols-[auto_1fr_1fr] gap-x-4 gap-y-1 items-center text-xs">
+                <span></span>
+                {(Object.keys(SOURCE_LABELS) as CommandSource[]).map(source => (
+                  <span key={source} className="text-muted-foreground">{SOURCE_LABELS[source]}</span>
+                ))}
+                {RISK_CLASSES.map(riskClass => (
+                  <React.Fragment key={riskClass}>
+                    <span>{RISK_CLASS_LABELS[riskClass]}</span>
+                    {(Object.keys(SOURCE_LABELS) as CommandSource[]).map(source => (
+                      <Checkbox
+                        key={source}
+                        checked={policy.confirmClasses[source].includes(riskClass)}
+                        onCheckedChange={(checked) => toggleConfirmation(source, riskClass, checked === true)}
+                        aria-label={`Confirm ${RISK_CLASS_LABELS[riskClass].toLowerCase()} ${SOURCE_LABELS[source].toLowerCase()} commands`}
+                      />
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="policy-allowlist" className="text-xs">Allowlist (skip confirmation)</Label>
+                <Textarea
+                  id="policy-allowlist"
+                  placeholder={"git status\nnpm run *"}
+                  value={allowlistText}
+                  onChange={(e) => setAllowlistText(e.target.value)}
+                  onBlur={() => commandPolicyService.setPolicy({ allowlist: parsePatterns(allowlistText) })}
+                  className="text-xs font-mono min-h-[90px]"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="policy-denylist" className="text-xs">Denylist (always block)</Label>
+                <Textarea
+                  id="policy-denylist"
+                  value={denylistText}
+                  onChange={(e) => setDenylistText(e.target.value)}
+                  onBlur={() => commandPolicyService.setPolicy({ denylist: parsePatterns(denylistText) })}
+                  className="text-xs font-mono min-h-[90px]"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              One pattern per line: a command prefix where * matches anything, or a /regular expression/.
+              Every part of a chained command must be allowlisted to skip confirmation.
+              Destructive and privileged parts, and parts that write to a file, are still checked.
+            </p>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Decision log</Label>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={handleReset} className="h-6 text-xs">
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Reset policy
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => commandPolicyService.clearAuditLog()}
+                    disabled={auditLog.length === 0}
+                    className="h-6 text-xs"
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Clear log
+                  </Button>
+                </div>
+              </div>
+              <div className="max-h-48 overflow-y-auto rounded-md border border-border divide-y divide-border">
+                {recentEntries.length === 0 && (
+                  <p className="p-2 text-xs text-muted-foreground italic">No commands evaluated yet.</p>
+                )}
+                {recentEntries.map((entry, index) => (
+                  <div key={index} className="p-2 text-xs space-y-1" title={entry.explanation}>
+                    <div className="flex items-center gap-2">
+                      <span className={`font-semibold capitalize ${OUTCOME_STYLES[entry.outcome]}`}>{entry.outcome}</span>
+                      <span className="text-muted-foreground">{SOURCE_LABELS[entry.source]}</span>
+                      <RiskBadges classes={entry.classes} />
+                      <span className="ml-auto text-muted-foreground">{entry.timestamp.toLocaleString()}</span>
+                    </div>
+                    <code className="block font-mono truncate">{entry.command}</code>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CommandPolicySettings;
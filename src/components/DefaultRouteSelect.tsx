@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import commandRegistry, { AUTO_ROUTE } from "@/services/commandRegistry";
+
+// Where input without a slash command goes
+const DefaultRouteSelect: React.FC<{ disabled?: boolean }> = ({ disabled }) => {
+  const [defaultCommand, setDefaultCommand] = useState(() => commandRegistry.getDefaultCommand());
+  const [candidates, setCandidates] = useState(() => commandRegistry.getDefaultCandidates());
+
+  useEffect(() => {
+    return commandRegistry.onChange(() => {
+      setDefaultCommand(commandRegistry.getDefaultCommand());
+      setCandidates(commandRegistry.getDefaultCandidates());
+    });
+  }, []);
+
+  return (
+    <Select value={defaultCommand} onValueChange={(value) => commandRegistry.setDefaultCommand(value)} disabled={disabled}>
+      <SelectTrigger className="w-24 h-9 text-xs" title="Where input without a /command goes" aria-label="Default for input without a command">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={AUTO_ROUTE} className="text-xs">Auto</SelectItem>
+        {candidates.map(command => (
+          <SelectItem key={command.name} value={command.name} className="text-xs" title={command.description}>
+            /{command.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default DefaultRouteSelect;
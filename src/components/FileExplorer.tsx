@@ -6,13 +6,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { Folder, FileText, ChevronRight, RefreshCw, Code, Zap, FolderInput } from "lucide-react";
-import ollamaService from "@/services/ollamaService";
+import ollamaService, { isAbortError } from "@/services/ollamaService";
 import { detectOS } from "@/utils/platformUtils";
 
 interface FileExplorerProps {
   onAnalyze: (result: string) => void;
   isProcessing: boolean;
   setIsProcessing: (isProcessing: boolean) => void;
+  createSignal?: () => AbortSignal;
 }
 
 interface FileItem {
@@ -23,7 +24,7 @@ interface FileItem {
   children?: FileItem[];
 }
 
-const FileExplorer: React.FC<FileExplorerProps> = ({ onAnalyze, isProcessing, setIsProcessing }) => {
+const FileExplorer: React.FC<FileExplorerProps> = ({ onAnalyze, isProcessing, setIsProcessing, createSignal }) => {
   const [currentPath, setCurrentPath] = useState("");
   const [fileStructure, setFileStructure] = useState<FileItem[]>([]);
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
@@ -172,11 +173,16 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ onAnalyze, isProcessing, se
     
     try {
       // This would make an actual API call in a real implementation
-      const analysisResult = await ollamaService.analyzeFilesOrFolders(selectedFiles);
+      const analysisResult = await ollamaService.analyzeFilesOrFolders(selectedFiles, {}, createSignal?.());
       
       onAnalyze(`Analysis of selected files:\n\n${analysisResult}`);
       toast.success("Files analyzed successfully");
     } catch (error) {
+      if (isAbortError(error)) {
+        toast.info("Analysis stopped");
+        return;
+      }
+
       toast.error(`Error analyzing files: ${error}`);
       console.error(error);
     } finally {
@@ -0,0 +1,27 @@
+import React from "react";
+import { searchPattern } from "@/lib/utils";
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+}
+
+// Wraps every case-insensitive occurrence of the query in a <mark>
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+  const pattern = query ? searchPattern(query) : null;
+  if (!pattern) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let start = 0;
+  for (const match of text.matchAll(pattern)) {
+    parts.push(text.slice(start, match.index));
+    parts.push(<mark key={match.index} className="search-match">{match[0]}</mark>);
+    start = match.index + match[0].length;
+  }
+  parts.push(text.slice(start));
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
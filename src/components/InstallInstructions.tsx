@@ -10,6 +10,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { detectOS, getOllamaInstallInstructions } from "@/utils/platformUtils";
+import { useActiveModel } from "@/hooks/use-active-model";
 
 interface InstallInstructionsProps {
   isOpen: boolean;
@@ -21,7 +22,8 @@ const InstallInstructions: React.FC<InstallInstructionsProps> = ({
   onClose
 }) => {
   const os = detectOS();
-  const instructions = getOllamaInstallInstructions()[os];
+  const model = useActiveModel();
+  const instructions = getOllamaInstallInstructions(model)[os];
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+import { renderToStaticMarkup } from "react-dom/server";
+import Markdown from "./Markdown";
+
+// The save dialog talks to the bridge and isn't part of what's rendered here
+vi.mock("./SaveCodeDialog", () => ({ default: () => null }));
+
+const render = (content: string) => renderToStaticMarkup(<Markdown content={content} />);
+
+// The elements in rendered markup with their attributes; text is escaped, so every "<" starts a real tag
+const elements = (html: string) => Array.from(html.matchAll(/<([a-z][\w-]*)([^>]*)>/gi), ([, name, attributes]) => ({
+  name: name.toLowerCase(),
+  attributes: Array.from(attributes.matchAll(/([^\s=]+)="([^"]*)"/g), ([, attribute, value]) => [attribute.toLowerCase(), value]),
+}));
+
+const PAYLOADS = [
+  "<script>alert(1)</script>",
+  "<img src=x onerror=alert(1)>",
+  "<svg/onload=alert(1)>",
+  "<iframe src=\"javascript:alert(1)\"></iframe>",
+  "<a href=\"javascript:alert(1)\">click</a>",
+  "[click](javascript:alert(1))",
+  "[click](JAVASCRIPT:alert(1))",
+  "[click](<javascript:alert(1)>)",
+  "[click](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)",
+  "[click](vbscript:msgbox(1))",
+  "[x](https://example.com/\"onmouseover=\"alert(1))",
+  "**<b onclick=alert(1)>bold</b>**",
+  "| <img src=x onerror=alert(1)> |\n| --- |\n| [a](javascript:alert(1)) |",
+  "> <script>alert(1)</script>",
+  "- <details open ontoggle=alert(1)>",
+  "```\"><script>alert(1)</script>\n<script>alert(1)</script>\n```",
+  "`<script>alert(1)</script>`",
+  "# <style>body{display:none}</style>",
+];
+
+describe("Markdown", () => {
+  it.each(PAYLOADS)("renders %j without markup from the response", (payload) => {
+    const tags = elements(render(payload));
+    expect(tags.map(tag => tag.name).filter(name => ["script", "img", "iframe", "style", "details", "b"].includes(name))).toEqual([]);
+    expect(tags.flatMap(tag => tag.attributes).filter(([name, value]) =>
+      name.startsWith("on") || ((name === "href" || name === "src") && !/^(https?|mailto):/.test(value)))).toEqual([]);
+  });
+
+  it("shows raw HTML as text", () => {
+    expect(render("<b>hi</b>")).toContain("&lt;b&gt;hi&lt;/b&gt;");
+  });
+
+  it("renders safe links with a safe rel", () => {
+    const html = render("[Ollama](https://ollama.com)");
+    expect(html).toContain("href=\"https://ollama.com/\"");
+    expect(html).toContain("rel=\"noopener noreferrer nofollow\"");
+  });
+});
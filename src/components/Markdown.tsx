@@ -0,0 +1,137 @@
+import React, { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { parseMarkdown, type Block, type Inline } from "@/utils/markdown";
+import CodeBlock, { type CodeBlockActions } from "./CodeBlock";
+import HighlightedText from "./HighlightedText";
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+  codeActions?: CodeBlockActions;
+  // Search text to mark wherever it appears
+  highlight?: string;
+}
+
+interface RenderOptions {
+  codeActions?: CodeBlockActions;
+  highlight?: string;
+}
+
+const HEADING_CLASSES = [
+  "text-lg font-bold",
+  "text-base font-bold",
+  "text-base font-semibold",
+  "font-semibold",
+  "font-semibold",
+  "font-semibold text-muted-foreground"
+];
+
+const renderInline = (nodes: Inline[], highlight: string | undefined): React.ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case "text":
+      return <HighlightedText key={index} text={node.text} query={highlight} />;
+    case "code":
+      return <code key={index} className="rounded bg-code-bg px-1 py-0.5 text-foreground"><HighlightedText text={node.text} query={highlight} /></code>;
+    case "strong":
+      return <strong key={index} className="text-foreground">{renderInline(node.children, highlight)}</strong>;
+    case "em":
+      return <em key={index}>{renderInline(node.children, highlight)}</em>;
+    case "del":
+      return <del key={index}>{renderInline(node.children, highlight)}</del>;
+    case "link":
+      return (
+        <a
+          key={index}
+          href={node.href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="text-accent underline underline-offset-2 hover:opacity-80"
+        >
+          {renderInline(node.children, highlight)}
+        </a>
+      );
+    case "break":
+      return <br key={index} />;
+  }
+});
+
+const renderBlocks = (blocks: Block[], options: RenderOptions): React.ReactNode[] =>
+  blocks.map((block, index) => renderBlock(block, index, options));
+
+const renderBlock = (block: Block, index: number, options: RenderOptions): React.ReactNode => {
+  switch (block.type) {
+    case "heading": {
+      const Heading = `h${block.level}` as "h1";
+      return (
+        <Heading key={index} className={cn("text-foreground", HEADING_CLASSES[block.level - 1])}>
+          {renderInline(block.children, options.highlight)}
+        </Heading>
+      );
+    }
+    case "paragraph":
+      return <p key={index}>{renderInline(block.children, options.highlight)}</p>;
+    case "code":
+      return <CodeBlock key={index} language={block.language} content={block.content} actions={options.codeActions} highlight={options.highlight} />;
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List
+          key={index}
+          start={block.ordered && block.start !== 1 ? block.start : undefined}
+          className={cn("space-y-1 pl-6", block.ordered ? "list-decimal" : "list-disc")}
+        >
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex} className="space-y-2">{renderBlocks(item, options)}</li>
+          ))}
+        </List>
+      );
+    }
+    case "blockquote":
+      return (
+        <blockquote key={index} className="space-y-2 border-l-2 border-border pl-3 italic">
+          {renderBlocks(block.children, options)}
+        </blockquote>
+      );
+    case "table":
+      return (
+        <div key={index} className="overflow-x-auto">
+          <table className="border-collapse text-left">
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th
+                    key={column}
+                    style={{ textAlign: block.align[column] }}
+                    className="border border-border px-2 py-1 font-semibold text-foreground"
+                  >
+                    {renderInline(cell, options.highlight)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td key={column} style={{ textAlign: block.align[column] }} className="border border-border px-2 py-1">
+                      {renderInline(cell, options.highlight)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case "rule":
+      return <hr key={index} className="border-border" />;
+  }
+};
+
+// Renders markdown as React elements; nothing in the text is ever treated as HTML
+const Markdown: React.FC<MarkdownProps> = ({ content, className, codeActions, highlight }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className={cn("space-y-2", className)}>{renderBlocks(blocks, { codeActions, highlight })}</div>;
+};
+
+export default Markdown;
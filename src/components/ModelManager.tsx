@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Box, Copy, Eye, RefreshCw, Trash2, Cpu, CheckCircle2 } from "lucide-react";
+import ollamaService, { ModelDetails, ModelInfo, RunningModel } from "@/services/ollamaService";
+import { useActiveModel } from "@/hooks/use-active-model";
+import { formatBytes } from "@/lib/utils";
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const ModelManager: React.FC = () => {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [running, setRunning] = useState<RunningModel[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [shown, setShown] = useState<{ name: string; details: ModelDetails } | null>(null);
+  const [copySource, setCopySource] = useState<string | null>(null);
+  const [copyDestination, setCopyDestination] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const activeModel = useActiveModel();
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      const [installed, loaded] = await Promise.all([
+        ollamaService.listModels(),
+        ollamaService.listRunningModels()
+      ]);
+      setModels(installed);
+      setRunning(loaded);
+    } catch (error) {
+      console.error("Error loading models:", error);
+      toast.error(`Could not load models: ${errorMessage(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    return ollamaService.onModelListChange(refresh);
+  }, []);
+
+  const handleShow = async (name: string) => {
+    try {
+      setShown({ name, details: await ollamaService.showModel(name) });
+    } catch (error) {
+      toast.error(errorMessage(error));
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!copySource || !copyDestination.trim()) {
+      return;
+    }
+
+    try {
+      await ollamaService.copyModel(copySource, copyDestination.trim());
+      toast.success(`Copied ${copySource} to ${copyDestination.trim()}`);
+      setCopySource(null);
+      setCopyDestination("");
+    } catch (error) {
+      toast.error(errorMessage(error));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) {
+      return;
+    }
+
+    try {
+      await ollamaService.deleteModel(deleteTarget);
+      toast.success(`Deleted ${deleteTarget}`);
+    } catch (error) {
+      toast.error(errorMessage(error));
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 max-w-4xl space-y-6">
+      <Card className="bg-card border-border">
+        <CardHeader className="pb-4 border-b border-border">
+          <div className="flex justify-between items-center">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Box className="h-5 w-5 text-accent" />
+              Installed Models
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={refresh} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-4">
+          {models.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic">
+              {isLoading ? "Loading models..." : "No models installed."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Family</TableHead>
+                  <TableHead>Quantization</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {models.map((model) => (
+                  <TableRow key={model.name}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-1">
+                        {model.name === activeModel && <CheckCircle2 className="h-4 w-4 text-green-400" />}
+                        {model.name}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatBytes(model.size)}</TableCell>
+                    <TableCell>{[model.family, model.parameterSize].filter(Boolean).join(" ")}</TableCell>
+                    <TableCell>{model.quantization}</TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => ollamaService.setModel(model.name)}
+                        disabled={model.name === activeModel}
+                      >
+                        Use
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Show" onClick={() => handleShow(model.name)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Copy" onClick={() => setCopySource(model.name)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Delete" onClick={() => setDeleteTarget(model.name)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader className="pb-4 border-b border-border">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Cpu className="h-5 w-5 text-accent" />
+            Loaded in Memory
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-4">
+          {running.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic">No models are currently loaded.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>VRAM</TableHead>
+                  <TableHead>Unloads</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {running.map((model) => (
+                  <TableRow key={model.name}>
+                    <TableCell className="font-medium">{model.name}</TableCell>
+                    <TableCell>{formatBytes(model.size)}</TableCell>
+                    <TableCell>
+                      {formatBytes(model.sizeVram)}
+                      {model.size > 0 && (
+                        <span className="text-xs text-muted-foreground ml-1">
+                          ({Math.round((model.sizeVram / model.size) * 100)}% GPU)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(model.expiresAt).toLocaleTimeString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={shown !== null} onOpenChange={(open) => !open && setShown(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{shown?.name}</DialogTitle>
+            <DialogDescription>
+              {[shown?.details.family, shown?.details.parameterSize, shown?.details.quantization].filter(Boolean).join(" · ")}
+            </DialogDescription>
+          </DialogHeader>
+          <Tabs defaultValue="modelfile">
+            <TabsList>
+              <TabsTrigger value="modelfile">Modelfile</TabsTrigger>
+              <TabsTrigger value="parameters">Parameters</TabsTrigger>
+              <TabsTrigger value="template">Template</TabsTrigger>
+            </TabsList>
+            {(["modelfile", "parameters", "template"] as const).map((key) => (
+              <TabsContent key={key} value={key}>
+                <ScrollArea className="h-[300px]">
+                  <pre className="terminal-text whitespace-pre-wrap text-xs p-4 bg-code-bg text-code-text rounded-md">
+                    {shown?.details[key] || "(none)"}
+                  </pre>
+                </ScrollArea>
+              </TabsContent>
+            ))}
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={copySource !== null} onOpenChange={(open) => !open && setCopySource(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Copy {copySource}</DialogTitle>
+            <DialogDescription>
+              Create a copy or alias of this model under a new name.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="copy-destination" className="text-xs">New name</Label>
+            <Input
+              id="copy-destination"
+              placeholder="my-coder:latest"
+              value={copyDestination}
+              onChange={(e) => setCopyDestination(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCopy()}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCopySource(null)}>Cancel</Button>
+            <Button onClick={handleCopy} disabled={!copyDestination.trim()}>Copy</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The model files will be removed from disk. You will need to pull it again to use it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ModelManager;
@@ -6,50 +6,177 @@ import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { checkForNvidiaGPU } from "@/utils/platformUtils";
-import { Settings, Cpu, Monitor, Server, RefreshCw } from "lucide-react";
+import { Settings, Cpu, Monitor, Server, RefreshCw, Box, ChevronRight } from "lucide-react";
 import { toast } from "sonner";
-import ollamaService from "@/services/ollamaService";
+import ollamaService, { ModelInfo } from "@/services/ollamaService";
+import { SamplingOptions } from "@/services/samplingOptions";
+import { useActiveModel } from "@/hooks/use-active-model";
+import { formatBytes } from "@/lib/utils";
+import { parseParameterLines } from "@/utils/modelfileUtils";
+import AdvancedSamplingSettings from "./AdvancedSamplingSettings";
+import ProfileControls from "./ProfileControls";
+import { SettingsProfile, WizardTab } from "@/services/profileService";
+import { settingsStore } from "@/services/sessionStore";
+
+export interface ModelSettingsValue {
+  temperature: number;
+  useGPU: boolean;
+  maxTokens: number;
+  endpoint: string;  // Required
+  sampling: SamplingOptions;
+  systemPrompt: string;
+}
 
 interface ModelSettingsProps {
-  onSettingsChange: (settings: {
-    temperature: number;
-    useGPU: boolean;
-    maxTokens: number;
-    endpoint: string;  // Required
-  }) => void;
+  onSettingsChange: (settings: ModelSettingsValue) => void;
+  activeTab: WizardTab;
+  // Profile to load into the form, e.g. the default of a newly opened tab
+  appliedProfile?: SettingsProfile;
 }
 
-const ModelSettings: React.FC<ModelSettingsProps> = ({ onSettingsChange }) => {
+const ModelSettings: React.FC<ModelSettingsProps> = ({ onSettingsChange, activeTab, appliedProfile }) => {
+  const [stored] = useState(() => settingsStore.load());
   const [isOpen, setIsOpen] = useState(false);
-  const [temperature, setTemperature] = useState(0.2);
-  const [useGPU, setUseGPU] = useState(true);
-  const [maxTokens, setMaxTokens] = useState(2048);
+  const [temperature, setTemperature] = useState(stored.temperature);
+  const [useGPU, setUseGPU] = useState(stored.useGPU);
+  const [maxTokens, setMaxTokens] = useState(stored.maxTokens);
   const [hasGPU, setHasGPU] = useState(false);
-  const [endpoint, setEndpoint] = useState("http://localhost:11434");
-  const [isRemoteServer, setIsRemoteServer] = useState(false);
+  const [endpoint, setEndpoint] = useState(stored.endpoint);
+  const [isRemoteServer, setIsRemoteServer] = useState(stored.isRemoteServer);
   const [isTestingConnection, setIsTestingConnection] = useState(false);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [sampling, setSampling] = useState<SamplingOptions>(stored.sampling);
+  const [modelDefaults, setModelDefaults] = useState<Record<string, string[]>>({});
+  const [systemPrompt, setSystemPrompt] = useState(stored.systemPrompt);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(stored.activeProfileId);
+  const activeModel = useActiveModel();
 
   // Check for GPU on component mount
   useEffect(() => {
     const checkGPU = async () => {
       const gpuAvailable = await checkForNvidiaGPU();
       setHasGPU(gpuAvailable);
-      setUseGPU(gpuAvailable);
+      // Keep a saved preference to run on CPU, but never claim a GPU we can't see
+      if (!gpuAvailable) {
+        setUseGPU(false);
+      }
     };
     
     checkGPU();
   }, []);
 
-  // Update parent component when settings change
+  // Update parent component and saved settings when settings change
   useEffect(() => {
     onSettingsChange({
       temperature,
       useGPU,
       maxTokens,
-      endpoint
+      endpoint,
+      sampling,
+      systemPrompt
+    });
+  }, [temperature, useGPU, maxTokens, endpoint, sampling, systemPrompt, onSettingsChange]);
+
+  useEffect(() => {
+    settingsStore.save({
+      temperature,
+      useGPU,
+      maxTokens,
+      endpoint,
+      isRemoteServer,
+      sampling,
+      systemPrompt,
+      activeProfileId
     });
-  }, [temperature, useGPU, maxTokens, endpoint, onSettingsChange]);
+  }, [temperature, useGPU, maxTokens, endpoint, isRemoteServer, sampling, systemPrompt, activeProfileId]);
+
+  const applyProfile = (profile: SettingsProfile) => {
+    setActiveProfileId(profile.id);
+    setTemperature(profile.temperature);
+    setMaxTokens(profile.maxTokens);
+    setSampling(profile.sampling);
+    setSystemPrompt(profile.systemPrompt);
+    if (profile.endpoint) {
+      setEndpoint(profile.endpoint);
+    }
+    if (profile.model) {
+      ollamaService.setModel(profile.model);
+    }
+  };
+
+  useEffect(() => {
+    if (appliedProfile) {
+      applyProfile(appliedProfile);
+    }
+  }, [appliedProfile]);
+
+  const getCurrentSettings = () => ({
+    model: activeModel,
+    endpoint,
+    temperature,
+    maxTokens,
+    sampling,
+    systemPrompt
+  });
+
+  // Show the active model's own parameter values as the defaults being overridden
+  useEffect(() => {
+    if (!showAdvanced) {
+      return;
+    }
+    
+    let cancelled = false;
+    ollamaService.showModel(activeModel)
+      .then(details => {
+        if (!cancelled) {
+          setModelDefaults(parseParameterLines(details.parameters));
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setModelDefaults({});
+        }
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [showAdvanced, activeModel]);
+
+  const loadModels = async () => {
+    setIsLoadingModels(true);
+    try {
+      setModels(await ollamaService.listModels());
+    } catch (error) {
+      console.error("Error loading models:", error);
+      toast.error(`Could not load models: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  // Refresh the model list each time the panel is opened, and whenever models are added or removed
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    
+    loadModels();
+    return ollamaService.onModelListChange(loadModels);
+  }, [isOpen]);
+
+  const describeModel = (model: ModelInfo) => {
+    return [model.parameterSize, model.family, model.quantization, formatBytes(model.size)]
+      .filter(Boolean)
+      .join(" · ");
+  };
+
+  const activeModelInfo = models.find(model => model.name === activeModel);
 
   const handleEndpointChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newEndpoint = e.target.value;
@@ -93,6 +220,57 @@ const ModelSettings: React.FC<ModelSettingsProps> = ({ onSettingsChange }) => {
             <CardTitle className="text-sm font-medium">Model Settings</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            <ProfileControls
+              activeProfileId={activeProfileId}
+              activeTab={activeTab}
+              getCurrentSettings={getCurrentSettings}
+              onApply={applyProfile}
+            />
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="model" className="flex items-center gap-1">
+                  <Box className="h-4 w-4" />
+                  <span>Model</span>
+                </Label>
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={loadModels}
+                  disabled={isLoadingModels}
+                  className="h-7 text-xs"
+                >
+                  <RefreshCw className={`h-3 w-3 mr-1 ${isLoadingModels ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+              <Select value={activeModel} onValueChange={(value) => ollamaService.setModel(value)}>
+                <SelectTrigger id="model" className="text-sm">
+                  <SelectValue placeholder="Select a model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {!activeModelInfo && (
+                    <SelectItem value={activeModel}>
+                      {activeModel} (not installed)
+                    </SelectItem>
+                  )}
+                  {models.map(model => (
+                    <SelectItem key={model.name} value={model.name}>
+                      <div className="flex flex-col">
+                        <span>{model.name}</span>
+                        <span className="text-xs text-muted-foreground">{describeModel(model)}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {models.length === 0 && !isLoadingModels && (
+                <p className="text-xs text-muted-foreground">
+                  No models found. Pull one with 'ollama pull &lt;model&gt;'.
+                </p>
+              )}
+            </div>
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor="temperature">Temperature: {temperature}</Label>
@@ -125,6 +303,36 @@ const ModelSettings: React.FC<ModelSettingsProps> = ({ onSettingsChange }) => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="system-prompt">System Prompt</Label>
+              <Textarea
+                id="system-prompt"
+                rows={3}
+                value={systemPrompt}
+                onChange={(e) => setSystemPrompt(e.target.value)}
+                className="text-xs"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowAdvanced(!showAdvanced)}
+                className="h-7 px-0 text-xs"
+              >
+                <ChevronRight className={`h-3 w-3 mr-1 transition-transform ${showAdvanced ? "rotate-90" : ""}`} />
+                Advanced Sampling
+              </Button>
+              {showAdvanced && (
+                <AdvancedSamplingSettings
+                  value={sampling}
+                  onChange={setSampling}
+                  modelDefaults={modelDefaults}
+                />
+              )}
+            </div>
+
             <div className="flex items-center space-x-2">
               <Switch
                 id="use-gpu"
@@ -0,0 +1,137 @@
+import React, { useState, useMemo, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { FilePlus2, AlertCircle, AlertTriangle, RefreshCw, X } from "lucide-react";
+import ollamaService, { isAbortError } from "@/services/ollamaService";
+import { parseModelfile, getModelfileTemplate } from "@/utils/modelfileUtils";
+
+const ModelfileEditor: React.FC = () => {
+  const [name, setName] = useState("");
+  const [text, setText] = useState(() => getModelfileTemplate(ollamaService.getModel()));
+  const [status, setStatus] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const { modelfile, issues } = useMemo(() => parseModelfile(text), [text]);
+  const errors = issues.filter(issue => issue.severity === "error");
+  const nameIsValid = /^[\w.-]+(\/[\w.-]+)?(:[\w.-]+)?$/.test(name.trim());
+
+  const handleCreate = async () => {
+    const modelName = name.trim();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsCreating(true);
+    setStatus("starting");
+
+    try {
+      await ollamaService.createModel(modelName, modelfile, controller.signal, (progress) => {
+        setStatus(progress.status);
+      });
+
+      ollamaService.setModel(modelName);
+      toast.success(`Created ${modelName} and made it the active model`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast.info(`Creation of ${modelName} cancelled`);
+        return;
+      }
+
+      console.error("Error creating model:", error);
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsCreating(false);
+      setStatus(null);
+      controllerRef.current = null;
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-4 border-b border-border">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <FilePlus2 className="h-5 w-5 text-accent" />
+          Create Custom Model
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="modelfile-name" className="text-xs">Model name</Label>
+          <Input
+            id="modelfile-name"
+            placeholder="team-coder:latest"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="text-sm"
+          />
+          {name && !nameIsValid && (
+            <p className="text-xs text-destructive">
+              Use letters, numbers, '.', '-' and '_', with an optional namespace/ and :tag
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="modelfile" className="text-xs">Modelfile</Label>
+          <Textarea
+            id="modelfile"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={14}
+            spellCheck={false}
+            className="terminal-text text-xs"
+          />
+        </div>
+
+        {issues.length > 0 && (
+          <ul className="space-y-1 text-xs">
+            {issues.map((issue, index) => (
+              <li
+                key={index}
+                className={`flex items-center gap-1 ${issue.severity === "error" ? "text-destructive" : "text-yellow-400"}`}
+              >
+                {issue.severity === "error" ? (
+                  <AlertCircle className="h-3 w-3" />
+                ) : (
+                  <AlertTriangle className="h-3 w-3" />
+                )}
+                Line {issue.line}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-between items-center">
+          <span className="text-xs text-muted-foreground">
+            {isCreating && status}
+          </span>
+          <div className="space-x-2">
+            {isCreating && (
+              <Button variant="outline" size="sm" onClick={() => controllerRef.current?.abort()}>
+                <X className="h-3 w-3 mr-1" />
+                Cancel
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={handleCreate}
+              disabled={isCreating || errors.length > 0 || !nameIsValid}
+            >
+              {isCreating ? (
+                <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <FilePlus2 className="h-3 w-3 mr-1" />
+              )}
+              Create
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModelfileEditor;
@@ -0,0 +1,168 @@
+import React, { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Save, Trash2, Upload, Download, Bookmark } from "lucide-react";
+import profileService, { SettingsProfile, WizardTab } from "@/services/profileService";
+import { useProfiles } from "@/hooks/use-profiles";
+
+interface ProfileControlsProps {
+  activeProfileId: string | null;
+  activeTab: WizardTab;
+  // Snapshot of the current settings to store when saving
+  getCurrentSettings: () => Omit<SettingsProfile, "id" | "name">;
+  onApply: (profile: SettingsProfile) => void;
+}
+
+const TAB_LABELS: Record<WizardTab, string> = {
+  commands: "Commands",
+  code: "Code Generation",
+  files: "Files"
+};
+
+const ProfileControls: React.FC<ProfileControlsProps> = ({
+  activeProfileId,
+  activeTab,
+  getCurrentSettings,
+  onApply
+}) => {
+  const profiles = useProfiles();
+  const [newName, setNewName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+  const isTabDefault = !!activeProfile && profileService.getTabProfile(activeTab)?.id === activeProfile.id;
+
+  const handleSaveNew = () => {
+    const name = newName.trim();
+    if (!name) {
+      return;
+    }
+
+    const profile = { ...getCurrentSettings(), id: profileService.createProfileId(name), name };
+    profileService.saveProfile(profile);
+    onApply(profile);
+    setNewName("");
+    toast.success(`Saved profile "${name}"`);
+  };
+
+  const handleUpdate = () => {
+    if (!activeProfile) {
+      return;
+    }
+
+    profileService.saveProfile({ ...getCurrentSettings(), id: activeProfile.id, name: activeProfile.name });
+    toast.success(`Updated profile "${activeProfile.name}"`);
+  };
+
+  const handleDelete = () => {
+    if (!activeProfile) {
+      return;
+    }
+
+    profileService.deleteProfile(activeProfile.id);
+    toast.success(`Deleted profile "${activeProfile.name}"`);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([profileService.exportProfiles()], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "code-wizard-profiles.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const count = profileService.importProfiles(await file.text());
+      toast.success(`Imported ${count} profile${count === 1 ? "" : "s"}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="profile" className="flex items-center gap-1">
+        <Bookmark className="h-4 w-4" />
+        <span>Profile</span>
+      </Label>
+      <div className="flex items-center gap-1">
+        <Select
+          value={activeProfileId ?? ""}
+          onValueChange={(id) => {
+            const profile = profileService.getProfile(id);
+            if (profile) {
+              onApply(profile);
+            }
+          }}
+        >
+          <SelectTrigger id="profile" className="text-sm">
+            <SelectValue placeholder="Custom settings" />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" title="Update profile with current settings" onClick={handleUpdate} disabled={!activeProfile}>
+          <Save className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" title="Delete profile" onClick={handleDelete} disabled={!activeProfile}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="tab-default"
+          checked={isTabDefault}
+          disabled={!activeProfile}
+          onCheckedChange={(checked) => profileService.setTabProfile(activeTab, checked ? activeProfile.id : null)}
+        />
+        <Label htmlFor="tab-default" className="text-xs">
+          Default for the {TAB_LABELS[activeTab]} tab
+        </Label>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Input
+          placeholder="New profile name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSaveNew()}
+          className="text-sm h-8"
+        />
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleSaveNew} disabled={!newName.trim()}>
+          Save as
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Export profiles" onClick={handleExport}>
+          <Download className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Import profiles" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProfileControls;
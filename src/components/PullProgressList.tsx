@@ -0,0 +1,87 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Download, X, CheckCircle2, AlertCircle } from "lucide-react";
+import { formatBytes } from "@/lib/utils";
+
+export interface PullState {
+  id: string;
+  model: string;
+  status: string;
+  // Per-layer byte counts, keyed by digest, so the overall bar covers every layer
+  layers: Record<string, { total: number; completed: number }>;
+  state: "pulling" | "success" | "error" | "cancelled";
+  error?: string;
+}
+
+interface PullProgressListProps {
+  pulls: PullState[];
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const getTotals = (pull: PullState) => {
+  return Object.values(pull.layers).reduce(
+    (acc, layer) => ({
+      total: acc.total + layer.total,
+      completed: acc.completed + layer.completed
+    }),
+    { total: 0, completed: 0 }
+  );
+};
+
+const PullProgressList: React.FC<PullProgressListProps> = ({ pulls, onCancel, onDismiss }) => {
+  if (pulls.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 mb-4">
+      {pulls.map((pull) => {
+        const { total, completed } = getTotals(pull);
+        const percent = pull.state === "success" ? 100 : total > 0 ? Math.floor((completed / total) * 100) : 0;
+
+        return (
+          <div key={pull.id} className="p-3 rounded-md bg-secondary/20 border border-border space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                {pull.state === "success" ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-400" />
+                ) : pull.state === "error" ? (
+                  <AlertCircle className="h-4 w-4 text-destructive" />
+                ) : (
+                  <Download className="h-4 w-4 text-accent" />
+                )}
+                <span className="font-semibold">{pull.model}</span>
+                <span className="text-muted-foreground">
+                  {pull.state === "error" ? pull.error : pull.status}
+                </span>
+              </div>
+              {pull.state === "pulling" ? (
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onCancel(pull.id)}>
+                  <X className="h-3 w-3 mr-1" />
+                  Cancel
+                </Button>
+              ) : (
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onDismiss(pull.id)}>
+                  Dismiss
+                </Button>
+              )}
+            </div>
+            {pull.state !== "error" && (
+              <>
+                <Progress value={percent} className="h-2" />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{percent}%</span>
+                  {total > 0 && <span>{formatBytes(completed)} / {formatBytes(total)}</span>}
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PullProgressList;
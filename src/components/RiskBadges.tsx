@@ -0,0 +1,35 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { RISK_CLASS_LABELS, RiskClass } from "@/utils/commandSafety";
+
+const RISK_CLASS_STYLES: Record<RiskClass, string> = {
+  "read-only": "border-green-500/50 text-green-400",
+  "mutating": "border-blue-500/50 text-blue-400",
+  "network": "border-purple-500/50 text-purple-400",
+  "destructive": "border-destructive/60 text-destructive",
+  "privileged": "border-yellow-500/50 text-yellow-400"
+};
+
+interface RiskBadgesProps {
+  classes: RiskClass[];
+  className?: string;
+}
+
+const RiskBadges: React.FC<RiskBadgesProps> = ({ classes, className }) => {
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {classes.map(riskClass => (
+        <Badge
+          key={riskClass}
+          variant="outline"
+          className={cn("text-[10px] px-1.5 py-0", RISK_CLASS_STYLES[riskClass])}
+        >
+          {RISK_CLASS_LABELS[riskClass]}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+export default RiskBadges;
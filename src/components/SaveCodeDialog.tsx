@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Download, Save } from "lucide-react";
+import commandService, { BridgeStatus } from "@/services/commandService";
+import { downloadFile } from "@/lib/utils";
+
+interface SaveCodeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  content: string;
+  language: string;
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  javascript: "js", js: "js", jsx: "jsx", mjs: "mjs", cjs: "cjs",
+  typescript: "ts", ts: "ts", tsx: "tsx",
+  python: "py", py: "py", python3: "py",
+  bash: "sh", sh: "sh", shell: "sh", zsh: "zsh", fish: "fish",
+  powershell: "ps1", pwsh: "ps1", ps1: "ps1",
+  cmd: "cmd", bat: "bat", batch: "bat",
+  go: "go", golang: "go", rust: "rs", rs: "rs", java: "java", kotlin: "kt", kt: "kt",
+  c: "c", h: "h", cpp: "cpp", "c++": "cpp", csharp: "cs", cs: "cs", swift: "swift", ruby: "rb", rb: "rb", php: "php",
+  json: "json", yaml: "yml", yml: "yml", toml: "toml", ini: "ini", xml: "xml", html: "html",
+  css: "css", scss: "scss", less: "less", sql: "sql", markdown: "md", md: "md", diff: "diff", patch: "patch"
+};
+
+// Use a path named in the code's first line, as in "// src/app.ts", otherwise one from the language
+const suggestFileName = (content: string, language: string): string => {
+  const named = content.split("\n", 1)[0].match(/^\s*(?:\/\/|#|--|<!--|\/\*)\s*(?:file(?:name)?:\s*)?([\w./-]+\.\w+)\s*(?:-->|\*\/)?\s*$/i);
+  if (named) {
+    return named[1];
+  }
+  if (language === "dockerfile" || language === "docker") {
+    return "Dockerfile";
+  }
+  return `snippet.${FILE_EXTENSIONS[language] ?? "txt"}`;
+};
+
+const SaveCodeDialog: React.FC<SaveCodeDialogProps> = ({ open, onOpenChange, content, language }) => {
+  const [fileName, setFileName] = useState(() => suggestFileName(content, language));
+  const [status, setStatus] = useState<BridgeStatus>(() => commandService.getBridgeStatus());
+  const [isSaving, setIsSaving] = useState(false);
+  // Path of an existing file the bridge would replace, awaiting confirmation
+  const [existingPath, setExistingPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    return commandService.onBridgeStatusChange(setStatus);
+  }, []);
+
+  const name = fileName.trim();
+  const directory = commandService.getWorkingDirectory() || status.homeDirectory || "the home directory";
+
+  const handleSave = async (overwrite = false) => {
+    if (!name) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await commandService.writeFile(name, content, overwrite);
+      if (result.success) {
+        toast.success(`Saved ${result.path}`);
+        onOpenChange(false);
+      } else if (result.exists) {
+        setExistingPath(name);
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!name) {
+      return;
+    }
+    // Browsers only take a file name for downloads, not a directory
+    downloadFile(name.split(/[\\/]/).pop(), content);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as file</DialogTitle>
+          <DialogDescription>
+            {status.available
+              ? `Relative paths are saved under ${directory} through the command bridge.`
+              : "The command bridge isn't connected, so the file can only be downloaded."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1">
+          <Label htmlFor="save-code-name" className="text-xs">File name</Label>
+          <Input
+            id="save-code-name"
+            className="font-mono"
+            value={fileName}
+            onChange={(e) => {
+              setFileName(e.target.value);
+              setExistingPath(null);
+            }}
+            onKeyDown={(e) => e.key === "Enter" && (status.available ? handleSave(existingPath === name) : handleDownload())}
+          />
+          {existingPath && (
+            <p className="text-xs text-yellow-400">{existingPath} already exists. Replace it?</p>
+          )}
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleDownload} disabled={!name}>
+            <Download className="h-4 w-4 mr-1" />
+            Download
+          </Button>
+          {status.available && (
+            <Button
+              onClick={() => handleSave(existingPath === name)}
+              disabled={!name || isSaving}
+              variant={existingPath === name ? "destructive" : "default"}
+            >
+              <Save className="h-4 w-4 mr-1" />
+              {existingPath === name ? "Replace" : "Save"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveCodeDialog;
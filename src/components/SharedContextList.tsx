@@ -0,0 +1,47 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Paperclip, X } from "lucide-react";
+import { SharedContext } from "@/services/sessionStore";
+
+interface SharedContextListProps {
+  context: SharedContext[];
+  // Names of the tabs context can come from
+  sourceLabels: Record<string, string>;
+  onRemove: (id: string) => void;
+}
+
+// Output sent here from other tabs, which goes along with every message to the model
+const SharedContextList: React.FC<SharedContextListProps> = ({ context, sourceLabels, onRemove }) => {
+  if (context.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <span className="flex items-center">
+        <Paperclip className="h-3.5 w-3.5 mr-1" />
+        Context:
+      </span>
+      {context.map(shared => (
+        <Badge
+          key={shared.id}
+          variant="secondary"
+          className="max-w-[20rem] gap-1 font-normal"
+          title={`From ${sourceLabels[shared.from] ?? shared.from}, ${shared.content.length.toLocaleString()} characters`}
+        >
+          <span className="truncate">{shared.label}</span>
+          <button
+            type="button"
+            onClick={() => onRemove(shared.id)}
+            className="shrink-0 rounded-full hover:text-foreground"
+            aria-label={`Remove ${shared.label} from the context`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+export default SharedContextList;
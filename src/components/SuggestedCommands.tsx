@@ -0,0 +1,179 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Play, Pencil, Copy, SkipForward, ListChecks, Check, X } from "lucide-react";
+import RiskBadges from "./RiskBadges";
+import { SuggestedCommand, SuggestionStatus } from "@/services/commandService";
+import { classifyCommand } from "@/utils/commandSafety";
+import { cn } from "@/lib/utils";
+
+interface SuggestedCommandsProps {
+  suggestions: SuggestedCommand[];
+  // Run the given commands in order, stopping at the first one that doesn't succeed
+  onRun: (suggestions: SuggestedCommand[]) => void;
+  onUpdate: (id: string, changes: Partial<SuggestedCommand>) => void;
+  disabled: boolean;
+}
+
+const STATUS_LABELS: Record<SuggestionStatus, string> = {
+  pending: "",
+  running: "Running…",
+  succeeded: "Succeeded",
+  failed: "Failed",
+  skipped: "Skipped",
+  blocked: "Not run"
+};
+
+const STATUS_STYLES: Record<SuggestionStatus, string> = {
+  pending: "",
+  running: "text-accent",
+  succeeded: "text-green-400",
+  failed: "text-destructive",
+  skipped: "text-muted-foreground",
+  blocked: "text-yellow-400"
+};
+
+const SuggestedCommandCard: React.FC<{
+  suggestion: SuggestedCommand;
+  index: number;
+  onRun: (suggestion: SuggestedCommand) => void;
+  onUpdate: (changes: Partial<SuggestedCommand>) => void;
+  disabled: boolean;
+}> = ({ suggestion, index, onRun, onUpdate, disabled }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const isEditing = draft !== null;
+  const { classes } = classifyCommand(draft ?? suggestion.command);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(suggestion.command);
+      toast.success("Command copied");
+    } catch {
+      toast.error("Could not copy to the clipboard");
+    }
+  };
+
+  const handleRunEdited = () => {
+    const command = draft.trim();
+    if (!command) {
+      return;
+    }
+    setDraft(null);
+    onUpdate({ command });
+    onRun({ ...suggestion, command });
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border border-border bg-secondary/20 p-2 space-y-2",
+        (suggestion.status === "skipped" || suggestion.status === "succeeded") && "opacity-70"
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground w-4 text-right">{index + 1}</span>
+        {isEditing ? (
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              // Plain Enter adds a line, since commands can span several
+              if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                handleRunEdited();
+              } else if (e.key === "Escape") {
+                setDraft(null);
+              }
+            }}
+            rows={Math.min(draft.split("\n").length, 8)}
+            className="min-h-0 flex-1 font-mono text-xs py-1"
+            autoFocus
+          />
+        ) : (
+          <code className="flex-1 font-mono text-xs text-foreground whitespace-pre-wrap break-all">{suggestion.command}</code>
+        )}
+        <RiskBadges classes={classes} />
+      </div>
+
+      <div className="flex items-center gap-1 pl-6">
+        {isEditing ? (
+          <>
+            <Button size="sm" variant="secondary" className="h-6 text-xs" onClick={handleRunEdited} disabled={disabled || !draft.trim()}>
+              <Check className="h-3 w-3 mr-1" />
+              Run edited (Ctrl+Enter)
+            </Button>
+            <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => setDraft(null)}>
+              <X className="h-3 w-3 mr-1" />
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button size="sm" variant="secondary" className="h-6 text-xs" onClick={() => onRun(suggestion)} disabled={disabled}>
+              <Play className="h-3 w-3 mr-1" />
+              {suggestion.status === "pending" || suggestion.status === "skipped" ? "Run" : "Run again"}
+            </Button>
+            <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => setDraft(suggestion.command)} disabled={disabled}>
+              <Pencil className="h-3 w-3 mr-1" />
+              Edit
+            </Button>
+            <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={handleCopy}>
+              <Copy className="h-3 w-3 mr-1" />
+              Copy
+            </Button>
+            {suggestion.status === "pending" && (
+              <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => onUpdate({ status: "skipped" })}>
+                <SkipForward className="h-3 w-3 mr-1" />
+                Skip
+              </Button>
+            )}
+          </>
+        )}
+        <span className={cn("ml-auto text-xs", STATUS_STYLES[suggestion.status])}>
+          {STATUS_LABELS[suggestion.status]}
+          {suggestion.exitCode !== undefined && suggestion.status === "failed" && ` (exit ${suggestion.exitCode})`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const SuggestedCommands: React.FC<SuggestedCommandsProps> = ({ suggestions, onRun, onUpdate, disabled }) => {
+  const pending = suggestions.filter(suggestion => suggestion.status === "pending");
+
+  return (
+    <div className="pl-5 mt-2 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          Suggested command{suggestions.length > 1 ? "s" : ""}
+        </span>
+        {suggestions.length > 1 && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-6 text-xs"
+            onClick={() => onRun(pending)}
+            disabled={disabled || pending.length === 0}
+            title="Run the remaining commands in order, stopping at the first failure"
+          >
+            <ListChecks className="h-3 w-3 mr-1" />
+            Run all ({pending.length})
+          </Button>
+        )}
+      </div>
+      {suggestions.map((suggestion, index) => (
+        <SuggestedCommandCard
+          key={suggestion.id}
+          suggestion={suggestion}
+          index={index}
+          onRun={(selected) => onRun([selected])}
+          onUpdate={(changes) => onUpdate(suggestion.id, changes)}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default SuggestedCommands;
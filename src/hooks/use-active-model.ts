@@ -0,0 +1,13 @@
+import * as React from "react"
+import ollamaService from "@/services/ollamaService"
+
+export function useActiveModel() {
+  const [model, setModel] = React.useState(() => ollamaService.getModel())
+
+  React.useEffect(() => {
+    setModel(ollamaService.getModel())
+    return ollamaService.onModelChange(setModel)
+  }, [])
+
+  return model
+}
@@ -0,0 +1,13 @@
+import * as React from "react"
+import historyService from "@/services/historyService"
+
+export function useCommandHistory() {
+  const [, setRevision] = React.useState(0)
+
+  React.useEffect(() => {
+    return historyService.onChange(() => setRevision(revision => revision + 1))
+  }, [])
+
+  // Read on every render, since the workspace can change without a history change
+  return historyService.getEntries()
+}
@@ -0,0 +1,29 @@
+import * as React from "react"
+import keybindingService from "@/services/keybindingService"
+import { eventToKeybinding, hasCommandModifier, isEditableTarget } from "@/utils/keybindings"
+
+// Run handlers, keyed by action id, when their configured shortcut is pressed anywhere on the page
+export function useKeybindings(handlers: Record<string, () => void>) {
+  const handlersRef = React.useRef(handlers)
+  handlersRef.current = handlers
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const binding = eventToKeybinding(event)
+      // Plain keys belong to whatever field has focus
+      if (!binding || (!hasCommandModifier(binding) && isEditableTarget(event.target))) {
+        return
+      }
+
+      const actionId = keybindingService.getActionFor(binding)
+      const handler = actionId && handlersRef.current[actionId]
+      if (handler) {
+        event.preventDefault()
+        handler()
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+}
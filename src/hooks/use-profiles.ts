@@ -0,0 +1,17 @@
+import * as React from "react"
+import profileService from "@/services/profileService"
+
+export function useProfiles() {
+  const [profiles, setProfiles] = React.useState(() => profileService.getProfiles())
+  const [, setRevision] = React.useState(0)
+
+  React.useEffect(() => {
+    return profileService.onChange(() => {
+      setProfiles(profileService.getProfiles())
+      // Tab defaults live outside the profile list, so force a render for those too
+      setRevision(revision => revision + 1)
+    })
+  }, [])
+
+  return profiles
+}
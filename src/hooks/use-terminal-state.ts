@@ -0,0 +1,13 @@
+import * as React from "react"
+import terminalService from "@/services/terminalService"
+
+export function useTerminalState() {
+  const [state, setState] = React.useState(() => terminalService.getState())
+
+  React.useEffect(() => {
+    setState(terminalService.getState())
+    return terminalService.onStateChange(setState)
+  }, [])
+
+  return state
+}
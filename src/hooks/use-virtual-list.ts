@@ -0,0 +1,133 @@
+import * as React from "react"
+
+export interface VirtualItem {
+  index: number
+  key: string
+  // Offset from the top of the list, in pixels
+  start: number
+}
+
+interface VirtualListOptions {
+  // One stable key per item, so measured heights stay with their items when the list is filtered
+  keys: string[]
+  estimateSize: number
+  // Extra pixels rendered above and below the viewport
+  overscan?: number
+}
+
+// Render only the rows of a long, variable-height list that are in or near
+// view. Rows are measured once mounted; unmeasured rows use the estimate.
+export function useVirtualList(
+  scrollRef: React.RefObject<HTMLElement>,
+  { keys, estimateSize, overscan = 800 }: VirtualListOptions
+) {
+  // Measured heights by key; replaced rather than mutated so offsets recompute when one changes
+  const [sizes, setSizes] = React.useState<ReadonlyMap<string, number>>(() => new Map())
+  const sizesRef = React.useRef(sizes)
+  const [viewport, setViewport] = React.useState({ top: 0, height: 0 })
+
+  React.useEffect(() => {
+    const element = scrollRef.current
+    if (!element) return
+    const update = () => setViewport({ top: element.scrollTop, height: element.clientHeight })
+    update()
+    element.addEventListener("scroll", update, { passive: true })
+    const observer = new ResizeObserver(update)
+    observer.observe(element)
+    return () => {
+      element.removeEventListener("scroll", update)
+      observer.disconnect()
+    }
+  }, [scrollRef])
+
+  // starts[i] is the offset of item i; the last entry is the total height
+  const starts = React.useMemo(() => {
+    const offsets = new Float64Array(keys.length + 1)
+    for (let i = 0; i < keys.length; i++) {
+      offsets[i + 1] = offsets[i] + (sizes.get(keys[i]) ?? estimateSize)
+    }
+    return offsets
+  }, [keys, estimateSize, sizes])
+
+  const startsRef = React.useRef(starts)
+  const indexByKeyRef = React.useRef(new Map<string, number>())
+  React.useEffect(() => {
+    startsRef.current = starts
+    indexByKeyRef.current = new Map(keys.map((key, index) => [key, index]))
+  }, [keys, starts])
+
+  // One observer measures every mounted row
+  const [rowObserver] = React.useState(() => new ResizeObserver((entries) => {
+    let next: Map<string, number> | null = null
+    for (const entry of entries) {
+      const key = (entry.target as HTMLElement).dataset.key
+      const size = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height
+      const previous = sizesRef.current.get(key) ?? estimateSize
+      if (key === undefined || Math.abs(previous - size) < 0.5) continue
+      next = next ?? new Map(sizesRef.current)
+      next.set(key, size)
+      sizesRef.current = next
+
+      // Keep the visible content still when a row above it changes height
+      const element = scrollRef.current
+      const index = indexByKeyRef.current.get(key)
+      if (element && index !== undefined && startsRef.current[index] < element.scrollTop) {
+        element.scrollTop += size - previous
+      }
+    }
+    if (next) setSizes(next)
+  }))
+
+  React.useEffect(() => () => rowObserver.disconnect(), [rowObserver])
+
+  const rowElementsRef = React.useRef(new Map<string, HTMLElement>())
+
+  // Ref callback for each rendered row; the row must carry a matching data-key attribute
+  const measureRow = React.useCallback((element: HTMLElement | null) => {
+    if (element) {
+      rowElementsRef.current.set(element.dataset.key, element)
+      rowObserver.observe(element)
+      return
+    }
+    // React passes null on unmount without saying which row, so drop any that left the DOM
+    for (const [key, row] of rowElementsRef.current) {
+      if (!row.isConnected) {
+        rowObserver.unobserve(row)
+        rowElementsRef.current.delete(key)
+      }
+    }
+  }, [rowObserver])
+
+  const findIndex = (offset: number) => {
+    let low = 0
+    let high = keys.length - 1
+    while (low < high) {
+      const middle = (low + high + 1) >> 1
+      if (starts[middle] <= offset) low = middle
+      else high = middle - 1
+    }
+    return low
+  }
+
+  const items: VirtualItem[] = []
+  if (keys.length > 0) {
+    const first = findIndex(Math.max(0, viewport.top - overscan))
+    const bottom = viewport.top + viewport.height + overscan
+    for (let index = first; index < keys.length && starts[index] < bottom; index++) {
+      items.push({ index, key: keys[index], start: starts[index] })
+    }
+  }
+
+  const scrollToIndex = React.useCallback((index: number, align: "start" | "center" | "end" = "center") => {
+    const element = scrollRef.current
+    const offsets = startsRef.current
+    if (!element || index < 0 || index >= offsets.length - 1) return
+    const size = offsets[index + 1] - offsets[index]
+    const top = align === "start" ? offsets[index]
+      : align === "end" ? offsets[index + 1] - element.clientHeight
+      : offsets[index] - (element.clientHeight - size) / 2
+    element.scrollTop = Math.max(0, top)
+  }, [scrollRef])
+
+  return { items, totalSize: starts[keys.length], measureRow, scrollToIndex }
+}
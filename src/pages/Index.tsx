@@ -1,8 +1,12 @@
 
 import React from "react";
+import { Link } from "react-router-dom";
 import CodeWizard from "@/components/CodeWizard";
+import { useActiveModel } from "@/hooks/use-active-model";
 
 const Index = () => {
+  const model = useActiveModel();
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b border-border py-4 px-6">
@@ -10,9 +14,14 @@ const Index = () => {
           <h1 className="text-xl font-semibold">
             <span className="text-accent">Code</span> Wizard
           </h1>
-          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            <span>Powered by</span>
-            <span className="font-semibold text-foreground">Ollama | qwen2.5-coder:14b</span>
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            <Link to="/models" className="hover:text-foreground underline-offset-4 hover:underline">
+              Models
+            </Link>
+            <div className="flex items-center gap-2">
+              <span>Powered by</span>
+              <span className="font-semibold text-foreground">Ollama | {model}</span>
+            </div>
           </div>
         </div>
       </header>
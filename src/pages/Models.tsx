@@ -0,0 +1,39 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import ModelManager from "@/components/ModelManager";
+import ModelfileEditor from "@/components/ModelfileEditor";
+import { useActiveModel } from "@/hooks/use-active-model";
+
+const Models = () => {
+  const model = useActiveModel();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border py-4 px-6">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-semibold flex items-center gap-2">
+            <Link to="/" className="text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <span><span className="text-accent">Code</span> Wizard</span>
+            <span className="text-muted-foreground font-normal">/ Models</span>
+          </h1>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>Active model</span>
+            <span className="font-semibold text-foreground">{model}</span>
+          </div>
+        </div>
+      </header>
+      
+      <main className="py-8 space-y-6">
+        <ModelManager />
+        <div className="container mx-auto px-4 max-w-4xl">
+          <ModelfileEditor />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Models;
@@ -0,0 +1,187 @@
+/**
+ * The slash commands that ship with the app, registered on import
+ */
+
+import { z } from 'zod';
+import commandRegistry, { AUTO_ROUTE, CommandDefinition, defineCommand } from './commandRegistry';
+import ollamaService from './ollamaService';
+import { isKnownProgram } from '../utils/commandSafety';
+
+// Program names that are also everyday English, so "find the bug in..." isn't run as `find`
+const ENGLISH_PROGRAMS = new Set([
+  'help', 'find', 'make', 'install', 'test', 'type', 'file', 'sort', 'date', 'free', 'code', 'set',
+  'copy', 'move', 'more', 'less', 'format', 'kill', 'history', 'which', 'where', 'tree', 'patch',
+  'top', 'cut', 'diff', 'true', 'false', 'rename', 'export', 'echo', 'id',
+]);
+
+// Guess whether unprefixed input is a shell command rather than a question
+const looksLikeShellCommand = (input: string): boolean => {
+  const [program, ...rest] = input.split(/\s+/);
+  if (/^(\.{0,2}\/|~\/)\S/.test(program) || /^[A-Za-z_][A-Za-z0-9_]*=\S*$/.test(program)) {
+    return true;
+  }
+  if (!isKnownProgram(program)) {
+    return false;
+  }
+  if (!ENGLISH_PROGRAMS.has(program.toLowerCase())) {
+    return true;
+  }
+  // An English-looking first word needs shell syntax after it: flags, paths or operators
+  return rest.length === 0 || rest.some(word => /^-|[/\\.=*|&;<>$]/.test(word));
+};
+
+const modelNames = async (): Promise<string[]> => {
+  try {
+    return (await ollamaService.listModels()).map(model => model.name);
+  } catch {
+    return [];
+  }
+};
+
+const help = defineCommand({
+  name: 'help',
+  description: 'List the commands, or show how to use one',
+  args: {
+    command: z.string().optional().describe('Command to explain'),
+  },
+  complete: {
+    command: () => commandRegistry.getCommands().map(command => command.name),
+  },
+  run: ({ command: name }, context) => {
+    if (name) {
+      const command = commandRegistry.find(name.replace(/^\//, ''));
+      if (!command) {
+        context.print('error', `Unknown command /${name}.`);
+        return;
+      }
+      const args = Object.entries(command.args)
+        .map(([arg, schema]) => `  ${arg}${schema.isOptional() ? ' (optional)' : ''}: ${schema.description ?? ''}`);
+      const aliases = command.aliases?.length ? `\nAliases: ${command.aliases.map(alias => `/${alias}`).join(', ')}` : '';
+      context.print('response', [`${commandRegistry.usage(command)}`, command.description, ...args].join('\n') + aliases);
+      return;
+    }
+
+    const defaultCommand = commandRegistry.getDefaultCommand();
+    const lines = commandRegistry.getCommands().map(command => `${commandRegistry.usage(command).padEnd(24)} ${command.description}`);
+    const routing = defaultCommand === AUTO_ROUTE
+      ? 'Input without a slash is routed automatically: shell commands run, anything else goes to the AI.'
+      : `Input without a slash goes to /${defaultCommand}.`;
+    context.print('response', [...lines, '', routing, 'Change this with /default.'].join('\n'));
+  },
+});
+
+const run = defineCommand({
+  name: 'run',
+  aliases: ['sh'],
+  description: 'Run a shell command through the command bridge',
+  args: {
+    command: z.string({ required_error: 'Enter a command to run' }).describe('Command line to run'),
+  },
+  rest: 'command',
+  matches: (input) => looksLikeShellCommand(input) ? input : undefined,
+  run: ({ command }, context) => context.runShell(command),
+});
+
+const ask = defineCommand({
+  name: 'ask',
+  aliases: ['ai'],
+  description: 'Ask the AI model',
+  args: {
+    prompt: z.string({ required_error: 'Enter a question or request' }).describe('What to ask'),
+  },
+  rest: 'prompt',
+  run: ({ prompt }, context) => context.ask(prompt),
+});
+
+const model = defineCommand({
+  name: 'model',
+  description: 'Show the active model, or switch to another',
+  args: {
+    name: z.string().optional().describe('Model to switch to, e.g. llama3:8b'),
+  },
+  complete: { name: modelNames },
+  matches: (input) => input.match(/^ollama run (\S+)/)?.[1],
+  run: ({ name }, context) => {
+    if (!name) {
+      context.print('info', `Active model: ${ollamaService.getModel()}`);
+      return;
+    }
+    context.setModel(name);
+  },
+});
+
+const pull = defineCommand({
+  name: 'pull',
+  description: 'Download a model from the Ollama library',
+  args: {
+    name: z.string({ required_error: 'Enter the model to pull' }).describe('Model to download, e.g. llama3:8b'),
+  },
+  complete: { name: modelNames },
+  matches: (input) => input.match(/^ollama pull (\S+)/)?.[1],
+  run: ({ name }, context) => context.pullModel(name),
+});
+
+const analyze = defineCommand({
+  name: 'analyze',
+  aliases: ['warpify'],
+  description: 'Open the file explorer to pick files for the AI to analyze',
+  args: {},
+  matches: (input) => /^(warpify|analyze)\b/i.test(input) ? '' : undefined,
+  run: (_args, context) => {
+    context.showTab('files');
+    context.print('info', 'Switched to File Explorer. Select files to analyze.');
+  },
+});
+
+const ssh = defineCommand({
+  name: 'ssh',
+  description: 'Connect to a remote machine running Ollama',
+  args: {
+    target: z.string({ required_error: 'Enter a host to connect to' })
+      .regex(/^([^@\s]+@)?[^@\s:]+(:\d+)?$/, 'Expected [user@]host[:port]')
+      .describe('Remote machine as [user@]host[:port]'),
+  },
+  matches: (input) => input.match(/^ssh\s+(?:-\w+\s+)*(\S+@\S+|[^-\s]\S*)\s*$/i)?.[1],
+  run: ({ target }, context) => context.connectSSH(target),
+});
+
+const install = defineCommand({
+  name: 'install',
+  description: 'Show how to install Ollama on this machine',
+  args: {},
+  matches: (input) => /^\s*install ollama\s*$/i.test(input) ? '' : undefined,
+  run: (_args, context) => {
+    context.showInstallInstructions();
+    context.print('info', 'Showing Ollama installation instructions...');
+  },
+});
+
+const setDefault = defineCommand({
+  name: 'default',
+  description: 'Show or set where input without a slash goes',
+  args: {
+    command: z.string().optional().describe(`"${AUTO_ROUTE}" or a command that takes free text, such as ask or run`),
+  },
+  complete: {
+    command: () => [AUTO_ROUTE, ...commandRegistry.getDefaultCandidates().map(command => command.name)],
+  },
+  run: ({ command }, context) => {
+    if (command) {
+      try {
+        commandRegistry.setDefaultCommand(command.replace(/^\//, ''));
+      } catch (error) {
+        context.print('error', error instanceof Error ? error.message : String(error));
+        return;
+      }
+    }
+    const current = commandRegistry.getDefaultCommand();
+    context.print('info', current === AUTO_ROUTE
+      ? 'Input without a slash is routed automatically.'
+      : `Input without a slash goes to /${current}.`);
+  },
+});
+
+// Claiming rules are tried in this order, so specific patterns come before /run
+export const BUILTIN_COMMANDS: CommandDefinition[] = [help, model, pull, analyze, ssh, install, run, ask, setDefault];
+
+commandRegistry.registerPlugin({ name: 'builtin', commands: BUILTIN_COMMANDS });
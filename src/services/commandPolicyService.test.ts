@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The policy store persists to localStorage, which node doesn't have
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+import { CommandPolicyService } from './commandPolicyService';
+
+const withLists = (allowlist: string[], denylist: string[] = []) => {
+  const service = new CommandPolicyService();
+  service.setPolicy({ allowlist, denylist });
+  return service;
+};
+
+describe('CommandPolicyService.evaluate', () => {
+  it('skips confirmation when every part is allowlisted', () => {
+    const service = withLists(['git status', 'npm run *', 'ls']);
+    expect(service.evaluate('git status && npm run build', 'ai').action).toBe('allow');
+    expect(service.evaluate('ls 2>/dev/null', 'ai').action).toBe('allow');
+  });
+
+  it('still confirms allowlisted commands that write to a file', () => {
+    const service = withLists(['ls', 'npm run *']);
+    expect(service.evaluate('ls > /etc/passwd', 'user').action).toBe('confirm');
+    expect(service.evaluate('npm run build > build.log', 'ai').action).toBe('confirm');
+  });
+
+  it('still confirms allowlisted parts that are destructive or privileged', () => {
+    const service = withLists(['ls', 'rm -rf *', 'sudo *']);
+    expect(service.evaluate('ls; rm -rf ~', 'user').action).toBe('confirm');
+    expect(service.evaluate('sudo ls', 'user').action).toBe('confirm');
+  });
+
+  it('confirms when only some parts are allowlisted', () => {
+    const service = withLists(['ls']);
+    expect(service.evaluate('ls && curl https://example.com', 'ai').action).toBe('confirm');
+  });
+
+  it('blocks denylisted commands hidden in substitutions', () => {
+    const service = withLists(['ls'], ['rm -rf *']);
+    expect(service.evaluate('ls $(rm -rf build)', 'user').action).toBe('deny');
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Decides whether a command may run, needs confirmation, or is blocked,
+ * and keeps an audit log of every decision
+ */
+
+import { z } from 'zod';
+import {
+  classifyCommand,
+  classifyExpandedSegment,
+  CommandAssessment,
+  expandCommand,
+  ExpandedSegment,
+  RISK_CLASS_LABELS,
+  RiskClass,
+  splitCommandSegments,
+  writesToFile,
+} from '../utils/commandSafety';
+import { createStore } from './storageService';
+
+// Typed by the user, or suggested by the model
+export type CommandSource = 'user' | 'ai';
+
+export type PolicyAction = 'allow' | 'confirm' | 'deny';
+
+export type AuditOutcome = 'allowed' | 'confirmed' | 'rejected' | 'denied';
+
+export interface CommandPolicy {
+  // Patterns are command prefixes with optional * wildcards, or /regular expressions/
+  allowlist: string[];
+  denylist: string[];
+  // Risk classes that need explicit confirmation, per source
+  confirmClasses: Record<CommandSource, RiskClass[]>;
+}
+
+export interface PolicyDecision {
+  command: string;
+  source: CommandSource;
+  action: PolicyAction;
+  assessment: CommandAssessment;
+  // Why the policy reached this decision, suitable for showing to the user
+  explanation: string;
+}
+
+export interface AuditEntry {
+  timestamp: Date;
+  command: string;
+  source: CommandSource;
+  classes: RiskClass[];
+  action: PolicyAction;
+  outcome: AuditOutcome;
+  explanation: string;
+}
+
+const MAX_AUDIT_ENTRIES = 500;
+
+const riskClassSchema = z.enum(['read-only', 'mutating', 'network', 'destructive', 'privileged']);
+
+export const DEFAULT_POLICY: CommandPolicy = {
+  allowlist: [],
+  denylist: [
+    // rm with any flags aimed at the root or home directory
+    '/^rm\\s+(-\\S+\\s+)*(\\/|\\/\\*|~|~\\/|\\$HOME)(\\s|$)/',
+    'mkfs*',
+    'dd * of=/dev/*',
+    '/>\\s*\\/dev\\/(sd|hd|nvme)/',
+  ],
+  confirmClasses: {
+    user: ['destructive', 'privileged'],
+    ai: ['mutating', 'network', 'destructive', 'privileged'],
+  },
+};
+
+const policyStore = createStore<CommandPolicy>({
+  key: 'code-wizard.command-policy',
+  version: 1,
+  schema: z.object({
+    allowlist: z.array(z.string()),
+    denylist: z.array(z.string()),
+    confirmClasses: z.object({
+      user: z.array(riskClassSchema),
+      ai: z.array(riskClassSchema),
+    }),
+  }) as z.ZodType<CommandPolicy, z.ZodTypeDef, unknown>,
+  defaults: () => DEFAULT_POLICY,
+});
+
+const auditStore = createStore<AuditEntry[]>({
+  key: 'code-wizard.command-audit',
+  version: 1,
+  schema: z.array(z.object({
+    timestamp: z.coerce.date(),
+    command: z.string(),
+    source: z.enum(['user', 'ai']),
+    classes: z.array(riskClassSchema),
+    action: z.enum(['allow', 'confirm', 'deny']),
+    outcome: z.enum(['allowed', 'confirmed', 'rejected', 'denied']),
+    explanation: z.string(),
+  })) as z.ZodType<AuditEntry[], z.ZodTypeDef, unknown>,
+  defaults: () => [],
+});
+
+// Compile a policy pattern; invalid regular expressions never match
+export const compilePattern = (pattern: string): RegExp | null => {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    if (regex) {
+      return new RegExp(regex[1], regex[2]);
+    }
+    const escaped = pattern.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}(\\s|$)`);
+  } catch {
+    return null;
+  }
+};
+
+// Rules are written for the command itself, so `sudo rm -rf /` still matches `rm -rf /`
+const withoutElevation = (segment: string): string => {
+  return segment.replace(/^(sudo|doas)(\s+-[ug]\s+\S+|\s+-\S+)*\s+/, '');
+};
+
+const findMatch = (patterns: string[], text: string): string | undefined => {
+  return patterns.find(pattern => {
+    const regex = pattern.trim() ? compilePattern(pattern) : null;
+    return regex && (regex.test(text) || regex.test(withoutElevation(text)));
+  });
+};
+
+export class CommandPolicyService {
+  private policy: CommandPolicy;
+  private auditLog: AuditEntry[];
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.policy = policyStore.load();
+    this.auditLog = auditStore.load();
+  }
+
+  // Get the current policy
+  public getPolicy(): CommandPolicy {
+    return this.policy;
+  }
+
+  // Update and persist the policy
+  public setPolicy(policy: Partial<CommandPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+    policyStore.save(this.policy);
+    this.notify();
+  }
+
+  // Restore the built-in policy
+  public resetPolicy(): void {
+    this.setPolicy(DEFAULT_POLICY);
+  }
+
+  // Decide what to do with a command. Denylist matches always block; a command
+  // whose every part is allowlisted runs without confirmation. Parts include
+  // commands inside substitutions, `sh -c` scripts and wrappers such as `env`.
+  // The allowlist never vouches for a part that is destructive, privileged or
+  // redirects into a file, so those still go through the risk check.
+  public evaluate(command: string, source: CommandSource): PolicyDecision {
+    const assessment = classifyCommand(command);
+    const expanded = expandCommand(command);
+    const segments = [
+      ...splitCommandSegments(command).map(({ segment }) => segment),
+      ...expanded.flatMap(({ text, tokens }) => [text, tokens.join(' ')]),
+    ];
+    const decide = (action: PolicyAction, explanation: string): PolicyDecision => ({
+      command,
+      source,
+      action,
+      assessment,
+      explanation,
+    });
+
+    const denied = findMatch(this.policy.denylist, command.trim())
+      ?? segments.map(segment => findMatch(this.policy.denylist, segment)).find(Boolean);
+    if (denied) {
+      return decide('deny', `Blocked by the denylist rule "${denied}".`);
+    }
+
+    const allowed = (segment: ExpandedSegment) => !writesToFile(segment)
+      && !classifyExpandedSegment(segment).classes.some(riskClass => riskClass === 'destructive' || riskClass === 'privileged')
+      && !!(findMatch(this.policy.allowlist, segment.raw) ?? findMatch(this.policy.allowlist, segment.text));
+    if (expanded.length > 0 && expanded.every(allowed)) {
+      return decide('allow', 'Allowed by the allowlist.');
+    }
+
+    const risky = assessment.classes.filter(riskClass => this.policy.confirmClasses[source].includes(riskClass));
+    if (risky.length > 0) {
+      const labels = risky.map(riskClass => RISK_CLASS_LABELS[riskClass].toLowerCase()).join(', ');
+      const subject = source === 'ai' ? 'This AI-suggested command' : 'This command';
+      return decide('confirm', `${subject} is ${labels}, which your policy asks you to confirm.`);
+    }
+
+    return decide('allow', `Classified as ${assessment.classes.map(riskClass => RISK_CLASS_LABELS[riskClass].toLowerCase()).join(', ')}.`);
+  }
+
+  // Record what happened to an evaluated command
+  public record(decision: PolicyDecision, outcome: AuditOutcome): void {
+    this.auditLog = [...this.auditLog, {
+      timestamp: new Date(),
+      command: decision.command,
+      source: decision.source,
+      classes: decision.assessment.classes,
+      action: decision.action,
+      outcome,
+      explanation: decision.explanation,
+    }].slice(-MAX_AUDIT_ENTRIES);
+    auditStore.save(this.auditLog);
+    this.notify();
+  }
+
+  // Recorded decisions, oldest first
+  public getAuditLog(): AuditEntry[] {
+    return this.auditLog;
+  }
+
+  public clearAuditLog(): void {
+    this.auditLog = [];
+    auditStore.save(this.auditLog);
+    this.notify();
+  }
+
+  // Subscribe to policy or audit log changes; returns an unsubscribe function
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new CommandPolicyService();
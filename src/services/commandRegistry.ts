@@ -0,0 +1,312 @@
+/**
+ * Registry of slash commands (/run, /ask, /model...) that input is routed through.
+ * Built-in commands live in builtinCommands.ts; other modules can define
+ * their own with `defineCommand` and add them with `register` or `registerPlugin`.
+ */
+
+import { z } from 'zod';
+import { createStore } from './storageService';
+import type { WizardTab } from './profileService';
+
+// What commands can do in the app that runs them
+export interface CommandContext {
+  print(type: 'info' | 'error' | 'response', content: string): void;
+  runShell(command: string): Promise<void>;
+  ask(prompt: string): Promise<void>;
+  setModel(name: string): void;
+  pullModel(name: string): void;
+  showTab(tab: WizardTab): void;
+  showInstallInstructions(): void;
+  connectSSH(target: string): Promise<void>;
+}
+
+export type ArgumentCompleter = (partial: string) => string[] | Promise<string[]>;
+
+export interface SlashCommand<A extends z.ZodRawShape = z.ZodRawShape> {
+  name: string;
+  aliases?: string[];
+  description: string;
+  // Positional arguments in order; `.describe()` on a schema becomes its help text
+  args: A;
+  // The final argument that takes the rest of the input verbatim, spaces and all
+  rest?: keyof A & string;
+  complete?: Partial<Record<keyof A & string, ArgumentCompleter>>;
+  // In auto routing, claim unprefixed input by returning the argument text to run with
+  matches?(input: string): string | undefined;
+  run(args: z.infer<z.ZodObject<A>>, context: CommandContext): void | Promise<void>;
+}
+
+// A command with its argument types hidden, so commands taking different arguments can be
+// listed together. `bind` validates argument values and returns the command ready to run.
+export interface CommandDefinition extends Omit<SlashCommand, 'run'> {
+  bind(values: Record<string, unknown>): BoundCommand | { error: z.ZodError };
+}
+
+export interface BoundCommand {
+  run(context: CommandContext): void | Promise<void>;
+}
+
+export interface CommandPlugin {
+  name: string;
+  commands: CommandDefinition[];
+}
+
+export interface Completion {
+  // The whole input after accepting the completion
+  value: string;
+  label: string;
+  description?: string;
+}
+
+// Input is either a command invocation or an error to show the user
+export type ResolvedInput =
+  | { command: CommandDefinition; argsText: string; error?: undefined }
+  | { command?: undefined; argsText?: undefined; error: string };
+
+// Routes unprefixed input by guessing; any other value names the command it goes to
+export const AUTO_ROUTE = 'auto';
+
+// Where auto routing sends input no command claims
+const AUTO_FALLBACK = 'ask';
+
+interface RoutingSettings {
+  defaultCommand: string;
+}
+
+const routingStore = createStore<RoutingSettings>({
+  key: 'code-wizard.input-routing',
+  version: 1,
+  schema: z.object({ defaultCommand: z.string() }) as z.ZodType<RoutingSettings, z.ZodTypeDef, unknown>,
+  defaults: () => ({ defaultCommand: AUTO_ROUTE }),
+});
+
+// Check `run` against the command's argument types, then hide them behind `bind`
+export const defineCommand = <A extends z.ZodRawShape>({ run, ...command }: SlashCommand<A>): CommandDefinition => {
+  const schema = z.object(command.args);
+  return {
+    ...command,
+    bind: (values) => {
+      const result = schema.safeParse(values);
+      return result.success ? { run: context => run(result.data, context) } : { error: result.error };
+    },
+  };
+};
+
+// Split argument text into words, honouring single and double quotes
+const splitWords = (text: string): { value: string; start: number; end: number }[] => {
+  const words: { value: string; start: number; end: number }[] = [];
+  const pattern = /"((?:\\.|[^"\\])*)"?|'([^']*)'?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const value = match[1]?.replace(/\\(.)/g, '$1') ?? match[2] ?? match[3];
+    words.push({ value, start: match.index, end: match.index + match[0].length });
+  }
+  return words;
+};
+
+export class CommandRegistry {
+  private commands: CommandDefinition[] = [];
+  private settings: RoutingSettings;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.settings = routingStore.load();
+  }
+
+  // Add a command; returns a function that removes it again
+  public register(command: CommandDefinition): () => void {
+    const names = [command.name, ...(command.aliases ?? [])];
+    const taken = names.find(name => this.find(name));
+    if (taken) {
+      throw new Error(`A command named /${taken} is already registered`);
+    }
+    if (command.rest && Object.keys(command.args).pop() !== command.rest) {
+      throw new Error(`/${command.name}: the rest argument must come last`);
+    }
+
+    this.commands = [...this.commands, command];
+    this.notify();
+    return () => {
+      this.commands = this.commands.filter(existing => existing !== command);
+      this.notify();
+    };
+  }
+
+  // Register a module's commands together; returns a function that removes them all
+  public registerPlugin(plugin: CommandPlugin): () => void {
+    const unregister: (() => void)[] = [];
+    try {
+      plugin.commands.forEach(command => unregister.push(this.register(command)));
+    } catch (error) {
+      unregister.forEach(remove => remove());
+      throw new Error(`Plugin ${plugin.name}: ${error instanceof Error ? error.message : error}`);
+    }
+    return () => unregister.forEach(remove => remove());
+  }
+
+  public getCommands(): CommandDefinition[] {
+    return this.commands;
+  }
+
+  // Look a command up by name or alias, without the slash
+  public find(name: string): CommandDefinition | undefined {
+    const lower = name.toLowerCase();
+    return this.commands.find(command => command.name === lower || command.aliases?.includes(lower));
+  }
+
+  // Commands that can take free text, and so can receive unprefixed input
+  public getDefaultCandidates(): CommandDefinition[] {
+    return this.commands.filter(command => command.rest);
+  }
+
+  // The command unprefixed input goes to, or AUTO_ROUTE
+  public getDefaultCommand(): string {
+    return this.settings.defaultCommand;
+  }
+
+  public setDefaultCommand(name: string): void {
+    if (name !== AUTO_ROUTE && !this.find(name)?.rest) {
+      throw new Error(`/${name} can't take free text, so it can't be the default`);
+    }
+    this.settings = { defaultCommand: name === AUTO_ROUTE ? name : this.find(name).name };
+    routingStore.save(this.settings);
+    this.notify();
+  }
+
+  // Usage line such as "/model [name]"
+  public usage(command: CommandDefinition): string {
+    const args = Object.entries(command.args).map(([name, schema]) => {
+      const label = name === command.rest ? `${name}...` : name;
+      return schema.isOptional() ? `[${label}]` : `<${label}>`;
+    });
+    return [`/${command.name}`, ...args].join(' ');
+  }
+
+  // Work out which command input goes to. "/name args" is explicit; anything
+  // else, including paths like /usr/bin/env, follows the default route.
+  public resolve(input: string): ResolvedInput {
+    const trimmed = input.trim();
+    const explicit = trimmed.match(/^\/([\w-]+)(?=\s|$)/);
+    if (explicit) {
+      const command = this.find(explicit[1]);
+      return command
+        ? { command, argsText: trimmed.slice(explicit[0].length).trim() }
+        : { error: `Unknown command /${explicit[1]}. Type /help to see the available commands.` };
+    }
+
+    const defaultCommand = this.settings.defaultCommand;
+    if (defaultCommand !== AUTO_ROUTE) {
+      const command = this.find(defaultCommand);
+      if (command) {
+        return { command, argsText: trimmed };
+      }
+    }
+
+    for (const command of this.commands) {
+      const argsText = command.matches?.(trimmed);
+      if (argsText !== undefined) {
+        return { command, argsText };
+      }
+    }
+    const fallback = this.find(AUTO_FALLBACK);
+    return fallback
+      ? { command: fallback, argsText: trimmed }
+      : { error: 'No command handles this input. Type /help to see the available commands.' };
+  }
+
+  // Validate argument text against a command's schemas
+  public parseArgs(command: CommandDefinition, argsText: string): BoundCommand | { error: string } {
+    const names = Object.keys(command.args);
+    const words = splitWords(argsText);
+    const values: Record<string, unknown> = {};
+
+    for (const [index, name] of names.entries()) {
+      if (name === command.rest) {
+        const remainder = words[index] ? argsText.slice(words[index].start).trim() : '';
+        values[name] = remainder || undefined;
+        words.length = 0;
+        break;
+      }
+      values[name] = words[index]?.value;
+    }
+    if (words.length > names.length) {
+      return { error: `Too many arguments. Usage: ${this.usage(command)}` };
+    }
+
+    const bound = command.bind(values);
+    if ('error' in bound) {
+      const issue = bound.error.issues[0];
+      const name = issue.path.join('.');
+      return { error: `${issue.message}${name ? ` (${name})` : ''}. Usage: ${this.usage(command)}` };
+    }
+    return bound;
+  }
+
+  // Parse and run input, reporting unknown commands and bad arguments through the context
+  public async execute(input: string, context: CommandContext): Promise<void> {
+    const resolved = this.resolve(input);
+    if (resolved.error) {
+      context.print('error', resolved.error);
+      return;
+    }
+
+    const bound = this.parseArgs(resolved.command, resolved.argsText);
+    if ('error' in bound) {
+      context.print('error', bound.error);
+      return;
+    }
+    await bound.run(context);
+  }
+
+  // Suggestions for the input typed so far: command names, then argument values
+  public async complete(input: string): Promise<Completion[]> {
+    const nameMatch = input.match(/^\/([\w-]*)$/);
+    if (nameMatch) {
+      const prefix = nameMatch[1].toLowerCase();
+      return this.commands
+        .filter(command => [command.name, ...(command.aliases ?? [])].some(name => name.startsWith(prefix)))
+        .map(command => ({ value: `/${command.name} `, label: this.usage(command), description: command.description }));
+    }
+
+    const argsMatch = input.match(/^\/([\w-]+)\s+([\s\S]*)$/);
+    const command = argsMatch && this.find(argsMatch[1]);
+    if (!command) {
+      return [];
+    }
+
+    const argsText = argsMatch[2];
+    const words = splitWords(argsText);
+    const typingWord = words.length > 0 && words[words.length - 1].end === argsText.length;
+    const index = typingWord ? words.length - 1 : words.length;
+    const name = Object.keys(command.args)[index];
+    const completer = name && command.complete?.[name];
+    if (!completer) {
+      return [];
+    }
+
+    const partial = typingWord ? words[index].value : '';
+    const base = input.slice(0, input.length - (typingWord ? argsText.length - words[index].start : 0));
+    const options = await completer(partial);
+    return options
+      .filter(option => option.startsWith(partial) && option !== partial)
+      .map(option => ({
+        value: `${base}${/\s/.test(option) ? `"${option}"` : option} `,
+        label: option,
+        description: command.args[name].description,
+      }));
+  }
+
+  // Subscribe to command or routing changes; returns an unsubscribe function
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new CommandRegistry();
@@ -1,107 +1,190 @@
 
 /**
- * Service to execute and manage commands
- * NOTE: In a web environment, you would need a backend service to actually execute commands
+ * Service to configure and reach the local command bridge (see bridge/server.ts).
+ * Browsers cannot run processes themselves; commands run in the bridge's
+ * terminal sessions through terminalService.ts.
  */
 
-import { detectOS, formatCommand } from '../utils/platformUtils';
+import { z } from 'zod';
+import { detectOS } from '../utils/platformUtils';
+import { extractCommands } from '../utils/commandParser';
+import { createStore } from './storageService';
+import type { ErrorResponse, HealthResponse, WriteFileResponse } from '../../bridge/protocol';
 
-export interface CommandResult {
-  output: string;
+export interface WriteFileResult {
   success: boolean;
+  // Absolute path the file was written to
+  path?: string;
+  error?: string;
+  // The file is already there and was left alone
+  exists?: boolean;
+}
+
+export type SuggestionStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'blocked';
+
+// A command extracted from an AI response, awaiting review
+export interface SuggestedCommand {
+  id: string;
   command: string;
+  status: SuggestionStatus;
+  exitCode?: number;
+}
+
+export interface BridgeConfig {
+  url: string;
+  token: string;
+  workingDirectory: string;
 }
 
+export interface BridgeStatus {
+  available: boolean;
+  error?: string;
+  platform?: string;
+  homeDirectory?: string;
+}
+
+const bridgeStore = createStore<BridgeConfig>({
+  key: 'code-wizard.bridge',
+  version: 1,
+  schema: z.object({
+    url: z.string().url(),
+    token: z.string(),
+    workingDirectory: z.string(),
+  }) as z.ZodType<BridgeConfig, z.ZodTypeDef, unknown>,
+  defaults: () => ({ url: 'http://127.0.0.1:11435', token: '', workingDirectory: '' }),
+});
+
+export const BRIDGE_HELP = "Start it with 'npm run bridge' and paste the token it prints into the Command Bridge settings.";
+
 export class CommandService {
-  private os: 'windows' | 'linux' | 'mac' | 'unknown';
+  private config: BridgeConfig;
+  private status: BridgeStatus = { available: false, error: 'Not checked yet' };
+  private statusListeners = new Set<(status: BridgeStatus) => void>();
   
   constructor() {
-    this.os = detectOS();
+    this.config = bridgeStore.load();
   }
 
-  // Execute a command (simulated in browser context)
-  public async executeCommand(command: string): Promise<CommandResult> {
-    // Format command for the current OS
-    const formattedCommand = formatCommand(command, this.os);
-    
-    console.log(`Would execute on ${this.os}: ${formattedCommand}`);
-    
-    // In a browser context, we'll simulate this.
-    // In a real app with a backend, we would call the backend to execute this command.
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        // Simulate success for common commands
-        if (command.match(/^(ls|dir|cd|echo|cat|type)/i)) {
-          resolve({
-            output: `Simulated output for: ${formattedCommand}\nSuccess!`,
-            success: true,
-            command: formattedCommand
-          });
-        } else if (command.match(/^ollama run/i)) {
-          resolve({
-            output: "Running Ollama model...\nModel loaded successfully.\nReady for queries.",
-            success: true,
-            command: formattedCommand
-          });
-        } else if (command.match(/^ollama pull/i)) {
-          resolve({
-            output: "Pulling model...\nDownload 100% complete\nModel downloaded and ready to use",
-            success: true,
-            command: formattedCommand
-          });
-        } else if (command.match(/^npm|yarn|pnpm/i)) {
-          resolve({
-            output: "Installing packages...\nDone in 3.45s",
-            success: true,
-            command: formattedCommand
-          });
-        } else if (command.match(/^git/i)) {
-          resolve({
-            output: "Simulated git operation completed successfully",
-            success: true,
-            command: formattedCommand
-          });
-        } else {
-          resolve({
-            output: `Command not recognized or cannot be executed in browser environment.\nIn a real application, this would be sent to a backend service.`,
-            success: false,
-            command: formattedCommand
-          });
-        }
-      }, 1000);
-    });
+  // Get the bridge connection settings
+  public getBridgeConfig(): BridgeConfig {
+    return this.config;
   }
 
-  // Parse AI response to extract executable commands
-  public parseCommandsFromAI(response: string): string[] {
-    // Look for commands in code blocks or after command prompts
-    const codeBlockRegex = /```(?:bash|sh|cmd|powershell)?\s*([\s\S]*?)```/g;
-    const commandPromptRegex = /\$\s+(.+)|\>\s+(.+)/g;
-    
-    const commands: string[] = [];
-    
-    // Extract from code blocks
-    let match;
-    while ((match = codeBlockRegex.exec(response)) !== null) {
-      const codeBlock = match[1];
-      // Split by lines and filter out comments and empty lines
-      const lines = codeBlock
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line && !line.startsWith('#') && !line.startsWith('//'));
-      
-      commands.push(...lines);
+  // Update and persist the bridge connection settings
+  public setBridgeConfig(config: Partial<BridgeConfig>): void {
+    this.config = { ...this.config, ...config };
+    bridgeStore.save(this.config);
+  }
+
+  // Directory commands run in; empty means the bridge user's home directory
+  public getWorkingDirectory(): string {
+    return this.config.workingDirectory;
+  }
+
+  public setWorkingDirectory(path: string): void {
+    this.setBridgeConfig({ workingDirectory: path });
+  }
+
+  // A workspace is a working directory on a particular bridge
+  public getWorkspace(): string {
+    return `${this.config.url} ${this.config.workingDirectory || '~'}`;
+  }
+
+  // Last known bridge status
+  public getBridgeStatus(): BridgeStatus {
+    return this.status;
+  }
+
+  // OS of the machine the bridge runs on, falling back to this browser's until the bridge has been reached
+  public getTargetOS(): 'windows' | 'linux' | 'mac' | 'unknown' {
+    switch (this.status.platform) {
+      case 'win32':
+        return 'windows';
+      case 'darwin':
+        return 'mac';
+      case 'linux':
+        return 'linux';
+      default:
+        return detectOS();
     }
-    
-    // Extract from command prompts
-    while ((match = commandPromptRegex.exec(response)) !== null) {
-      const command = match[1] || match[2];
-      if (command) {
-        commands.push(command.trim());
+  }
+
+  // Subscribe to bridge status changes; returns an unsubscribe function
+  public onBridgeStatusChange(listener: (status: BridgeStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // Check that the bridge is reachable and accepts our token
+  public async checkBridge(): Promise<BridgeStatus> {
+    try {
+      const response = await fetch(`${this.config.url}/health`, {
+        headers: this.authHeaders(),
+        signal: AbortSignal.timeout(3000),
+      });
+      if (!response.ok) {
+        const data: ErrorResponse = await response.json().catch(() => ({ error: response.statusText }));
+        this.setStatus({ available: false, error: data.error });
+      } else {
+        const data: HealthResponse = await response.json();
+        this.setStatus({ available: true, platform: data.platform, homeDirectory: data.homeDirectory });
       }
+    } catch (error) {
+      this.setStatus({ available: false, error: `Cannot reach ${this.config.url}` });
+    }
+    return this.status;
+  }
+
+  // Save a file through the bridge; relative paths are taken from the working directory
+  public async writeFile(path: string, content: string, overwrite = false): Promise<WriteFileResult> {
+    if (!this.status.available && !(await this.checkBridge()).available) {
+      return { success: false, error: `Command bridge is not available (${this.status.error}). ${BRIDGE_HELP}` };
     }
-    
-    return commands;
+
+    try {
+      const response = await fetch(`${this.config.url}/files`, {
+        method: 'POST',
+        headers: {
+          ...this.authHeaders(),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          path,
+          content,
+          cwd: this.config.workingDirectory || undefined,
+          overwrite,
+        }),
+      });
+
+      if (!response.ok) {
+        const data: ErrorResponse = await response.json().catch(() => ({ error: response.statusText }));
+        const error = response.status === 404 ? 'This bridge cannot save files; restart it with the current version.' : data.error;
+        return { success: false, error, exists: response.status === 409 };
+      }
+
+      const result: WriteFileResponse = await response.json();
+      return { success: true, path: result.path };
+    } catch (error) {
+      this.setStatus({ available: false, error: `Lost connection to ${this.config.url}` });
+      return { success: false, error: `Command bridge is not available (${this.status.error}). ${BRIDGE_HELP}` };
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.config.token}` };
+  }
+
+  private setStatus(status: BridgeStatus): void {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  // Parse AI response to extract executable commands. Multi-line commands such as
+  // heredocs and continuations are returned whole.
+  public parseCommandsFromAI(response: string): string[] {
+    return extractCommands(response).map(({ command }) => command);
   }
 }
 
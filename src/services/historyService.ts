@@ -0,0 +1,122 @@
+/**
+ * Shell-like history of entered commands, kept per workspace
+ */
+
+import { z } from 'zod';
+import commandService from './commandService';
+import { compilePattern } from './commandPolicyService';
+import { createStore } from './storageService';
+
+interface CommandHistory {
+  // Entries per workspace (bridge URL and working directory), oldest first and without duplicates
+  workspaces: Record<string, string[]>;
+  // Entries matching these are never saved; same pattern format as the command policy
+  excludePatterns: string[];
+}
+
+const MAX_ENTRIES = 500;
+
+export const DEFAULT_EXCLUDE_PATTERNS = [
+  // Anything that looks like it sets a credential
+  '/(password|passwd|secret|token|api[_-]?key)\\w*\\s*[=:]/i',
+];
+
+const historyStore = createStore<CommandHistory>({
+  key: 'code-wizard.command-history',
+  version: 2,
+  schema: z.object({
+    workspaces: z.record(z.array(z.string())),
+    excludePatterns: z.array(z.string()),
+  }) as z.ZodType<CommandHistory, z.ZodTypeDef, unknown>,
+  defaults: () => ({ workspaces: {}, excludePatterns: DEFAULT_EXCLUDE_PATTERNS }),
+  migrations: {
+    // Workspaces were keyed by working directory alone; they now include the
+    // bridge, so existing entries go to the bridge currently configured
+    1: (data) => {
+      const { workspaces, ...rest } = data as CommandHistory;
+      const { url } = commandService.getBridgeConfig();
+      return {
+        ...rest,
+        workspaces: Object.fromEntries(Object.entries(workspaces).map(([directory, entries]) => [`${url} ${directory}`, entries])),
+      };
+    },
+  },
+});
+
+export class HistoryService {
+  private history: CommandHistory;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.history = historyStore.load();
+  }
+
+  // The active workspace's entries, oldest first
+  public getEntries(): string[] {
+    return this.history.workspaces[commandService.getWorkspace()] ?? [];
+  }
+
+  // Whether an entry would be kept out of history. As in bash, a leading space
+  // keeps a one-off entry out without configuring a pattern.
+  public isExcluded(entry: string): boolean {
+    return entry.startsWith(' ') || this.history.excludePatterns.some(pattern => {
+      const regex = pattern.trim() ? compilePattern(pattern) : null;
+      return regex?.test(entry.trim());
+    });
+  }
+
+  // Add an entry, moving it to the end if it was entered before
+  public add(entry: string): void {
+    if (!entry.trim() || this.isExcluded(entry)) {
+      return;
+    }
+    const command = entry.trim();
+    const entries = this.getEntries().filter(existing => existing !== command);
+    this.setEntries([...entries, command].slice(-MAX_ENTRIES));
+  }
+
+  public remove(entry: string): void {
+    this.setEntries(this.getEntries().filter(existing => existing !== entry));
+  }
+
+  // Forget the active workspace's history
+  public clear(): void {
+    this.setEntries([]);
+  }
+
+  public getExcludePatterns(): string[] {
+    return this.history.excludePatterns;
+  }
+
+  // Update the exclusions and drop saved entries that now match them
+  public setExcludePatterns(patterns: string[]): void {
+    this.history = { ...this.history, excludePatterns: patterns };
+    const workspaces = Object.fromEntries(Object.entries(this.history.workspaces)
+      .map(([workspace, entries]) => [workspace, entries.filter(entry => !this.isExcluded(entry))]));
+    this.history = { ...this.history, workspaces };
+    this.save();
+  }
+
+  // Subscribe to history changes; returns an unsubscribe function
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setEntries(entries: string[]): void {
+    this.history = {
+      ...this.history,
+      workspaces: { ...this.history.workspaces, [commandService.getWorkspace()]: entries },
+    };
+    this.save();
+  }
+
+  private save(): void {
+    historyStore.save(this.history);
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new HistoryService();
@@ -0,0 +1,82 @@
+/**
+ * User-configurable keyboard shortcuts for command palette actions
+ */
+
+import { z } from 'zod';
+import { createStore } from './storageService';
+
+// Action ids mapped to their shortcut; actions missing here have none by default
+export const DEFAULT_KEYBINDINGS: Record<string, string> = {
+  'palette.open': 'Mod+K',
+  'tab.commands': 'Alt+1',
+  'tab.code': 'Alt+2',
+  'tab.files': 'Alt+3',
+  'model.choose': 'Alt+M',
+  'profile.choose': 'Alt+P',
+  'ollama.reconnect': 'Alt+R',
+  'output.clear': 'Alt+L',
+  'session.export': 'Alt+E',
+};
+
+// Overrides of the defaults; null removes a default shortcut
+type KeybindingOverrides = Record<string, string | null>;
+
+const keybindingStore = createStore<KeybindingOverrides>({
+  key: 'code-wizard.keybindings',
+  version: 1,
+  schema: z.record(z.string().nullable()) as z.ZodType<KeybindingOverrides, z.ZodTypeDef, unknown>,
+  defaults: () => ({}),
+});
+
+export class KeybindingService {
+  private overrides: KeybindingOverrides;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.overrides = keybindingStore.load();
+  }
+
+  // The shortcut for an action, if it has one
+  public getBinding(actionId: string): string | undefined {
+    const binding = actionId in this.overrides ? this.overrides[actionId] : DEFAULT_KEYBINDINGS[actionId];
+    return binding ?? undefined;
+  }
+
+  // The action a shortcut triggers, if any
+  public getActionFor(binding: string): string | undefined {
+    const actionIds = new Set([...Object.keys(DEFAULT_KEYBINDINGS), ...Object.keys(this.overrides)]);
+    return [...actionIds].find(actionId => this.getBinding(actionId) === binding);
+  }
+
+  // Bind a shortcut, taking it away from any other action; null removes the action's shortcut
+  public setBinding(actionId: string, binding: string | null): void {
+    const previous = binding ? this.getActionFor(binding) : undefined;
+    const overrides = { ...this.overrides, [actionId]: binding };
+    if (previous && previous !== actionId) {
+      overrides[previous] = null;
+    }
+    this.overrides = overrides;
+    this.save();
+  }
+
+  // Restore every default shortcut
+  public resetBindings(): void {
+    this.overrides = {};
+    this.save();
+  }
+
+  // Subscribe to shortcut changes; returns an unsubscribe function
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save(): void {
+    keybindingStore.save(this.overrides);
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new KeybindingService();
@@ -3,7 +3,17 @@
  * Ollama integration service to handle model interactions
  */
 
-interface OllamaOptions {
+import { z } from 'zod';
+import { readNdjson } from '../utils/streamUtils';
+import { SamplingOptions } from './samplingOptions';
+import { settingsStore } from './sessionStore';
+import { createStore } from './storageService';
+import type { ParsedModelfile } from '../utils/modelfileUtils';
+
+// Context length Ollama uses when neither the request nor the Modelfile sets num_ctx
+export const DEFAULT_NUM_CTX = 4096;
+
+export interface OllamaOptions extends SamplingOptions {
   model: string;
   useGPU: boolean;
   temperature: number;
@@ -16,6 +26,91 @@ interface OllamaResponse {
   done: boolean;
 }
 
+// True when an operation was cancelled through its AbortSignal
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ModelInfo {
+  name: string;
+  size: number;
+  digest: string;
+  modifiedAt: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+}
+
+interface OllamaTagsModel {
+  name: string;
+  size: number;
+  digest: string;
+  modified_at: string;
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+export interface ModelDetails {
+  modelfile: string;
+  parameters: string;
+  template: string;
+  system?: string;
+  license?: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+}
+
+export interface RunningModel {
+  name: string;
+  size: number;
+  sizeVram: number;
+  expiresAt: string;
+  parameterSize?: string;
+  quantization?: string;
+}
+
+interface OllamaPsModel {
+  name: string;
+  size: number;
+  size_vram: number;
+  expires_at: string;
+  details?: {
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+export interface PullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+export const DEFAULT_MODEL = 'qwen2.5-coder:14b';
+
+const modelStore = createStore({
+  key: 'code-wizard.model',
+  version: 1,
+  schema: z.string().min(1),
+  defaults: () => DEFAULT_MODEL,
+  migrations: {
+    // Before versioning the model name was stored as a bare string
+    0: (data) => data,
+  },
+});
+
 interface FileContent {
   path: string;
   content: string;
@@ -30,11 +125,14 @@ export class OllamaService {
   private connectionAttempts: number = 0;
   private maxRetries: number = 3;
   private retryDelay: number = 1000;
+  private modelListeners = new Set<(model: string) => void>();
+  private modelListListeners = new Set<() => void>();
 
-  constructor(baseUrl: string = 'http://localhost:11434') {
+  // Starts on the endpoint saved in the settings, so the first connection check goes to the right server
+  constructor(baseUrl: string = settingsStore.load().endpoint) {
     this.baseUrl = baseUrl;
     this.defaultOptions = {
-      model: 'qwen2.5-coder:14b',
+      model: modelStore.load(),
       useGPU: true,
       temperature: 0.2,
       maxTokens: 2048
@@ -71,6 +169,42 @@ export class OllamaService {
     return this.baseUrl;
   }
 
+  // Set the model used when a call does not name one, and remember it across reloads
+  public setModel(model: string): void {
+    if (!model || model === this.defaultOptions.model) {
+      return;
+    }
+
+    this.defaultOptions.model = model;
+    modelStore.save(model);
+    this.modelListeners.forEach(listener => listener(model));
+  }
+
+  // Get the active model
+  public getModel(): string {
+    return this.defaultOptions.model;
+  }
+
+  // Subscribe to active model changes; returns an unsubscribe function
+  public onModelChange(listener: (model: string) => void): () => void {
+    this.modelListeners.add(listener);
+    return () => {
+      this.modelListeners.delete(listener);
+    };
+  }
+
+  // Subscribe to changes in the set of installed models; returns an unsubscribe function
+  public onModelListChange(listener: () => void): () => void {
+    this.modelListListeners.add(listener);
+    return () => {
+      this.modelListListeners.delete(listener);
+    };
+  }
+
+  private notifyModelListChange(): void {
+    this.modelListListeners.forEach(listener => listener());
+  }
+
   // Set current working directory
   public setWorkingDirectory(path: string): void {
     this.currentWorkingDirectory = path;
@@ -82,7 +216,9 @@ export class OllamaService {
   }
 
   // Check if Ollama is running with retry logic
-  public async isOllamaRunning(): Promise<boolean> {
+  public async isOllamaRunning(signal?: AbortSignal): Promise<boolean> {
+    signal?.throwIfAborted();
+
     if (this.connectionAttempts >= this.maxRetries) {
       console.warn(`Reached maximum connection attempts (${this.maxRetries}) to Ollama. Giving up.`);
       this.isRunning = false;
@@ -95,13 +231,20 @@ export class OllamaService {
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+      const forwardAbort = () => controller.abort();
+      signal?.addEventListener('abort', forwardAbort, { once: true });
       
-      const response = await fetch(`${this.baseUrl}/api/tags`, {
-        method: 'GET',
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}/api/tags`, {
+          method: 'GET',
+          signal: controller.signal
+        });
+      } finally {
+        // Also when fetch fails, so neither outlives this attempt
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', forwardAbort);
+      }
       
       this.isRunning = response.status === 200;
       
@@ -114,6 +257,11 @@ export class OllamaService {
       
       return this.isRunning;
     } catch (error) {
+      // A caller-initiated cancel is not a connection failure
+      if (signal?.aborted) {
+        throw signal.reason ?? error;
+      }
+
       console.error('Failed to connect to Ollama:', error);
       
       // If this was an abort error (timeout), log accordingly
@@ -128,89 +276,248 @@ export class OllamaService {
         console.log(`Will retry in ${this.retryDelay}ms...`);
         await new Promise(resolve => setTimeout(resolve, this.retryDelay));
         this.retryDelay *= 2; // Exponential backoff
-        return this.isOllamaRunning();
+        return this.isOllamaRunning(signal);
       }
       
       return false;
     }
   }
 
-  // List available models
-  public async listModels(): Promise<string[]> {
-    if (!await this.isOllamaRunning()) {
+  // List locally available models with their size and quantization details
+  public async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    if (!await this.isOllamaRunning(signal)) {
       throw new Error('Ollama is not running');
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/api/tags`);
-      const data = await response.json();
-      return data.models.map((model: any) => model.name);
+      const response = await fetch(`${this.baseUrl}/api/tags`, { signal });
+      const data: { models: OllamaTagsModel[] } = await response.json();
+      return data.models.map(model => ({
+        name: model.name,
+        size: model.size,
+        digest: model.digest,
+        modifiedAt: model.modified_at,
+        family: model.details?.family,
+        parameterSize: model.details?.parameter_size,
+        quantization: model.details?.quantization_level,
+      }));
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       console.error('Failed to list models:', error);
       return [];
     }
   }
 
   // Check if our required model is available
-  public async isModelAvailable(modelName: string = this.defaultOptions.model): Promise<boolean> {
+  public async isModelAvailable(modelName: string = this.defaultOptions.model, signal?: AbortSignal): Promise<boolean> {
     try {
-      const models = await this.listModels();
-      return models.includes(modelName);
+      const models = await this.listModels(signal);
+      return models.some(model => model.name === modelName);
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       console.error(`Error checking model availability for ${modelName}:`, error);
       return false;
     }
   }
 
   // Reset connection status and attempt new connection
-  public async resetConnection(): Promise<boolean> {
+  public async resetConnection(signal?: AbortSignal): Promise<boolean> {
     console.log("Resetting Ollama connection...");
     this.connectionAttempts = 0;
     this.retryDelay = 1000;
-    return await this.isOllamaRunning();
+    return await this.isOllamaRunning(signal);
   }
 
-  // Pull model if not available
-  public async pullModel(modelName: string = this.defaultOptions.model): Promise<boolean> {
-    if (!await this.isOllamaRunning()) {
+  // Pull a model, reporting each streamed status update.
+  // Throws with Ollama's own message when the pull fails (e.g. an unknown model name).
+  public async pullModel(
+    modelName: string = this.defaultOptions.model,
+    signal?: AbortSignal,
+    onProgress?: (progress: PullProgress) => void
+  ): Promise<void> {
+    if (!await this.isOllamaRunning(signal)) {
       throw new Error('Ollama is not running');
     }
 
-    try {
-      console.log(`Pulling model ${modelName}...`);
-      
-      const response = await fetch(`${this.baseUrl}/api/pull`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: modelName,
-        }),
-      });
-      
-      return response.status === 200;
-    } catch (error) {
-      console.error(`Failed to pull model ${modelName}:`, error);
-      return false;
+    console.log(`Pulling model ${modelName}...`);
+    
+    const response = await fetch(`${this.baseUrl}/api/pull`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        name: modelName,
+        stream: true,
+      }),
+      signal,
+    });
+    
+    if (!response.body) {
+      throw new Error(`Pull failed with status ${response.status}`);
+    }
+
+    // Ollama streams status lines until the pull finishes with "success"
+    let status = '';
+    for await (const data of readNdjson<PullProgress>(response.body, signal)) {
+      status = data.status;
+      onProgress?.(data);
     }
+    
+    if (!response.ok || status !== 'success') {
+      throw new Error(`Pull of ${modelName} did not complete${status ? ` (last status: ${status})` : ''}`);
+    }
+
+    this.notifyModelListChange();
+  }
+
+  // Create a custom model from a parsed Modelfile, reporting each streamed status update
+  public async createModel(
+    modelName: string,
+    modelfile: ParsedModelfile,
+    signal?: AbortSignal,
+    onProgress?: (progress: PullProgress) => void
+  ): Promise<void> {
+    if (!await this.isOllamaRunning(signal)) {
+      throw new Error('Ollama is not running');
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/create`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: modelName,
+        from: modelfile.from,
+        system: modelfile.system,
+        template: modelfile.template,
+        license: modelfile.license,
+        parameters: modelfile.parameters,
+        messages: modelfile.messages.length > 0 ? modelfile.messages : undefined,
+        stream: true,
+      }),
+      signal,
+    });
+
+    if (!response.body) {
+      throw new Error(`Create failed with status ${response.status}`);
+    }
+
+    let status = '';
+    for await (const data of readNdjson<PullProgress>(response.body, signal)) {
+      status = data.status;
+      onProgress?.(data);
+    }
+
+    if (!response.ok || status !== 'success') {
+      throw new Error(`Creating ${modelName} did not complete${status ? ` (last status: ${status})` : ''}`);
+    }
+
+    this.notifyModelListChange();
   }
 
   // Ensure the model is available, pulling if necessary
-  public async ensureModelAvailable(modelName: string = this.defaultOptions.model): Promise<boolean> {
-    if (await this.isModelAvailable(modelName)) {
+  public async ensureModelAvailable(modelName: string = this.defaultOptions.model, signal?: AbortSignal): Promise<boolean> {
+    if (await this.isModelAvailable(modelName, signal)) {
       return true;
     }
     
-    return await this.pullModel(modelName);
+    try {
+      await this.pullModel(modelName, signal);
+      return true;
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      console.error(`Failed to pull model ${modelName}:`, error);
+      return false;
+    }
+  }
+
+  // Show a model's Modelfile, parameters and template
+  public async showModel(modelName: string, signal?: AbortSignal): Promise<ModelDetails> {
+    const response = await fetch(`${this.baseUrl}/api/show`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: modelName }),
+      signal,
+    });
+    await this.ensureOk(response, `Could not show ${modelName}`);
+
+    const data = await response.json();
+    return {
+      modelfile: data.modelfile ?? '',
+      parameters: data.parameters ?? '',
+      template: data.template ?? '',
+      system: data.system,
+      license: data.license,
+      family: data.details?.family,
+      parameterSize: data.details?.parameter_size,
+      quantization: data.details?.quantization_level,
+    };
+  }
+
+  // Delete a model from local storage
+  public async deleteModel(modelName: string, signal?: AbortSignal): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/delete`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: modelName }),
+      signal,
+    });
+    await this.ensureOk(response, `Could not delete ${modelName}`);
+    this.notifyModelListChange();
+  }
+
+  // Copy a model under a new name, e.g. to create an alias
+  public async copyModel(source: string, destination: string, signal?: AbortSignal): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/copy`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ source, destination }),
+      signal,
+    });
+    await this.ensureOk(response, `Could not copy ${source} to ${destination}`);
+    this.notifyModelListChange();
+  }
+
+  // List models currently loaded in memory
+  public async listRunningModels(signal?: AbortSignal): Promise<RunningModel[]> {
+    const response = await fetch(`${this.baseUrl}/api/ps`, { signal });
+    await this.ensureOk(response, 'Could not list running models');
+
+    const data: { models: OllamaPsModel[] } = await response.json();
+    return data.models.map(model => ({
+      name: model.name,
+      size: model.size,
+      sizeVram: model.size_vram,
+      expiresAt: model.expires_at,
+      parameterSize: model.details?.parameter_size,
+      quantization: model.details?.quantization_level,
+    }));
   }
 
   // Analyze a file or folder structure
   public async analyzeFilesOrFolders(
     paths: string[],
-    options: Partial<OllamaOptions> = {}
+    options: Partial<OllamaOptions> = {},
+    signal?: AbortSignal
   ): Promise<string> {
-    if (!await this.isOllamaRunning()) {
+    if (!await this.isOllamaRunning(signal)) {
       throw new Error('Ollama is not running');
     }
 
@@ -224,15 +531,16 @@ export class OllamaService {
 
     const prompt = `Analyze the following files and directories:\n\n${fileContentString}\n\nProvide insights, potential improvements, and code quality assessment.`;
     
-    return this.generateCompletion(prompt, options);
+    return this.generateCompletion(prompt, options, signal);
   }
 
   // Generate code completion
   public async generateCompletion(
     prompt: string, 
-    options: Partial<OllamaOptions> = {}
+    options: Partial<OllamaOptions> = {},
+    signal?: AbortSignal
   ): Promise<string> {
-    if (!await this.isOllamaRunning()) {
+    if (!await this.isOllamaRunning(signal)) {
       throw new Error('Ollama is not running');
     }
 
@@ -250,30 +558,32 @@ export class OllamaService {
         body: JSON.stringify({
           model: modelOptions.model,
           prompt: prompt,
-          temperature: modelOptions.temperature,
-          max_tokens: modelOptions.maxTokens,
-          options: {
-            num_gpu: modelOptions.useGPU ? 1 : 0,
-          },
+          options: this.buildRequestOptions(modelOptions),
           stream: false,
         }),
+        signal,
       });
 
       const data = await response.json();
       return data.response;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Failed to generate completion:', error);
       return `Error generating code: ${error}`;
     }
   }
 
-  // Stream completions for a more interactive experience
+  // Stream completions for a more interactive experience. `onChunk` only ever
+  // hears model output; failures reject the returned promise instead.
   public async streamCompletion(
     prompt: string, 
     options: Partial<OllamaOptions> = {},
-    onChunk: (chunk: string, done: boolean) => void
+    onChunk: (chunk: string, done: boolean) => void,
+    signal?: AbortSignal
   ): Promise<void> {
-    if (!await this.isOllamaRunning()) {
+    if (!await this.isOllamaRunning(signal)) {
       throw new Error('Ollama is not running');
     }
 
@@ -291,55 +601,166 @@ export class OllamaService {
         body: JSON.stringify({
           model: modelOptions.model,
           prompt: prompt,
-          temperature: modelOptions.temperature,
-          max_tokens: modelOptions.maxTokens,
-          options: {
-            num_gpu: modelOptions.useGPU ? 1 : 0,
-          },
+          options: this.buildRequestOptions(modelOptions),
           stream: true,
         }),
+        signal,
       });
 
-      const reader = response.body?.getReader();
-      if (!reader) {
+      if (!response.body) {
         throw new Error('Response body is null');
       }
 
-      const decoder = new TextDecoder();
-      let done = false;
+      for await (const data of readNdjson<{ response: string; done: boolean }>(response.body, signal)) {
+        onChunk(data.response, data.done);
+        if (data.done) {
+          return;
+        }
+      }
 
-      while (!done) {
-        const { value, done: doneReading } = await reader.read();
-        done = doneReading;
+      // The stream ended without a final done message
+      onChunk('', true);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Failed to stream completion:', error);
+      }
+      throw error;
+    }
+  }
 
-        if (done) {
-          onChunk('', true);
-          break;
-        }
+  // Send a multi-turn conversation to /api/chat and return the assistant reply
+  public async chat(
+    messages: ChatMessage[],
+    options: Partial<OllamaOptions> = {},
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (!await this.isOllamaRunning(signal)) {
+      throw new Error('Ollama is not running');
+    }
+
+    const modelOptions = {
+      ...this.defaultOptions,
+      ...options
+    };
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: modelOptions.model,
+          messages,
+          options: this.buildRequestOptions(modelOptions),
+          stream: false,
+        }),
+        signal,
+      });
+
+      const data = await response.json();
+      return data.message?.content ?? '';
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error('Failed to chat:', error);
+      return `Error generating response: ${error}`;
+    }
+  }
+
+  // Stream a multi-turn conversation from /api/chat. `onChunk` only ever hears
+  // model output; failures reject the returned promise instead.
+  public async streamChat(
+    messages: ChatMessage[],
+    options: Partial<OllamaOptions> = {},
+    onChunk: (chunk: string, done: boolean) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!await this.isOllamaRunning(signal)) {
+      throw new Error('Ollama is not running');
+    }
+
+    const modelOptions = {
+      ...this.defaultOptions,
+      ...options
+    };
 
-        const chunk = decoder.decode(value);
-        try {
-          // Each line is a separate JSON object
-          const lines = chunk.split('\n').filter(line => line.trim());
-          for (const line of lines) {
-            const data = JSON.parse(line);
-            onChunk(data.response, data.done);
-            if (data.done) {
-              done = true;
-              break;
-            }
-          }
-        } catch (e) {
-          // If parsing fails, just return the raw chunk
-          onChunk(chunk, false);
+    try {
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: modelOptions.model,
+          messages,
+          options: this.buildRequestOptions(modelOptions),
+          stream: true,
+        }),
+        signal,
+      });
+
+      if (!response.body) {
+        throw new Error('Response body is null');
+      }
+
+      for await (const data of readNdjson<{ message?: ChatMessage; done: boolean }>(response.body, signal)) {
+        onChunk(data.message?.content ?? '', data.done);
+        if (data.done) {
+          return;
         }
       }
+
+      // The stream ended without a final done message
+      onChunk('', true);
     } catch (error) {
-      console.error('Failed to stream completion:', error);
-      onChunk(`Error: ${error}`, true);
+      if (!isAbortError(error)) {
+        console.error('Failed to stream chat:', error);
+      }
+      throw error;
     }
   }
 
+  // Map our options onto the `options` object Ollama reads sampling parameters from
+  private buildRequestOptions(modelOptions: OllamaOptions): Record<string, unknown> {
+    const options: Record<string, unknown> = {
+      temperature: modelOptions.temperature,
+      num_predict: modelOptions.maxTokens,
+      // Leaving num_gpu unset lets Ollama offload as many layers as fit; 0 forces CPU
+      num_gpu: modelOptions.useGPU ? undefined : 0,
+      top_p: modelOptions.topP,
+      top_k: modelOptions.topK,
+      min_p: modelOptions.minP,
+      repeat_penalty: modelOptions.repeatPenalty,
+      seed: modelOptions.seed,
+      num_ctx: modelOptions.numCtx,
+      num_thread: modelOptions.numThread,
+      stop: modelOptions.stop && modelOptions.stop.length > 0 ? modelOptions.stop : undefined,
+    };
+
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  }
+
+  // Throw with Ollama's error message when a request was rejected
+  private async ensureOk(response: Response, context: string): Promise<void> {
+    if (response.ok) {
+      return;
+    }
+
+    let message = `${response.status} ${response.statusText}`;
+    try {
+      const data = await response.json();
+      if (data?.error) {
+        message = data.error;
+      }
+    } catch {
+      // Body was not JSON, keep the status text
+    }
+
+    throw new Error(`${context}: ${message}`);
+  }
+
   // Simulate file system access (would be replaced with actual backend service)
   private simulateFileContents(paths: string[]): FileContent[] {
     const sampleContents: FileContent[] = [];
@@ -0,0 +1,205 @@
+/**
+ * Named settings profiles that bundle a model, sampling options, system prompt and endpoint
+ */
+
+import { z } from 'zod';
+import { SamplingOptions, samplingOptionsSchema } from './samplingOptions';
+import { createStore } from './storageService';
+
+export type WizardTab = 'commands' | 'code' | 'files';
+
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  // Unset model or endpoint keeps whatever is currently active
+  model?: string;
+  endpoint?: string;
+  temperature: number;
+  maxTokens: number;
+  sampling: SamplingOptions;
+  systemPrompt: string;
+}
+
+export const DEFAULT_SYSTEM_PROMPT = "You are Code Wizard, a local coding assistant. Answer concisely, put code in fenced blocks tagged with their language, and use ```bash blocks for shell commands the user should run.";
+
+const EXPORT_VERSION = 1;
+
+const profileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  model: z.string().min(1).optional(),
+  endpoint: z.string().url().optional(),
+  temperature: z.number().min(0).max(2),
+  maxTokens: z.number().int().min(1),
+  sampling: samplingOptionsSchema.default({}),
+  systemPrompt: z.string().default(DEFAULT_SYSTEM_PROMPT),
+});
+
+const exportSchema = z.object({
+  version: z.literal(EXPORT_VERSION),
+  profiles: z.array(profileSchema),
+});
+
+const BUILT_IN_PROFILES: SettingsProfile[] = [
+  {
+    id: 'precise-refactor',
+    name: 'Precise refactor',
+    temperature: 0.1,
+    maxTokens: 4096,
+    sampling: { topP: 0.9, repeatPenalty: 1.1 },
+    systemPrompt: "You are Code Wizard, a careful refactoring assistant. Preserve behaviour exactly, keep the existing style, show complete changed code in fenced blocks tagged with their language, and explain each change in one line.",
+  },
+  {
+    id: 'brainstorm',
+    name: 'Brainstorm',
+    temperature: 0.9,
+    maxTokens: 2048,
+    sampling: { topP: 0.95, topK: 60 },
+    systemPrompt: "You are Code Wizard, a creative engineering partner. Offer several distinct approaches with their trade-offs before recommending one. Keep code sketches short.",
+  },
+  {
+    id: 'shell-helper',
+    name: 'Shell helper',
+    temperature: 0.2,
+    maxTokens: 1024,
+    sampling: {},
+    systemPrompt: "You are Code Wizard, a shell expert. Answer with the exact commands to run in ```bash blocks, one command per line, followed by a one-sentence explanation. Warn before anything destructive.",
+  },
+];
+
+const DEFAULT_TAB_PROFILES: Partial<Record<WizardTab, string>> = {
+  commands: 'shell-helper',
+  code: 'precise-refactor',
+};
+
+const profilesStore = createStore({
+  key: 'code-wizard.profiles',
+  version: 1,
+  schema: z.array(profileSchema) as z.ZodType<SettingsProfile[], z.ZodTypeDef, unknown>,
+  defaults: () => BUILT_IN_PROFILES,
+  migrations: {
+    // Profiles were first stored as a bare array
+    0: (data) => data,
+  },
+});
+
+const tabProfilesStore = createStore({
+  key: 'code-wizard.tab-profiles',
+  version: 1,
+  schema: z.record(z.string()) as z.ZodType<Partial<Record<WizardTab, string>>, z.ZodTypeDef, unknown>,
+  defaults: () => DEFAULT_TAB_PROFILES,
+  migrations: {
+    0: (data) => data,
+  },
+});
+
+export class ProfileService {
+  private profiles: SettingsProfile[];
+  private tabProfiles: Partial<Record<WizardTab, string>>;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.profiles = profilesStore.load();
+    this.tabProfiles = tabProfilesStore.load();
+  }
+
+  // List all profiles
+  public getProfiles(): SettingsProfile[] {
+    return this.profiles;
+  }
+
+  // Look up a profile by id
+  public getProfile(id: string): SettingsProfile | undefined {
+    return this.profiles.find(profile => profile.id === id);
+  }
+
+  // Create or replace a profile
+  public saveProfile(profile: SettingsProfile): void {
+    const exists = this.profiles.some(existing => existing.id === profile.id);
+    this.profiles = exists
+      ? this.profiles.map(existing => existing.id === profile.id ? profile : existing)
+      : [...this.profiles, profile];
+    this.persist();
+  }
+
+  // Delete a profile, clearing any tab that defaulted to it
+  public deleteProfile(id: string): void {
+    this.profiles = this.profiles.filter(profile => profile.id !== id);
+    for (const tab of Object.keys(this.tabProfiles) as WizardTab[]) {
+      if (this.tabProfiles[tab] === id) {
+        delete this.tabProfiles[tab];
+      }
+    }
+    this.persist();
+  }
+
+  // Get the profile a tab switches to when first opened
+  public getTabProfile(tab: WizardTab): SettingsProfile | undefined {
+    const id = this.tabProfiles[tab];
+    return id ? this.getProfile(id) : undefined;
+  }
+
+  // Set or clear the default profile for a tab
+  public setTabProfile(tab: WizardTab, id: string | null): void {
+    if (id) {
+      this.tabProfiles = { ...this.tabProfiles, [tab]: id };
+    } else {
+      const { [tab]: _removed, ...rest } = this.tabProfiles;
+      this.tabProfiles = rest;
+    }
+    this.persist();
+  }
+
+  // Generate an id for a new profile from its name
+  public createProfileId(name: string): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+    let id = base;
+    for (let i = 2; this.getProfile(id); i++) {
+      id = `${base}-${i}`;
+    }
+    return id;
+  }
+
+  // Serialize every profile as a JSON document for sharing
+  public exportProfiles(): string {
+    return JSON.stringify({ version: EXPORT_VERSION, profiles: this.profiles }, null, 2);
+  }
+
+  // Merge profiles from an exported JSON document; returns how many were imported.
+  // Throws with a readable message when the document is not a valid export.
+  public importProfiles(json: string): number {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+
+    const result = exportSchema.safeParse(data);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Invalid profile file: ${issue.path.join('.') || 'root'} ${issue.message}`);
+    }
+
+    for (const profile of result.data.profiles) {
+      this.saveProfile(profile as SettingsProfile);
+    }
+    return result.data.profiles.length;
+  }
+
+  // Subscribe to profile or tab default changes; returns an unsubscribe function
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private persist(): void {
+    profilesStore.save(this.profiles);
+    tabProfilesStore.save(this.tabProfiles);
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new ProfileService();
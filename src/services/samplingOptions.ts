@@ -0,0 +1,28 @@
+/**
+ * Sampling parameters passed through to Ollama, shared by the service, profiles and saved settings
+ */
+
+import { z } from 'zod';
+
+// Sampling options left undefined fall back to the model's own Modelfile defaults
+export interface SamplingOptions {
+  topP?: number;
+  topK?: number;
+  minP?: number;
+  repeatPenalty?: number;
+  seed?: number;
+  numCtx?: number;
+  numThread?: number;
+  stop?: string[];
+}
+
+export const samplingOptionsSchema: z.ZodType<SamplingOptions> = z.object({
+  topP: z.number().min(0).max(1).optional(),
+  topK: z.number().int().min(0).optional(),
+  minP: z.number().min(0).max(1).optional(),
+  repeatPenalty: z.number().min(0).max(2).optional(),
+  seed: z.number().int().optional(),
+  numCtx: z.number().int().min(1).optional(),
+  numThread: z.number().int().min(1).optional(),
+  stop: z.array(z.string()).optional(),
+});
@@ -0,0 +1,77 @@
+/**
+ * Prompts saved for reuse from the command palette
+ */
+
+import { z } from 'zod';
+import { createStore } from './storageService';
+
+export interface SavedPrompt {
+  id: string;
+  name: string;
+  prompt: string;
+}
+
+const savedPromptStore = createStore<SavedPrompt[]>({
+  key: 'code-wizard.saved-prompts',
+  version: 1,
+  schema: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    prompt: z.string(),
+  })) as z.ZodType<SavedPrompt[], z.ZodTypeDef, unknown>,
+  defaults: () => [],
+});
+
+// Long prompts are named after their first line, shortened
+const MAX_NAME_LENGTH = 60;
+
+export class SavedPromptService {
+  private prompts: SavedPrompt[];
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.prompts = savedPromptStore.load();
+  }
+
+  public getPrompts(): SavedPrompt[] {
+    return this.prompts;
+  }
+
+  // Save a prompt, returning the existing entry if the same text was saved before
+  public savePrompt(prompt: string, name?: string): SavedPrompt {
+    const existing = this.prompts.find(saved => saved.prompt === prompt);
+    if (existing) {
+      return existing;
+    }
+
+    const firstLine = prompt.trim().split('\n')[0];
+    const saved: SavedPrompt = {
+      id: `prompt-${Date.now()}`,
+      name: name || (firstLine.length > MAX_NAME_LENGTH ? `${firstLine.slice(0, MAX_NAME_LENGTH - 1)}…` : firstLine),
+      prompt,
+    };
+    this.prompts = [...this.prompts, saved];
+    this.save();
+    return saved;
+  }
+
+  public deletePrompt(id: string): void {
+    this.prompts = this.prompts.filter(saved => saved.id !== id);
+    this.save();
+  }
+
+  // Subscribe to saved prompt changes; returns an unsubscribe function
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save(): void {
+    savedPromptStore.save(this.prompts);
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new SavedPromptService();
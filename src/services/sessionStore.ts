@@ -0,0 +1,162 @@
+/**
+ * Persisted model settings and Code Wizard session state
+ */
+
+import { z } from 'zod';
+import type { ChatMessage } from './ollamaService';
+import type { SuggestedCommand } from './commandService';
+import { SamplingOptions, samplingOptionsSchema } from './samplingOptions';
+import { DEFAULT_SYSTEM_PROMPT, WizardTab } from './profileService';
+import { createStore } from './storageService';
+
+// Older entries are dropped so the session fits comfortably in localStorage
+const MAX_STORED_OUTPUT = 500;
+
+const WIZARD_TABS: WizardTab[] = ['commands', 'code', 'files'];
+
+// Declared by hand: with strictNullChecks off, z.infer would make every field optional
+export interface StoredSettings {
+  temperature: number;
+  useGPU: boolean;
+  maxTokens: number;
+  endpoint: string;
+  isRemoteServer: boolean;
+  sampling: SamplingOptions;
+  systemPrompt: string;
+  activeProfileId: string | null;
+}
+
+// Output of one tab, sent to another for its AI conversation to use
+export interface SharedContext {
+  id: string;
+  from: WizardTab;
+  label: string;
+  content: string;
+}
+
+// What each tab keeps for itself: its log, its chat with the model and context sent from other tabs
+export interface StoredTranscript {
+  output: {
+    id?: string;
+    type: 'command' | 'response' | 'error' | 'info';
+    content: string;
+    timestamp: Date;
+    interrupted?: boolean;
+    // Commands suggested by an AI response, and the response a command came from
+    suggestions?: SuggestedCommand[];
+    sourceId?: string;
+    preformatted?: boolean;
+  }[];
+  conversation: ChatMessage[];
+  context: SharedContext[];
+}
+
+export interface StoredSession {
+  activeTab: WizardTab;
+  transcripts: Record<WizardTab, StoredTranscript>;
+}
+
+const settingsSchema = z.object({
+  temperature: z.number().min(0).max(2),
+  useGPU: z.boolean(),
+  maxTokens: z.number().int().min(1),
+  endpoint: z.string().min(1),
+  isRemoteServer: z.boolean().default(false),
+  sampling: samplingOptionsSchema.default({}),
+  systemPrompt: z.string().default(DEFAULT_SYSTEM_PROMPT),
+  activeProfileId: z.string().nullable().default(null),
+});
+
+export const DEFAULT_SETTINGS: StoredSettings = {
+  temperature: 0.2,
+  useGPU: true,
+  maxTokens: 2048,
+  endpoint: 'http://localhost:11434',
+  isRemoteServer: false,
+  sampling: {},
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  activeProfileId: null,
+};
+
+export const settingsStore = createStore<StoredSettings>({
+  key: 'code-wizard.settings',
+  version: 1,
+  schema: settingsSchema as z.ZodType<StoredSettings, z.ZodTypeDef, unknown>,
+  defaults: () => DEFAULT_SETTINGS,
+});
+
+const tabSchema = z.enum(['commands', 'code', 'files']);
+
+const transcriptSchema = z.object({
+  output: z.array(z.object({
+    id: z.string().optional(),
+    type: z.enum(['command', 'response', 'error', 'info']),
+    content: z.string(),
+    // Dates are serialized as ISO strings
+    timestamp: z.coerce.date(),
+    interrupted: z.boolean().optional(),
+    suggestions: z.array(z.object({
+      id: z.string(),
+      command: z.string(),
+      // A run cut short by a reload is offered again
+      status: z.enum(['pending', 'running', 'succeeded', 'failed', 'skipped', 'blocked'])
+        .transform(status => status === 'running' ? 'pending' : status),
+      exitCode: z.number().optional(),
+    })).optional(),
+    sourceId: z.string().optional(),
+    preformatted: z.boolean().optional(),
+  })),
+  conversation: z.array(z.object({
+    role: z.enum(['system', 'user', 'assistant']),
+    content: z.string(),
+  })),
+  context: z.array(z.object({
+    id: z.string(),
+    from: tabSchema,
+    label: z.string(),
+    content: z.string(),
+  })).default([]),
+});
+
+const sessionSchema = z.object({
+  activeTab: tabSchema,
+  transcripts: z.object({
+    commands: transcriptSchema,
+    code: transcriptSchema,
+    files: transcriptSchema,
+  }),
+});
+
+const emptyTranscript = (): StoredTranscript => ({ output: [], conversation: [], context: [] });
+
+const emptyTranscripts = (): Record<WizardTab, StoredTranscript> => ({
+  commands: emptyTranscript(),
+  code: emptyTranscript(),
+  files: emptyTranscript(),
+});
+
+const baseSessionStore = createStore<StoredSession>({
+  key: 'code-wizard.session',
+  version: 2,
+  schema: sessionSchema as z.ZodType<StoredSession, z.ZodTypeDef, unknown>,
+  defaults: () => ({ activeTab: 'commands', transcripts: emptyTranscripts() }),
+  migrations: {
+    // All tabs shared one log and conversation; they now belong to the tab that was open
+    1: (data) => {
+      const { activeTab, output, conversation } = data as { activeTab: WizardTab; output: unknown[]; conversation: unknown[] };
+      const tab = WIZARD_TABS.includes(activeTab) ? activeTab : 'commands';
+      return { activeTab: tab, transcripts: { ...emptyTranscripts(), [tab]: { output, conversation, context: [] } } };
+    },
+  },
+});
+
+export const sessionStore = {
+  ...baseSessionStore,
+  save: (session: StoredSession) => baseSessionStore.save({
+    ...session,
+    transcripts: Object.fromEntries(WIZARD_TABS.map(tab => [tab, {
+      ...session.transcripts[tab],
+      output: session.transcripts[tab].output.slice(-MAX_STORED_OUTPUT),
+    }])) as Record<WizardTab, StoredTranscript>,
+  }),
+};
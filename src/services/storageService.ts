@@ -0,0 +1,117 @@
+/**
+ * Versioned, schema-validated persistence on top of localStorage
+ */
+
+import { z } from 'zod';
+
+interface StoreOptions<T> {
+  key: string;
+  version: number;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  defaults: () => T;
+  // migrations[n] upgrades data saved at version n to version n + 1.
+  // Version 0 is whatever was stored before the key was versioned.
+  migrations?: Record<number, (data: unknown) => unknown>;
+}
+
+export interface Store<T> {
+  load(): T;
+  save(value: T): void;
+  clear(): void;
+}
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+const isEnvelope = (value: unknown): value is Envelope => {
+  return !!value && typeof value === 'object' && typeof (value as Envelope).version === 'number' && 'data' in value;
+};
+
+export const createStore = <T>({ key, version, schema, defaults, migrations = {} }: StoreOptions<T>): Store<T> => {
+  // Keep unreadable data around instead of silently overwriting it
+  const backUp = (raw: string, reason: string) => {
+    console.warn(`Discarding stored ${key} (${reason}); a copy was kept in ${key}.backup`);
+    try {
+      localStorage.setItem(`${key}.backup`, raw);
+    } catch {
+      // Storage is full or unavailable; nothing more we can do
+    }
+  };
+
+  const load = (): T => {
+    let raw: string | null;
+    try {
+      raw = localStorage.getItem(key);
+    } catch (error) {
+      console.warn(`Could not read ${key}:`, error);
+      return defaults();
+    }
+
+    if (raw === null) {
+      return defaults();
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      // Plain strings were stored unencoded before versioning
+      parsed = raw;
+    }
+
+    let storedVersion = 0;
+    let data = parsed;
+    if (isEnvelope(parsed)) {
+      storedVersion = parsed.version;
+      data = parsed.data;
+    }
+
+    if (storedVersion > version) {
+      backUp(raw, `saved by a newer version (${storedVersion} > ${version})`);
+      return defaults();
+    }
+
+    for (let v = storedVersion; v < version; v++) {
+      const migrate = migrations[v];
+      if (!migrate) {
+        backUp(raw, `no migration from version ${v}`);
+        return defaults();
+      }
+      try {
+        data = migrate(data);
+      } catch (error) {
+        backUp(raw, `migration from version ${v} failed: ${error}`);
+        return defaults();
+      }
+    }
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      backUp(raw, `failed validation: ${result.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+      return defaults();
+    }
+
+    // Persist the upgraded shape so migrations only run once
+    if (storedVersion !== version) {
+      save(result.data);
+    }
+
+    return result.data;
+  };
+
+  const save = (value: T): void => {
+    try {
+      localStorage.setItem(key, JSON.stringify({ version, data: value }));
+    } catch (error) {
+      console.warn(`Could not save ${key}:`, error);
+    }
+  };
+
+  const clear = (): void => {
+    localStorage.removeItem(key);
+  };
+
+  return { load, save, clear };
+};
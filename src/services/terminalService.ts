@@ -0,0 +1,288 @@
+/**
+ * Persistent terminal sessions on the local command bridge, one per workspace.
+ * Commands run in a real shell, so `cd` and environment changes carry over,
+ * and their output streams back over the bridge WebSocket while they run.
+ */
+
+import { formatCommand } from '../utils/platformUtils';
+import type { CommandTranslation } from '../utils/commandTranslation';
+import commandService, { BRIDGE_HELP } from './commandService';
+import type { ClientMessage, ServerMessage } from '../../bridge/protocol';
+
+export interface TerminalResult {
+  command: string;
+  exitCode: number;
+  durationMs: number;
+  // Working directory after the command, reflecting any `cd`
+  cwd: string;
+}
+
+export interface TerminalState {
+  busy: boolean;
+  cwd: string | null;
+}
+
+interface PendingCommand {
+  sessionId: string;
+  command: string;
+  onOutput: (data: string) => void;
+  resolve: (result: TerminalResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface SessionState {
+  // Bridge URL and working directory the session was opened for
+  workspace: string;
+  ready: Promise<void>;
+  resolveReady: () => void;
+  rejectReady: (error: Error) => void;
+  cwd: string | null;
+  runningId: string | null;
+}
+
+export class TerminalService {
+  private socket: Promise<WebSocket> | null = null;
+  // Bridge URL and token the socket was opened with
+  private socketConfig: string | null = null;
+  // Keyed by the session id sent to the bridge
+  private sessions = new Map<string, SessionState>();
+  private commands = new Map<string, PendingCommand>();
+  private listeners = new Set<(state: TerminalState) => void>();
+  private nextId = 1;
+
+  // Session id of the active workspace, if it has a session
+  private getSessionId(): string | undefined {
+    const workspace = commandService.getWorkspace();
+    return Array.from(this.sessions.entries()).find(([, session]) => session.workspace === workspace)?.[0];
+  }
+
+  // Busy flag and current directory of the active workspace's session
+  public getState(): TerminalState {
+    const session = this.sessions.get(this.getSessionId());
+    return { busy: !!session?.runningId, cwd: session?.cwd ?? null };
+  }
+
+  // Subscribe to session state changes; returns an unsubscribe function
+  public onStateChange(listener: (state: TerminalState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Translate a POSIX command for the session shell, which is PowerShell on Windows
+  public translate(command: string): CommandTranslation {
+    return formatCommand(command, commandService.getTargetOS(), 'powershell');
+  }
+
+  // Run a command as written in the workspace's session, streaming its output as it arrives.
+  // Aborting sends Ctrl-C; the promise still resolves once the shell reports the exit status.
+  public async run(command: string, onOutput: (data: string) => void, signal?: AbortSignal): Promise<TerminalResult> {
+    signal?.throwIfAborted();
+    const [sessionId, session] = await this.openSession();
+    await session.ready;
+    signal?.throwIfAborted();
+
+    if (session.runningId) {
+      throw new Error('A command is already running in this workspace');
+    }
+
+    const id = `cmd-${this.nextId++}`;
+    const result = new Promise<TerminalResult>((resolve, reject) => {
+      this.commands.set(id, { sessionId, command, onOutput, resolve, reject });
+    });
+    session.runningId = id;
+
+    const sent = this.send({ type: 'session-run', sessionId, id, command });
+    sent.catch((error) => {
+      this.commands.get(id)?.reject(error);
+      this.commands.delete(id);
+      this.updateSession(sessionId, { runningId: null });
+    });
+    // Listening from the moment the command is sent means an early abort isn't missed;
+    // the interrupt follows the command so the shell sees them in order
+    const onAbort = () => {
+      sent.then(() => this.send({ type: 'session-interrupt', sessionId })).catch(() => undefined);
+    };
+    signal?.addEventListener('abort', onAbort);
+    this.notify();
+
+    try {
+      return await result;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Send text to the standard input of the running command
+  public async sendInput(data: string): Promise<void> {
+    const sessionId = this.getSessionId();
+    if (sessionId) {
+      await this.send({ type: 'session-input', sessionId, data });
+    }
+  }
+
+  // Send Ctrl-C to the running command
+  public async interrupt(): Promise<void> {
+    const sessionId = this.getSessionId();
+    if (sessionId) {
+      await this.send({ type: 'session-interrupt', sessionId });
+    }
+  }
+
+  // Close the active workspace's shell; the next command starts a fresh one
+  public async closeSession(): Promise<void> {
+    const sessionId = this.getSessionId();
+    if (sessionId) {
+      await this.send({ type: 'session-close', sessionId });
+    }
+  }
+
+  // Find or open the active workspace's session
+  private openSession(): Promise<[string, SessionState]> {
+    const existingId = this.getSessionId();
+    if (existingId) {
+      return Promise.resolve([existingId, this.sessions.get(existingId)]);
+    }
+
+    let resolveReady: () => void;
+    let rejectReady: (error: Error) => void;
+    const ready = new Promise<void>((resolve, reject) => {
+      resolveReady = resolve;
+      rejectReady = reject;
+    });
+    // Failures are reported through run(); don't flag them as unhandled meanwhile
+    ready.catch(() => undefined);
+    const sessionId = `session-${this.nextId++}`;
+    const session: SessionState = { workspace: commandService.getWorkspace(), ready, resolveReady, rejectReady, cwd: null, runningId: null };
+    this.sessions.set(sessionId, session);
+
+    return this.send({
+      type: 'session-open',
+      sessionId,
+      cwd: commandService.getWorkingDirectory() || undefined,
+    }).then(
+      (): [string, SessionState] => [sessionId, session],
+      (error) => {
+        this.sessions.delete(sessionId);
+        throw error;
+      }
+    );
+  }
+
+  private async send(message: ClientMessage): Promise<void> {
+    const socket = await this.connect();
+    socket.send(JSON.stringify(message));
+  }
+
+  private connect(): Promise<WebSocket> {
+    const { url, token } = commandService.getBridgeConfig();
+    const config = `${url} ${token}`;
+    if (this.socket && this.socketConfig === config) {
+      return this.socket;
+    }
+    // The bridge settings changed, so the old connection and its sessions go
+    if (this.socket) {
+      this.socket.then(socket => socket.close(), () => undefined);
+      this.handleDisconnect(new Error('Command bridge settings changed'));
+    }
+
+    const socketUrl = `${url.replace(/^http/, 'ws')}/ws?token=${encodeURIComponent(token)}`;
+    const connection = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(socketUrl);
+      socket.onopen = () => resolve(socket);
+      socket.onmessage = (event) => {
+        if (this.socket === connection) {
+          this.handleMessage(JSON.parse(event.data));
+        }
+      };
+      socket.onclose = () => {
+        reject(new Error(`Command bridge is not available at ${url}. ${BRIDGE_HELP}`));
+        if (this.socket === connection) {
+          this.handleDisconnect(new Error('Lost connection to the command bridge'));
+        }
+      };
+    });
+    this.socket = connection;
+    this.socketConfig = config;
+    return connection;
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'session-ready': {
+        const session = this.sessions.get(message.sessionId);
+        if (session) {
+          session.cwd = message.cwd;
+          session.resolveReady();
+          this.notify();
+        }
+        break;
+      }
+      case 'session-output':
+        if (message.id) {
+          this.commands.get(message.id)?.onOutput(message.data);
+        }
+        break;
+      case 'session-exit': {
+        const pending = this.commands.get(message.id);
+        this.commands.delete(message.id);
+        this.updateSession(message.sessionId, { cwd: message.cwd, runningId: null });
+        pending?.resolve({
+          command: pending.command,
+          exitCode: message.exitCode,
+          durationMs: message.durationMs,
+          cwd: message.cwd,
+        });
+        break;
+      }
+      case 'session-closed':
+        this.failSession(message.sessionId, new Error(`Shell exited with code ${message.exitCode}`));
+        break;
+      case 'error':
+        if (message.id && this.commands.has(message.id)) {
+          this.commands.get(message.id).reject(new Error(message.error));
+          this.commands.delete(message.id);
+          this.updateSession(message.sessionId, { runningId: null });
+        } else if (message.sessionId && !this.sessions.get(message.sessionId)?.cwd) {
+          // Opening the session failed, e.g. the working directory doesn't exist
+          this.failSession(message.sessionId, new Error(message.error));
+        }
+        break;
+    }
+  }
+
+  private updateSession(sessionId: string, changes: Partial<SessionState>): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      Object.assign(session, changes);
+      this.notify();
+    }
+  }
+
+  // Reject everything waiting on a session and forget it
+  private failSession(sessionId: string, error: Error): void {
+    this.sessions.get(sessionId)?.rejectReady(error);
+    this.sessions.delete(sessionId);
+    this.commands.forEach((pending, id) => {
+      if (pending.sessionId === sessionId) {
+        pending.reject(error);
+        this.commands.delete(id);
+      }
+    });
+    this.notify();
+  }
+
+  private handleDisconnect(error: Error): void {
+    this.socket = null;
+    this.socketConfig = null;
+    Array.from(this.sessions.keys()).forEach(sessionId => this.failSession(sessionId, error));
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default new TerminalService();
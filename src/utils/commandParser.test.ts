@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { extractCommands, isShellLanguage, splitSessionCommands, splitShellCommands } from './commandParser';
+
+const fence = (language: string, body: string) => `\`\`\`${language}\n${body}\n\`\`\``;
+
+interface Fixture {
+  name: string;
+  markdown: string;
+  commands: string[];
+}
+
+// AI responses and the commands that should be offered from them, in order
+const FIXTURES: Fixture[] = [
+  {
+    name: 'one command per line',
+    markdown: fence('bash', 'npm install\nnpm run build'),
+    commands: ['npm install', 'npm run build'],
+  },
+  {
+    name: 'backslash continuations',
+    markdown: fence('bash', 'docker run \\\n  -p 8080:80 \\\n  nginx\nls'),
+    commands: ['docker run \\\n  -p 8080:80 \\\n  nginx', 'ls'],
+  },
+  {
+    name: 'operators at the end of a line',
+    markdown: fence('sh', 'npm ci &&\n  npm test ||\n  echo failed\ncat log |\n  grep error'),
+    commands: ['npm ci &&\n  npm test ||\n  echo failed', 'cat log |\n  grep error'],
+  },
+  {
+    name: 'heredocs',
+    markdown: fence('bash', "cat > config.json <<'EOF'\n{\n  \"port\": 8080\n}\nEOF\necho done"),
+    commands: ["cat > config.json <<'EOF'\n{\n  \"port\": 8080\n}\nEOF", 'echo done'],
+  },
+  {
+    name: 'heredocs with stripped tabs',
+    markdown: fence('bash', 'cat <<-END\n\thello\n\tEND\npwd'),
+    commands: ['cat <<-END\n\thello\n\tEND', 'pwd'],
+  },
+  {
+    name: 'shifts in arithmetic, which are not heredocs',
+    markdown: fence('bash', 'echo $((1 << 4))\nls -la\n((x = 1 << 2))\npwd'),
+    commands: ['echo $((1 << 4))', 'ls -la', '((x = 1 << 2))', 'pwd'],
+  },
+  {
+    name: 'quoted heredoc delimiters',
+    markdown: fence('bash', 'cat << "END OF TEXT"\nhello\nEND OF TEXT\npwd'),
+    commands: ['cat << "END OF TEXT"\nhello\nEND OF TEXT', 'pwd'],
+  },
+  {
+    name: 'quoted strings spanning lines',
+    markdown: fence('bash', 'git commit -m "First line\n\nSecond paragraph"\ngit push'),
+    commands: ['git commit -m "First line\n\nSecond paragraph"', 'git push'],
+  },
+  {
+    name: 'compound statements',
+    markdown: fence('bash', 'for f in *.log; do\n  gzip "$f"\ndone\nif [ -f .env ]; then\n  source .env\nfi'),
+    commands: ['for f in *.log; do\n  gzip "$f"\ndone', 'if [ -f .env ]; then\n  source .env\nfi'],
+  },
+  {
+    name: 'functions and subshells',
+    markdown: fence('bash', 'greet() {\n  echo hi\n}\n(\n  cd src && ls\n)'),
+    commands: ['greet() {\n  echo hi\n}', '(\n  cd src && ls\n)'],
+  },
+  {
+    name: 'comments and blank lines',
+    markdown: fence('bash', '# Install dependencies\nnpm install  # takes a while\n\n# Then build\nnpm run build'),
+    commands: ['npm install  # takes a while', 'npm run build'],
+  },
+  {
+    name: 'zsh fences',
+    markdown: fence('zsh', 'brew install ollama'),
+    commands: ['brew install ollama'],
+  },
+  {
+    name: 'console transcripts, skipping output',
+    markdown: fence('console', '$ node --version\nv20.11.0\n$ npm --version\n10.2.4'),
+    commands: ['node --version', 'npm --version'],
+  },
+  {
+    name: 'prompts with user, host and directory',
+    markdown: fence('shell-session', 'user@box:~/app$ git status\nOn branch main\n(venv) $ pip install -r requirements.txt'),
+    commands: ['git status', 'pip install -r requirements.txt'],
+  },
+  {
+    name: 'continuation prompts in transcripts',
+    markdown: fence('console', '$ echo one \\\n> two\none two'),
+    commands: ['echo one \\\ntwo'],
+  },
+  {
+    name: 'bash fences that show prompts',
+    markdown: fence('bash', '$ ls -la\ntotal 8\ndrwxr-xr-x  2 user user 4096 .'),
+    commands: ['ls -la'],
+  },
+  {
+    name: 'fish blocks',
+    markdown: fence('fish', 'for f in *.txt\n  echo $f\nend\nset -x PATH $PATH ~/bin'),
+    commands: ['for f in *.txt\n  echo $f\nend', 'set -x PATH $PATH ~/bin'],
+  },
+  {
+    name: 'PowerShell backtick continuations and script blocks',
+    markdown: fence('powershell', 'Get-ChildItem `\n  -Recurse\nGet-Process | Where-Object {\n  $_.CPU -gt 100\n}'),
+    commands: ['Get-ChildItem `\n  -Recurse', 'Get-Process | Where-Object {\n  $_.CPU -gt 100\n}'],
+  },
+  {
+    name: 'PowerShell here-strings',
+    markdown: fence('pwsh', '$text = @"\nline one\nline two\n"@\nWrite-Output $text'),
+    commands: ['$text = @"\nline one\nline two\n"@', 'Write-Output $text'],
+  },
+  {
+    name: 'PowerShell transcripts',
+    markdown: fence('powershell', 'PS C:\\Users\\me> Get-Location\n\nPath\n----\nC:\\Users\\me'),
+    commands: ['Get-Location'],
+  },
+  {
+    name: 'cmd scripts without comments',
+    markdown: fence('bat', '@echo off\nREM build it\nmkdir out\ncopy a.txt out'),
+    commands: ['mkdir out', 'copy a.txt out'],
+  },
+  {
+    name: 'unlabelled fences',
+    markdown: fence('', 'make build'),
+    commands: ['make build'],
+  },
+  {
+    name: 'fences in other languages',
+    markdown: `${fence('python', 'print("hi")')}\n${fence('json', '{"a": 1}')}`,
+    commands: [],
+  },
+  {
+    name: 'fences tagged with object property names',
+    markdown: `${fence('constructor', 'rm -rf build')}\n${fence('toString', 'ls')}\n${fence('__proto__', 'pwd')}`,
+    commands: [],
+  },
+  {
+    name: 'info strings with attributes',
+    markdown: `${fence('{bash}', 'echo a')}\n${fence('.sh', 'echo b')}\n${fence('bash title="setup"', 'echo c')}`,
+    commands: ['echo a', 'echo b', 'echo c'],
+  },
+  {
+    name: 'tilde fences',
+    markdown: '~~~bash\necho tilde\n~~~',
+    commands: ['echo tilde'],
+  },
+  {
+    name: 'unclosed fences from a response still streaming',
+    markdown: 'Run this:\n```bash\nnpm install\nnpm run de',
+    commands: ['npm install', 'npm run de'],
+  },
+  {
+    name: 'prompt lines in prose',
+    markdown: 'Check the version:\n\n$ ollama --version\n\nThen carry on.',
+    commands: ['ollama --version'],
+  },
+  {
+    name: 'prose that only looks like a command',
+    markdown: 'It costs $ 5 a month.\n> $ rm -rf /tmp/cache\nThe price is $5 or > $3.\n> echo quoted',
+    commands: [],
+  },
+  {
+    name: 'commands in blocks before prose prompts',
+    markdown: `$ first\n\n${fence('bash', 'second')}`,
+    commands: ['second', 'first'],
+  },
+];
+
+describe('extractCommands', () => {
+  it.each(FIXTURES)('$name', ({ markdown, commands }) => {
+    expect(extractCommands(markdown).map(({ command }) => command)).toEqual(commands);
+  });
+
+  it('reports the dialect and language of each command', () => {
+    const markdown = `${fence('pwsh', 'Get-Date')}\n${fence('console', '$ date')}\n${fence('fish', 'date')}\n${fence('cmd', 'date /t')}`;
+    expect(extractCommands(markdown)).toEqual([
+      { command: 'Get-Date', dialect: 'powershell', language: 'pwsh' },
+      { command: 'date', dialect: 'posix', language: 'console' },
+      { command: 'date', dialect: 'fish', language: 'fish' },
+      { command: 'date /t', dialect: 'cmd', language: 'cmd' },
+    ]);
+  });
+});
+
+describe('splitShellCommands', () => {
+  it('ignores words like constructor in command position', () => {
+    expect(splitShellCommands('constructor\ntoString\nls', 'posix')).toEqual(['constructor', 'toString', 'ls']);
+  });
+
+  it('keeps an unterminated command rather than dropping it', () => {
+    expect(splitShellCommands('echo "unterminated\nls', 'posix')).toEqual(['echo "unterminated\nls']);
+  });
+});
+
+describe('splitSessionCommands', () => {
+  it('skips prompts with nothing after them', () => {
+    expect(splitSessionCommands('$ \n$ # comment\n$ ls', 'posix')).toEqual(['ls']);
+  });
+});
+
+describe('isShellLanguage', () => {
+  it('recognises shell fence languages only', () => {
+    expect(['bash', 'console', 'fish', 'pwsh', 'bat'].every(isShellLanguage)).toBe(true);
+    expect(['', 'python', 'constructor', 'hasOwnProperty'].some(isShellLanguage)).toBe(false);
+  });
+});
@@ -0,0 +1,440 @@
+/**
+ * Extracts runnable shell commands from AI responses.
+ *
+ * Code blocks are split into complete commands by a small shell-aware
+ * scanner rather than by line, so continuations, heredocs, quoted strings
+ * spanning lines, `&&` chains and compound statements stay intact. Blocks
+ * written as terminal sessions keep only the lines after a prompt.
+ */
+
+export type ShellDialect = 'posix' | 'fish' | 'powershell' | 'cmd';
+
+export interface ExtractedCommand {
+  command: string;
+  dialect: ShellDialect;
+  // Fence language the command came from; empty for unlabelled fences and prose
+  language: string;
+}
+
+interface FenceLanguage {
+  dialect: ShellDialect;
+  // The block is a transcript: commands follow prompts, other lines are output
+  session: boolean;
+}
+
+// A Map rather than an object literal, so fence tags like `constructor` or `toString` find nothing
+const FENCE_LANGUAGES = new Map<string, FenceLanguage>([
+  ['', { dialect: 'posix', session: false }],
+  ['bash', { dialect: 'posix', session: false }],
+  ['sh', { dialect: 'posix', session: false }],
+  ['shell', { dialect: 'posix', session: false }],
+  ['zsh', { dialect: 'posix', session: false }],
+  ['ksh', { dialect: 'posix', session: false }],
+  ['dash', { dialect: 'posix', session: false }],
+  ['console', { dialect: 'posix', session: true }],
+  ['terminal', { dialect: 'posix', session: true }],
+  ['shell-session', { dialect: 'posix', session: true }],
+  ['shellsession', { dialect: 'posix', session: true }],
+  ['sh-session', { dialect: 'posix', session: true }],
+  ['bash-session', { dialect: 'posix', session: true }],
+  ['fish', { dialect: 'fish', session: false }],
+  ['powershell', { dialect: 'powershell', session: false }],
+  ['pwsh', { dialect: 'powershell', session: false }],
+  ['ps1', { dialect: 'powershell', session: false }],
+  ['ps', { dialect: 'powershell', session: false }],
+  ['posh', { dialect: 'powershell', session: false }],
+  ['pwsh-session', { dialect: 'powershell', session: true }],
+  ['powershell-session', { dialect: 'powershell', session: true }],
+  ['cmd', { dialect: 'cmd', session: false }],
+  ['bat', { dialect: 'cmd', session: false }],
+  ['batch', { dialect: 'cmd', session: false }],
+  ['dos', { dialect: 'cmd', session: false }],
+  ['doscon', { dialect: 'cmd', session: true }],
+]);
+
+// Prompts that start a command line in a transcript, per dialect
+const PROMPTS: Record<ShellDialect, RegExp> = {
+  // "$ ", "% ", "❯ ", optionally after "user@host:~/dir" or a "(venv)" prefix
+  posix: /^\s*(?:\([^)\s]+\)\s*)?(?:[\w.-]+@[\w.-]+(?::[^\s$%]*)?\s*)?[$%❯➜]\s+/,
+  fish: /^\s*(?:[\w.-]+@[\w.-]+\s*[^\s>]*)?[>❯$]\s+/,
+  powershell: /^\s*(?:PS(?: [^>\n]*)?>|>)\s*/,
+  cmd: /^\s*[A-Za-z]:\\[^>\n]*>\s*/,
+};
+
+// Continuation prompt shown on the second line of a multi-line command
+const CONTINUATION_PROMPT = /^\s*(?:>>?|\.\.\.)\s?/;
+
+// Keywords that open and close compound statements, by dialect
+const BLOCK_KEYWORDS: Record<ShellDialect, { open: Map<string, string>; close: Set<string> }> = {
+  posix: { open: new Map([['if', 'fi'], ['case', 'esac'], ['do', 'done']]), close: new Set(['fi', 'esac', 'done']) },
+  fish: {
+    open: new Map(['if', 'for', 'while', 'function', 'begin', 'switch'].map(keyword => [keyword, 'end'])),
+    close: new Set(['end']),
+  },
+  powershell: { open: new Map(), close: new Set() },
+  cmd: { open: new Map(), close: new Set() },
+};
+
+// Keywords after which the next word is again in command position
+const COMMAND_PREFIX_KEYWORDS = new Set(['then', 'do', 'else', 'elif', 'if', 'while', 'until', '!', 'time', 'begin', 'and', 'or', 'not']);
+
+/**
+ * Incremental scanner that accumulates lines until they form a complete command
+ */
+export class ShellScanner {
+  private lines: string[] = [];
+  private quote: string | null = null;
+  private stack: string[] = [];
+  private heredocs: { delimiter: string; stripTabs: boolean }[] = [];
+  // PowerShell here-string terminator ('@ or "@) while inside one
+  private hereString: string | null = null;
+  private inBlockComment = false;
+  private continued = false;
+  // False while only comments have been seen
+  private hasCode = false;
+
+  constructor(private dialect: ShellDialect) {}
+
+  public isEmpty(): boolean {
+    return this.lines.length === 0;
+  }
+
+  // True once the buffered lines form a command that can run on its own
+  public isComplete(): boolean {
+    return !this.isEmpty()
+      && !this.quote
+      && !this.continued
+      && !this.hereString
+      && !this.inBlockComment
+      && this.stack.length === 0
+      && this.heredocs.length === 0;
+  }
+
+  // Return the buffered command and reset; empty if it was only comments
+  public take(): string {
+    const command = this.hasCode ? this.lines.join('\n').trim() : '';
+    this.lines = [];
+    this.quote = null;
+    this.stack = [];
+    this.heredocs = [];
+    this.hereString = null;
+    this.inBlockComment = false;
+    this.continued = false;
+    this.hasCode = false;
+    return command;
+  }
+
+  public feed(line: string): void {
+    this.lines.push(line);
+
+    if (this.heredocs.length > 0) {
+      const { delimiter, stripTabs } = this.heredocs[0];
+      if ((stripTabs ? line.replace(/^\t+/, '') : line) === delimiter) {
+        this.heredocs.shift();
+      }
+      return;
+    }
+
+    if (this.hereString) {
+      if (line.startsWith(this.hereString)) {
+        this.hereString = null;
+        this.scan(line.slice(2));
+      }
+      return;
+    }
+
+    this.scan(line);
+  }
+
+  private scan(line: string): void {
+    const { dialect } = this;
+    const escape = dialect === 'powershell' ? '`' : dialect === 'cmd' ? '^' : '\\';
+    let commandPosition = true;
+    let code = '';
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (this.inBlockComment) {
+        if (line.startsWith('#>', i)) {
+          this.inBlockComment = false;
+          i++;
+        }
+        continue;
+      }
+
+      if (this.quote) {
+        code += char;
+        if (this.quote === "'" && dialect !== 'powershell' && dialect !== 'fish') {
+          if (char === "'") {
+            this.quote = null;
+          }
+        } else if (char === escape || (this.quote === "$'" && char === '\\')) {
+          code += line[++i] ?? '';
+        } else if (char === this.quote || (this.quote === "$'" && char === "'")) {
+          this.quote = null;
+        }
+        continue;
+      }
+
+      if (char === escape) {
+        if (i === line.length - 1) {
+          // Line continuation
+          this.continued = true;
+          this.hasCode = this.hasCode || code.trim() !== '';
+          return;
+        }
+        code += char + line[++i];
+        commandPosition = false;
+        continue;
+      }
+
+      if (char === '"' || char === "'" || (char === '`' && dialect === 'posix')) {
+        this.quote = char === "'" && line[i - 1] === '$' && dialect === 'posix' ? "$'" : char;
+        code += char;
+        commandPosition = false;
+        continue;
+      }
+
+      if (dialect === 'powershell' && char === '@' && (line[i + 1] === '"' || line[i + 1] === "'") && line.slice(i + 2).trim() === '') {
+        this.hereString = `${line[i + 1]}@`;
+        this.hasCode = true;
+        return;
+      }
+
+      if (dialect === 'powershell' && line.startsWith('<#', i)) {
+        this.inBlockComment = true;
+        i++;
+        continue;
+      }
+
+      if (char === '#' && dialect !== 'cmd' && (i === 0 || /[\s;&|(]/.test(line[i - 1]))) {
+        // Rest of the line is a comment
+        break;
+      }
+
+      // `<<` inside $((...)) or ((...)) is a shift, not a heredoc
+      if (dialect === 'posix' && line.startsWith('<<', i) && line[i + 2] !== '<' && !this.stack.includes('((')) {
+        // Unquoted delimiters are words, so `<< 4` isn't taken for one
+        const heredoc = line.slice(i).match(/^<<(-?)\s*(?:(['"])([^'"]+)\2|([A-Za-z_][^\s'"<>;&|()]*))/);
+        if (heredoc) {
+          this.heredocs.push({ delimiter: heredoc[3] ?? heredoc[4], stripTabs: heredoc[1] === '-' });
+          code += heredoc[0];
+          i += heredoc[0].length - 1;
+          continue;
+        }
+      }
+
+      if (dialect === 'posix' && line.startsWith('((', i) && (line[i - 1] === '$' || commandPosition)) {
+        this.stack.push('((');
+        code += '((';
+        i++;
+        continue;
+      }
+
+      if (char === ')' && this.stack[this.stack.length - 1] === '((' && line[i + 1] === ')') {
+        this.stack.pop();
+        code += '))';
+        commandPosition = false;
+        i++;
+        continue;
+      }
+
+      if (char === '(' || char === '{' || (char === '[' && dialect === 'powershell')) {
+        this.stack.push(char);
+        code += char;
+        commandPosition = char !== '[';
+        continue;
+      }
+
+      if (char === ')' || char === '}' || (char === ']' && dialect === 'powershell')) {
+        const opener = { ')': '(', '}': '{', ']': '[' }[char];
+        // A ')' ending a case pattern has no opener
+        if (this.stack[this.stack.length - 1] === opener) {
+          this.stack.pop();
+        }
+        code += char;
+        commandPosition = false;
+        continue;
+      }
+
+      if (/[;&|]/.test(char)) {
+        code += char;
+        commandPosition = true;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        code += char;
+        continue;
+      }
+
+      const word = line.slice(i).match(/^[^\s;&|()<>{}'"`\\^]+/)?.[0] ?? char;
+      if (commandPosition) {
+        this.handleKeyword(word);
+      }
+      commandPosition = COMMAND_PREFIX_KEYWORDS.has(word);
+      code += word;
+      i += word.length - 1;
+    }
+
+    this.hasCode = this.hasCode || code.trim() !== '';
+    // Operators at the end of a line carry the command on to the next one
+    this.continued = this.dialect === 'cmd'
+      ? false
+      : /(?:&&|\|\||(?<!\|)\|)\s*$/.test(code);
+  }
+
+  private handleKeyword(word: string): void {
+    const keywords = BLOCK_KEYWORDS[this.dialect];
+    if (keywords.open.has(word)) {
+      this.stack.push(word);
+    } else if (keywords.close.has(word)) {
+      const index = this.stack.map(opener => keywords.open.get(opener)).lastIndexOf(word);
+      if (index !== -1) {
+        this.stack.splice(index);
+      }
+    }
+  }
+}
+
+// Whether a line is blank or only a comment, so it can be skipped between commands
+const isIgnorable = (line: string, dialect: ShellDialect): boolean => {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return true;
+  }
+  if (dialect === 'cmd') {
+    return /^(rem(\s|$)|::)/i.test(trimmed) || trimmed === '@echo off';
+  }
+  return trimmed.startsWith('#') && !trimmed.startsWith('<#') || trimmed.startsWith('//');
+};
+
+// Split a script into complete commands
+export const splitShellCommands = (script: string, dialect: ShellDialect): string[] => {
+  const scanner = new ShellScanner(dialect);
+  const commands: string[] = [];
+
+  for (const line of script.split(/\r?\n/)) {
+    if (scanner.isEmpty() && isIgnorable(line, dialect)) {
+      continue;
+    }
+    scanner.feed(line);
+    if (scanner.isComplete()) {
+      commands.push(scanner.take());
+    }
+  }
+
+  if (!scanner.isEmpty()) {
+    commands.push(scanner.take());
+  }
+  return commands.filter(Boolean);
+};
+
+// Pull commands out of a terminal transcript, skipping the output lines between prompts
+export const splitSessionCommands = (transcript: string, dialect: ShellDialect): string[] => {
+  const scanner = new ShellScanner(dialect);
+  const prompt = PROMPTS[dialect];
+  const commands: string[] = [];
+
+  for (const line of transcript.split(/\r?\n/)) {
+    if (!scanner.isEmpty()) {
+      scanner.feed(line.replace(CONTINUATION_PROMPT, ''));
+    } else if (prompt.test(line)) {
+      const command = line.replace(prompt, '');
+      if (isIgnorable(command, dialect)) {
+        continue;
+      }
+      scanner.feed(command);
+    } else {
+      // Output printed by the previous command
+      continue;
+    }
+
+    if (scanner.isComplete()) {
+      commands.push(scanner.take());
+    }
+  }
+
+  if (!scanner.isEmpty()) {
+    commands.push(scanner.take());
+  }
+  return commands.filter(Boolean);
+};
+
+interface FencedBlock {
+  language: string;
+  content: string;
+}
+
+// Find fenced code blocks; an unclosed fence runs to the end, as in a response still streaming
+export const extractFencedBlocks = (markdown: string): { blocks: FencedBlock[]; prose: string[] } => {
+  const blocks: FencedBlock[] = [];
+  const prose: string[] = [];
+  let fence: { marker: string; language: string; lines: string[] } | null = null;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (fence) {
+      const closing = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+      if (closing && closing[1][0] === fence.marker[0] && closing[1].length >= fence.marker.length) {
+        blocks.push({ language: fence.language, content: fence.lines.join('\n') });
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+
+    const opening = line.match(/^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/);
+    if (opening) {
+      // Info strings like "{bash}", ".sh" or "bash title=x" reduce to the language name
+      const language = opening[2].replace(/^[{.]+|[}]+$/g, '').toLowerCase();
+      fence = { marker: opening[1], language, lines: [] };
+    } else {
+      prose.push(line);
+    }
+  }
+
+  if (fence) {
+    blocks.push({ language: fence.language, content: fence.lines.join('\n') });
+  }
+  return { blocks, prose };
+};
+
+// Whether a fence is labelled with a shell language, so its contents can be run
+export const isShellLanguage = (language: string): boolean => {
+  return language !== '' && FENCE_LANGUAGES.has(language);
+};
+
+// Split one code block into the commands it contains; none unless it's a shell block
+export const extractBlockCommands = (content: string, language: string): ExtractedCommand[] => {
+  const fenceLanguage = FENCE_LANGUAGES.get(language);
+  if (!fenceLanguage) {
+    // Code in another language, not something to run
+    return [];
+  }
+
+  const { dialect } = fenceLanguage;
+  const lines = content.split(/\r?\n/);
+  // Shell blocks that show prompts are transcripts too
+  const session = fenceLanguage.session || lines.some(line => PROMPTS[dialect].test(line));
+  const split = session ? splitSessionCommands(content, dialect) : splitShellCommands(content, dialect);
+  return split.map(command => ({ command, dialect, language }));
+};
+
+// Extract every runnable command from a markdown response, in order of appearance
+// within code blocks, followed by "$ command" lines in the prose
+export const extractCommands = (markdown: string): ExtractedCommand[] => {
+  const { blocks, prose } = extractFencedBlocks(markdown);
+  const commands = blocks.flatMap(block => extractBlockCommands(block.content, block.language));
+
+  // A prose line that starts with a "$ " prompt; blockquotes and mid-sentence dollars are ignored
+  for (const line of prose) {
+    const match = line.match(/^ {0,3}\$ ([\w./~-][^`]*)$/);
+    if (match) {
+      commands.push({ command: match[1].trim(), dialect: 'posix', language: '' });
+    }
+  }
+
+  return commands;
+};
@@ -0,0 +1,649 @@
+/**
+ * Static risk classification of shell commands
+ */
+
+export type RiskClass = 'read-only' | 'mutating' | 'network' | 'destructive' | 'privileged';
+
+// Least to most severe
+export const RISK_CLASSES: RiskClass[] = ['read-only', 'mutating', 'network', 'destructive', 'privileged'];
+
+export const RISK_CLASS_LABELS: Record<RiskClass, string> = {
+  'read-only': 'Read-only',
+  'mutating': 'Mutating',
+  'network': 'Network',
+  'destructive': 'Destructive',
+  'privileged': 'Privileged',
+};
+
+export interface CommandAssessment {
+  // Most severe first; 'read-only' only appears on its own
+  classes: RiskClass[];
+  // One human-readable explanation per finding
+  reasons: string[];
+}
+
+type Rule = { classes: RiskClass[]; reason: string };
+
+const PRIVILEGED_PROGRAMS = new Set([
+  'sudo', 'su', 'doas', 'pkexec', 'runas', 'systemctl', 'service', 'launchctl', 'mount', 'umount',
+  'useradd', 'usermod', 'userdel', 'groupadd', 'passwd', 'visudo', 'chroot', 'modprobe', 'insmod',
+  'sysctl', 'iptables', 'ufw', 'set-executionpolicy', 'start-process',
+]);
+
+const DESTRUCTIVE_PROGRAMS: Record<string, string> = {
+  rm: 'Deletes files',
+  rmdir: 'Deletes directories',
+  del: 'Deletes files',
+  erase: 'Deletes files',
+  rd: 'Deletes directories',
+  'remove-item': 'Deletes files',
+  shred: 'Irrecoverably overwrites files',
+  dd: 'Writes raw data to files or devices',
+  mkfs: 'Formats a filesystem',
+  fdisk: 'Changes disk partitions',
+  parted: 'Changes disk partitions',
+  diskpart: 'Changes disk partitions',
+  format: 'Formats a disk',
+  truncate: 'Truncates files',
+  kill: 'Terminates processes',
+  killall: 'Terminates processes',
+  pkill: 'Terminates processes',
+  taskkill: 'Terminates processes',
+  'stop-process': 'Terminates processes',
+  shutdown: 'Shuts down the machine',
+  reboot: 'Restarts the machine',
+  halt: 'Shuts down the machine',
+  poweroff: 'Shuts down the machine',
+};
+
+const NETWORK_PROGRAMS = new Set([
+  'curl', 'wget', 'ssh', 'scp', 'sftp', 'ftp', 'rsync', 'nc', 'ncat', 'netcat', 'telnet', 'ping',
+  'invoke-webrequest', 'invoke-restmethod', 'iwr', 'irm',
+]);
+
+const READ_ONLY_PROGRAMS = new Set([
+  'ls', 'dir', 'cat', 'type', 'less', 'more', 'head', 'tail', 'pwd', 'cd', 'echo', 'printf', 'grep',
+  'rg', 'ag', 'find', 'where', 'which', 'whereis', 'whoami', 'id', 'uname', 'hostname', 'env',
+  'printenv', 'ps', 'top', 'htop', 'df', 'du', 'free', 'uptime', 'date', 'wc', 'sort', 'uniq',
+  'cut', 'diff', 'file', 'stat', 'tree', 'history', 'man', 'help', 'get-childitem', 'get-content',
+  'get-location', 'get-process', 'clear', 'cls', 'true', 'false', 'test', 'jq', 'nproc', 'lscpu',
+  'nvidia-smi', 'set-location', 'sleep', 'command',
+]);
+
+const MUTATING_PROGRAMS = new Set([
+  'mkdir', 'md', 'touch', 'mv', 'move', 'cp', 'copy', 'ln', 'chmod', 'chown', 'chgrp', 'tee',
+  'install', 'make', 'unzip', 'zip', 'tar', 'gzip', 'gunzip', 'patch', 'export', 'set', 'setx',
+  'new-item', 'set-content', 'copy-item', 'move-item', 'rename-item', 'ren', 'rename', 'code', 'vim',
+  'vi', 'nano', 'notepad',
+]);
+
+const PERMISSION_PROGRAMS = new Set(['chmod', 'chown', 'chgrp']);
+
+// Subcommand rules for tools whose risk depends on what they're asked to do
+const SUBCOMMAND_RULES: Record<string, Record<string, Rule>> = {
+  git: {
+    status: { classes: ['read-only'], reason: '' },
+    log: { classes: ['read-only'], reason: '' },
+    diff: { classes: ['read-only'], reason: '' },
+    show: { classes: ['read-only'], reason: '' },
+    blame: { classes: ['read-only'], reason: '' },
+    remote: { classes: ['read-only'], reason: '' },
+    clone: { classes: ['network', 'mutating'], reason: 'Downloads a repository' },
+    fetch: { classes: ['network'], reason: 'Contacts a remote repository' },
+    pull: { classes: ['network', 'mutating'], reason: 'Downloads and merges remote changes' },
+    push: { classes: ['network'], reason: 'Uploads commits to a remote repository' },
+    clean: { classes: ['destructive'], reason: 'Deletes untracked files' },
+  },
+  npm: {
+    install: { classes: ['network', 'mutating'], reason: 'Downloads and installs packages, which may run install scripts' },
+    i: { classes: ['network', 'mutating'], reason: 'Downloads and installs packages, which may run install scripts' },
+    ci: { classes: ['network', 'mutating'], reason: 'Downloads and installs packages, which may run install scripts' },
+    add: { classes: ['network', 'mutating'], reason: 'Downloads and installs packages, which may run install scripts' },
+    publish: { classes: ['network'], reason: 'Publishes a package to the registry' },
+    ls: { classes: ['read-only'], reason: '' },
+    list: { classes: ['read-only'], reason: '' },
+    outdated: { classes: ['network'], reason: 'Queries the package registry' },
+  },
+  ollama: {
+    list: { classes: ['read-only'], reason: '' },
+    ls: { classes: ['read-only'], reason: '' },
+    ps: { classes: ['read-only'], reason: '' },
+    show: { classes: ['read-only'], reason: '' },
+    pull: { classes: ['network', 'mutating'], reason: 'Downloads a model' },
+    push: { classes: ['network'], reason: 'Uploads a model' },
+    rm: { classes: ['destructive'], reason: 'Deletes a model' },
+    create: { classes: ['mutating'], reason: 'Creates a model' },
+    cp: { classes: ['mutating'], reason: 'Copies a model' },
+  },
+  docker: {
+    ps: { classes: ['read-only'], reason: '' },
+    images: { classes: ['read-only'], reason: '' },
+    logs: { classes: ['read-only'], reason: '' },
+    pull: { classes: ['network', 'mutating'], reason: 'Downloads an image' },
+    push: { classes: ['network'], reason: 'Uploads an image' },
+    rm: { classes: ['destructive'], reason: 'Deletes containers' },
+    rmi: { classes: ['destructive'], reason: 'Deletes images' },
+    system: { classes: ['destructive'], reason: 'Can prune containers, images and volumes' },
+  },
+};
+
+// Package managers that reach the network for their install-style subcommands
+const PACKAGE_MANAGERS = new Set(['yarn', 'pnpm', 'bun', 'pip', 'pip3', 'brew', 'apt', 'apt-get', 'yum', 'dnf', 'pacman', 'choco', 'winget', 'cargo', 'go', 'gem']);
+const INSTALL_SUBCOMMANDS = new Set(['install', 'add', 'i', 'get', 'upgrade', 'update', '-S', '-Syu']);
+
+const INTERPRETERS = new Set(['sh', 'bash', 'zsh', 'fish', 'dash', 'python', 'python3', 'node', 'perl', 'ruby', 'iex', 'invoke-expression', 'powershell', 'pwsh', 'source', '.']);
+
+// Interpreters and the option that makes them run code given on the command line
+const INLINE_CODE_FLAGS: Record<string, RegExp> = {
+  python: /^-c$/,
+  python3: /^-c$/,
+  node: /^(-e|--eval|-p|--print)$/,
+  perl: /^-[eE]$/,
+  ruby: /^-e$/,
+};
+
+// Inline code that deletes files, kills processes or starts other programs
+const DANGEROUS_CODE = /rmtree|remove|unlink|rmdir|\brm(Sync)?\b|truncate|kill|system|subprocess|popen|exec|spawn|child_process|eval/i;
+
+// Paths whose deletion or overwrite would be catastrophic
+const DANGEROUS_TARGET = /^(\/\*?|~\/?\*?|\*|\.\/?\*?|[a-zA-Z]:\\?|\/(etc|usr|bin|boot|var|lib|home)\/?\*?)$/;
+
+// Split a command line into pipeline stages and list items, respecting quotes
+export const splitCommandSegments = (command: string): { segment: string; pipedFrom: string | null }[] => {
+  const segments: { segment: string; pipedFrom: string | null }[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let pipedFrom: string | null = null;
+
+  const push = (nextPipedFrom: string | null) => {
+    if (current.trim()) {
+      segments.push({ segment: current.trim(), pipedFrom });
+    }
+    pipedFrom = nextPipedFrom;
+    current = '';
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"') {
+        current += char + (command[++i] ?? '');
+        continue;
+      }
+      current += char;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === '\\') {
+      current += char + (command[++i] ?? '');
+    } else if (char === '|' && command[i + 1] !== '|') {
+      push(current.trim());
+    } else if ((char === '&' || char === '|') && command[i + 1] === char) {
+      push(null);
+      i++;
+    } else if (char === ';' || char === '\n' || (char === '&' && command[i - 1] !== '>' && command[i + 1] !== '>')) {
+      push(null);
+    } else {
+      current += char;
+    }
+  }
+  push(null);
+  return segments;
+};
+
+// A simple command found in a command line, after substitutions are pulled out
+// and wrappers such as env or sudo are peeled off
+export interface ExpandedSegment {
+  // The segment as written, before any parsing
+  raw: string;
+  // The segment with quotes removed and the home directory written as ~
+  text: string;
+  // The command that actually runs, without wrappers or VAR=value prefixes
+  tokens: string[];
+  // The previous pipeline stage, when this one reads its output
+  pipedFrom: string | null;
+  // Commands whose output this one reads as a file through <(...)
+  readsFrom: string[];
+  // Programs such as sudo that the command runs under
+  elevatedBy: string[];
+  // Set when the command is nested too deeply to inspect
+  truncated?: boolean;
+}
+
+// Stands in for a substitution in the command that contains it
+const SUBSTITUTION = '$()';
+
+const MAX_NESTING = 8;
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+// Programs that run the command given after their own options, and which of those options take a value
+const WRAPPERS: Record<string, string[]> = {
+  env: ['-u', '--unset', '-C', '--chdir'],
+  command: [],
+  exec: ['-a'],
+  nohup: [],
+  time: ['-f', '--format', '-o', '--output'],
+  nice: ['-n', '--adjustment'],
+  timeout: ['-s', '--signal', '-k', '--kill-after'],
+  xargs: ['-I', '-n', '-P', '-L', '-d', '-E', '-s', '-a', '--max-args', '--max-procs', '--max-lines', '--delimiter', '--arg-file'],
+  sudo: ['-u', '-g', '-U', '-C', '-h', '-p', '-D', '-r', '-t'],
+  doas: ['-u', '-C'],
+  pkexec: ['--user'],
+  runas: [],
+};
+
+const ELEVATORS = new Set(['sudo', 'doas', 'pkexec', 'runas']);
+
+// Shells and the option that makes them run a script given on the command line
+const SCRIPT_FLAGS: Record<string, RegExp> = {
+  sh: /^-[a-zA-Z]*c[a-zA-Z]*$/,
+  bash: /^-[a-zA-Z]*c[a-zA-Z]*$/,
+  zsh: /^-[a-zA-Z]*c[a-zA-Z]*$/,
+  dash: /^-[a-zA-Z]*c[a-zA-Z]*$/,
+  ksh: /^-[a-zA-Z]*c[a-zA-Z]*$/,
+  fish: /^(-c|--command)$/,
+  cmd: /^\/[ck]$/i,
+  powershell: /^-(c|command)$/i,
+  pwsh: /^-(c|command)$/i,
+};
+
+// Redirect targets that belong to the operating system
+const SYSTEM_PATH = /^(\/(etc|usr|bin|sbin|boot|lib|lib32|lib64|var|sys|proc|opt|root)(\/|$)|[a-zA-Z]:\\(windows|program files)(\\|$))/i;
+
+// Roots that a recursive permission or ownership change should never touch
+const PROTECTED_TARGET = /^(\/\*?|~\/?\*?|[a-zA-Z]:\\?|\/(etc|usr|bin|sbin|boot|var|lib|home)\/?\*?)$/;
+
+// Split a shell word into its text, joining quoted parts and spelling the home directory as ~
+const unquote = (word: string): string => {
+  const text = word.replace(/"((?:\\.|[^"\\])*)"|'([^']*)'|\\(.)/g, (_, double: string, single: string, escaped: string) =>
+    double !== undefined ? double.replace(/\\(["\\$`])/g, '$1') : single ?? escaped);
+  return text.replace(/^(\$HOME|\$\{HOME\})(?=\/|$)/, '~');
+};
+
+const tokenize = (segment: string): string[] => {
+  return (segment.match(/(?:"(?:\\.|[^"\\])*"?|'[^']*'?|\\.|[^\s"'\\])+/g) ?? []).map(unquote);
+};
+
+const programName = (token: string): string => {
+  return token.replace(/^.*[\\/]/, '').replace(/\.exe$/i, '').toLowerCase();
+};
+
+// Index of the ) that closes the ( at `open`, or the end of the text
+const findClosingParen = (text: string, open: number): number => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"') {
+        i++;
+      }
+    } else if (char === '\\') {
+      i++;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return text.length;
+};
+
+// Pull out the commands inside $(...), `...`, <(...) and >(...), which run before the
+// command around them, leaving a placeholder in their place. Each <(...) becomes <(n)
+// instead, where n indexes `inputs`, so the command reading it can be found.
+const extractSubstitutions = (command: string): { outer: string; inner: string[]; inputs: string[] } => {
+  const inner: string[] = [];
+  const inputs: string[] = [];
+  let outer = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote === "'") {
+      quote = char === "'" ? null : quote;
+      outer += char;
+    } else if (char === '\\') {
+      outer += char + (command[++i] ?? '');
+    } else if (char === '`') {
+      let end = i + 1;
+      while (end < command.length && command[end] !== '`') {
+        end += command[end] === '\\' ? 2 : 1;
+      }
+      inner.push(command.slice(i + 1, end).replace(/\\([`\\$])/g, '$1'));
+      outer += SUBSTITUTION;
+      i = end;
+    } else if (char === '(' && (command[i - 1] === '$' || (!quote && (command[i - 1] === '<' || command[i - 1] === '>')))) {
+      const end = findClosingParen(command, i);
+      const body = command.slice(i + 1, end);
+      // $((...)) is arithmetic, though it can still contain substitutions
+      inner.push(...(command[i - 1] === '$' && body.startsWith('(') ? extractSubstitutions(body).inner : [body]));
+      outer = outer.slice(0, -1) + (command[i - 1] === '<' ? `<(${inputs.push(body) - 1})` : SUBSTITUTION);
+      i = end;
+    } else {
+      if (char === '"') {
+        quote = quote ? null : char;
+      } else if (char === "'" && !quote) {
+        quote = char;
+      }
+      outer += char;
+    }
+  }
+  return { outer, inner: inner.filter(body => body.trim()), inputs };
+};
+
+// Quote words so that joining them gives a command line that splits back into the same words
+const joinWords = (words: string[]): string => {
+  return words.map(word => /^[\w@%+=:,./~{}-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`).join(' ');
+};
+
+// Peel wrappers off one segment, expanding the scripts of `sh -c`, `eval` and `find -exec`
+const expandSegment = (
+  raw: string,
+  pipedFrom: string | null,
+  inputs: string[],
+  depth: number,
+  inherited: string[]
+): ExpandedSegment[] => {
+  let tokens = tokenize(raw);
+  const elevatedBy = [...inherited];
+  const nested: ExpandedSegment[] = [];
+
+  for (;;) {
+    while (tokens.length > 1 && ASSIGNMENT.test(tokens[0])) {
+      tokens = tokens.slice(1);
+    }
+    const program = programName(tokens[0] ?? '');
+    const valueOptions = WRAPPERS[program];
+    // `command -v` only looks a program up
+    if (valueOptions && !(program === 'command' && /^-[a-zA-Z]*[vV]/.test(tokens[1] ?? ''))) {
+      let rest = tokens.slice(1);
+      while (rest.length > 0 && (rest[0].startsWith('-') || (program === 'env' && ASSIGNMENT.test(rest[0]))
+        || (program === 'runas' && rest[0].startsWith('/')))) {
+        if (rest[0] === '--') {
+          rest = rest.slice(1);
+          break;
+        }
+        // env -S splits its value into the command and its arguments
+        rest = program === 'env' && /^(-S|--split-string)$/.test(rest[0])
+          ? [...tokenize(rest[1] ?? ''), ...rest.slice(2)]
+          : rest.slice(valueOptions.includes(rest[0]) ? 2 : 1);
+      }
+      if (program === 'timeout') {
+        rest = rest.slice(1);
+      }
+      // A wrapper on its own, such as `env` or `sudo -v`, is classified as itself
+      if (rest.length === 0) {
+        break;
+      }
+      if (ELEVATORS.has(program)) {
+        elevatedBy.push(program);
+      }
+      tokens = rest;
+      continue;
+    }
+
+    const scriptFlag = SCRIPT_FLAGS[program];
+    const flagIndex = scriptFlag ? tokens.findIndex((token, index) => index > 0 && scriptFlag.test(token)) : -1;
+    if (flagIndex > 0) {
+      const script = /sh$/.test(program) ? tokens[flagIndex + 1] ?? '' : tokens.slice(flagIndex + 1).join(' ');
+      nested.push(...expandCommand(script, depth + 1, elevatedBy));
+      tokens = [];
+    }
+    // eval joins its arguments into a script
+    if (program === 'eval') {
+      nested.push(...expandCommand(tokens.slice(1).join(' '), depth + 1, elevatedBy));
+      tokens = [];
+    }
+    // find runs the command after each -exec or -ok, up to ; or +, on every match
+    if (program === 'find') {
+      tokens.forEach((token, index) => {
+        if (/^-(exec|execdir|ok|okdir)$/.test(token)) {
+          const end = tokens.findIndex((word, after) => after > index && (word === ';' || word === '+'));
+          nested.push(...expandCommand(joinWords(tokens.slice(index + 1, end === -1 ? undefined : end)), depth + 1, elevatedBy));
+        }
+      });
+    }
+    break;
+  }
+
+  const readsFrom = tokens.flatMap(token => {
+    const input = token.match(/^<\((\d+)\)$/);
+    return input ? [inputs[Number(input[1])]] : [];
+  });
+  return [{ raw, text: tokenize(raw).join(' '), tokens, pipedFrom, readsFrom, elevatedBy }, ...nested];
+};
+
+// Every simple command a command line runs, including those inside substitutions,
+// behind wrappers such as `env`, `xargs` or `sudo`, and in `sh -c` scripts
+export const expandCommand = (command: string, depth = 0, elevatedBy: string[] = []): ExpandedSegment[] => {
+  if (depth > MAX_NESTING) {
+    return [{ raw: command, text: command, tokens: [], pipedFrom: null, readsFrom: [], elevatedBy, truncated: true }];
+  }
+  const { outer, inner, inputs } = extractSubstitutions(command);
+  return [
+    ...splitCommandSegments(outer).flatMap(({ segment, pipedFrom }) => expandSegment(segment, pipedFrom, inputs, depth, elevatedBy)),
+    ...inner.flatMap(body => expandCommand(body, depth + 1, elevatedBy)),
+  ];
+};
+
+// Files a segment's output is redirected to
+const redirectTargets = (raw: string): string[] => {
+  return Array.from(raw.matchAll(/(?:^|[^<>&\d])\d?>>?\|?\s*(?!&)([^\s;|&]+)/g), redirect => unquote(redirect[1]).replace(/["']/g, ''));
+};
+
+const DISCARDED_OUTPUT = /^\/dev\/(null|stdout|stderr)$/;
+
+// Output redirection writes files; writing to a raw device or system file can break the machine
+const classifyRedirects = (raw: string, rules: Rule[]) => {
+  for (const target of redirectTargets(raw)) {
+    if (/^\/dev\/(sd|hd|nvme|disk|mmcblk)/.test(target)) {
+      rules.push({ classes: ['destructive'], reason: `Overwrites the raw device ${target}` });
+    } else if (SYSTEM_PATH.test(target)) {
+      rules.push({ classes: ['destructive'], reason: `Overwrites the system file ${target}` });
+    } else if (DISCARDED_OUTPUT.test(target)) {
+      rules.push({ classes: ['read-only'], reason: '' });
+    } else {
+      rules.push({ classes: ['mutating'], reason: `Writes output to ${target}` });
+    }
+  }
+};
+
+const classifySegment = (segment: ExpandedSegment, rules: Rule[]) => {
+  classifyRedirects(segment.raw, rules);
+  for (const elevator of new Set(segment.elevatedBy)) {
+    rules.push({ classes: ['privileged'], reason: `Runs with elevated privileges (${elevator})` });
+  }
+  if (segment.truncated) {
+    rules.push({ classes: ['destructive'], reason: 'Nests commands too deeply to check what they do' });
+    return;
+  }
+
+  const { tokens, pipedFrom, readsFrom } = segment;
+  if (tokens.length === 0) {
+    return;
+  }
+
+  let program = programName(tokens[0]);
+  const args = tokens.slice(1);
+
+  if (tokens[0].includes('$')) {
+    rules.push({ classes: ['destructive'], reason: 'Runs a program whose name is only known when the command runs' });
+    return;
+  }
+
+  if (PRIVILEGED_PROGRAMS.has(program)) {
+    rules.push({ classes: ['privileged'], reason: `Runs with elevated privileges (${program})` });
+    return;
+  }
+
+  // A script read from a pipe or from <(...) is only known when the command runs
+  const sources = pipedFrom === null ? readsFrom : [pipedFrom, ...readsFrom];
+  if (sources.length > 0 && INTERPRETERS.has(program)) {
+    const downloads = sources.some(source => NETWORK_PROGRAMS.has(programName(tokenize(source)[0] ?? '')));
+    rules.push(downloads
+      ? { classes: ['destructive', 'network'], reason: 'Runs a downloaded script straight in an interpreter' }
+      : { classes: ['mutating'], reason: `Runs the output of another command as a ${program} script` });
+    return;
+  }
+
+  const inlineFlag = INLINE_CODE_FLAGS[program];
+  const codeIndex = inlineFlag ? args.findIndex(arg => inlineFlag.test(arg)) : -1;
+  if (codeIndex >= 0) {
+    rules.push(DANGEROUS_CODE.test(args[codeIndex + 1] ?? '')
+      ? { classes: ['destructive'], reason: `Runs ${program} code that can delete files or start other programs` }
+      : { classes: ['mutating'], reason: `Runs ${program} code given on the command line` });
+    return;
+  }
+
+  if (program === 'source' || program === '.') {
+    rules.push({ classes: ['mutating'], reason: `Runs ${args[0] ?? 'a script'} in the current shell` });
+    return;
+  }
+
+  if (/^mkfs/.test(program)) {
+    program = 'mkfs';
+  }
+
+  const recursive = args.some(arg => /^-[a-zA-Z]*[rR]/.test(arg) || /^--recursive$|^-recurse$/i.test(arg) || /^\/s$/i.test(arg));
+
+  const destructiveReason = DESTRUCTIVE_PROGRAMS[program];
+  if (destructiveReason) {
+    const dangerousTarget = args.find(arg => !arg.startsWith('-') && DANGEROUS_TARGET.test(arg));
+    rules.push({
+      classes: ['destructive'],
+      reason: `${destructiveReason}${recursive ? ' recursively' : ''}${dangerousTarget ? ` in ${dangerousTarget}, which could wipe the system or your home directory` : ''}`,
+    });
+    return;
+  }
+
+  if (PERMISSION_PROGRAMS.has(program) && recursive) {
+    const protectedTarget = args.find(arg => !arg.startsWith('-') && PROTECTED_TARGET.test(arg));
+    if (protectedTarget) {
+      rules.push({ classes: ['destructive'], reason: `Changes permissions or ownership of everything under ${protectedTarget}` });
+      return;
+    }
+  }
+
+  const subcommand = args.find(arg => !arg.startsWith('-'));
+  const subcommandRules = SUBCOMMAND_RULES[program];
+  if (subcommandRules) {
+    const rule = subcommand ? subcommandRules[subcommand] : undefined;
+    if (program === 'git') {
+      if (subcommand === 'reset' && args.includes('--hard')) {
+        rules.push({ classes: ['destructive'], reason: 'Discards uncommitted changes (git reset --hard)' });
+        return;
+      }
+      if (subcommand === 'push' && args.some(arg => /^(-f|--force|--force-with-lease)$/.test(arg))) {
+        rules.push({ classes: ['destructive', 'network'], reason: 'Force-pushes, which can overwrite remote history' });
+        return;
+      }
+      if (subcommand === 'branch' && args.includes('-D')) {
+        rules.push({ classes: ['destructive'], reason: 'Force-deletes a branch' });
+        return;
+      }
+      if ((subcommand === 'checkout' || subcommand === 'restore') && args.includes('.')) {
+        rules.push({ classes: ['destructive'], reason: 'Discards changes to working tree files' });
+        return;
+      }
+    }
+    rules.push(rule ?? { classes: ['mutating'], reason: `Runs ${program} ${subcommand ?? ''}`.trim() });
+    return;
+  }
+
+  if (PACKAGE_MANAGERS.has(program)) {
+    rules.push(subcommand && INSTALL_SUBCOMMANDS.has(subcommand)
+      ? { classes: ['network', 'mutating'], reason: `Downloads and installs packages (${program} ${subcommand})` }
+      : { classes: ['mutating'], reason: `Runs ${program}${subcommand ? ` ${subcommand}` : ''}` });
+    return;
+  }
+
+  if (NETWORK_PROGRAMS.has(program)) {
+    const writesFile = args.some(arg => /^(-o|-O|--output|--remote-name|-OutFile)$/i.test(arg)) || program === 'wget';
+    rules.push({
+      classes: writesFile ? ['network', 'mutating'] : ['network'],
+      reason: program === 'ssh' || program === 'telnet' ? 'Connects to a remote machine' : `Transfers data over the network (${program})`,
+    });
+    return;
+  }
+
+  if (program === 'find' && args.some(arg => arg === '-delete' || arg === '-exec' || arg === '-execdir')) {
+    rules.push({ classes: args.includes('-delete') ? ['destructive'] : ['mutating'], reason: 'find runs an action on every match' });
+    return;
+  }
+
+  if (program === 'sed' && args.some(arg => /^-[a-zA-Z]*i/.test(arg) || arg === '--in-place')) {
+    rules.push({ classes: ['mutating'], reason: 'Edits files in place' });
+    return;
+  }
+
+  if (READ_ONLY_PROGRAMS.has(program)) {
+    rules.push({ classes: ['read-only'], reason: '' });
+    return;
+  }
+
+  if (MUTATING_PROGRAMS.has(program)) {
+    rules.push({ classes: ['mutating'], reason: `Changes files or settings (${program})` });
+    return;
+  }
+
+  rules.push({ classes: ['mutating'], reason: `Unknown command "${program}"; assuming it can change files` });
+};
+
+const summarize = (rules: Rule[]): CommandAssessment => {
+  const found = new Set(rules.flatMap(rule => rule.classes));
+  if (found.size > 1) {
+    found.delete('read-only');
+  }
+  if (found.size === 0) {
+    found.add('read-only');
+  }
+
+  return {
+    classes: RISK_CLASSES.filter(riskClass => found.has(riskClass)).reverse(),
+    reasons: Array.from(new Set(rules.map(rule => rule.reason).filter(Boolean))),
+  };
+};
+
+// Classify a command line by the most severe thing any part of it does
+export const classifyCommand = (command: string): CommandAssessment => {
+  if (/:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/.test(command)) {
+    return { classes: ['destructive'], reasons: ['Fork bomb: exhausts system resources'] };
+  }
+
+  const rules: Rule[] = [];
+  for (const segment of expandCommand(command)) {
+    classifySegment(segment, rules);
+  }
+  return summarize(rules);
+};
+
+// Classify one simple command from `expandCommand` on its own
+export const classifyExpandedSegment = (segment: ExpandedSegment): CommandAssessment => {
+  const rules: Rule[] = [];
+  classifySegment(segment, rules);
+  return summarize(rules);
+};
+
+// Whether a segment redirects output into a file rather than discarding it
+export const writesToFile = (segment: ExpandedSegment): boolean => {
+  return redirectTargets(segment.raw).some(target => !DISCARDED_OUTPUT.test(target));
+};
+
+// Whether a program is one of the tools the classifier knows about
+export const isKnownProgram = (name: string): boolean => {
+  const program = programName(name);
+  return PRIVILEGED_PROGRAMS.has(program) || program in DESTRUCTIVE_PROGRAMS || NETWORK_PROGRAMS.has(program)
+    || READ_ONLY_PROGRAMS.has(program) || MUTATING_PROGRAMS.has(program) || program in SUBCOMMAND_RULES
+    || PACKAGE_MANAGERS.has(program) || INTERPRETERS.has(program) || program in WRAPPERS;
+};
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { translateCommand, WindowsShell } from './commandTranslation';
+
+interface Case {
+  name: string;
+  command: string;
+  powershell: string;
+  cmd: string;
+}
+
+// POSIX commands and what each Windows shell should run instead
+const CASES: Case[] = [
+  {
+    name: 'single-quoted text',
+    command: "echo 'costs $5'",
+    powershell: "Write-Output 'costs $5'",
+    cmd: 'echo costs $5',
+  },
+  {
+    name: 'variables in double quotes',
+    command: 'echo "hi $USER from $HOME"',
+    powershell: 'Write-Output "hi $env:USER from $HOME"',
+    cmd: 'echo hi %USER% from %USERPROFILE%',
+  },
+  {
+    name: 'quotes inside arguments',
+    command: 'git commit -m "fix: it\'s done"',
+    powershell: 'git commit -m "fix: it\'s done"',
+    cmd: 'git commit -m "fix: it\'s done"',
+  },
+  {
+    name: 'a single quote between single-quoted strings',
+    command: "echo 'it'\"'\"'s'",
+    powershell: 'Write-Output "it\'s"',
+    cmd: "echo it's",
+  },
+  {
+    name: 'the home directory',
+    command: 'cd ~/projects',
+    powershell: 'Set-Location -LiteralPath $HOME/projects',
+    cmd: 'cd /d %USERPROFILE%\\projects',
+  },
+  {
+    name: 'cd on its own',
+    command: 'cd',
+    powershell: 'Set-Location -LiteralPath $HOME',
+    cmd: 'cd /d %USERPROFILE%',
+  },
+  {
+    name: 'the home directory in arguments of other programs',
+    command: 'git -C ~/app status',
+    powershell: 'git -C $HOME/app status',
+    cmd: 'git -C %USERPROFILE%/app status',
+  },
+  {
+    name: 'paths that look like options',
+    command: 'rm -- -draft.txt',
+    powershell: 'Remove-Item -LiteralPath "-draft.txt"',
+    cmd: 'del /q -draft.txt',
+  },
+  {
+    name: 'paths with wildcard characters in quotes',
+    command: "rm '[1].txt'",
+    powershell: "Remove-Item -LiteralPath '[1].txt'",
+    cmd: 'del /q "[1].txt"',
+  },
+  {
+    name: 'wildcards',
+    command: 'rm -rf build *.log',
+    powershell: 'Remove-Item -Recurse -Force -Path build,*.log',
+    cmd: 'rmdir /s /q build *.log',
+  },
+  {
+    name: 'paths with spaces',
+    command: 'cp -r src "my backup"',
+    powershell: 'Copy-Item -Recurse -LiteralPath src -Destination "my backup"',
+    cmd: 'xcopy /e /i /y src "my backup"',
+  },
+  {
+    name: 'nested directories',
+    command: 'mkdir -p src/components',
+    powershell: 'New-Item -ItemType Directory -Force -Path src/components',
+    cmd: 'mkdir src\\components',
+  },
+  {
+    name: 'pipes',
+    command: 'cat README.md | grep -i todo',
+    powershell: 'Get-Content -LiteralPath README.md | Select-String -Pattern todo',
+    cmd: 'type README.md | findstr /i /r /c:"todo"',
+  },
+  {
+    name: 'chains',
+    command: 'npm ci && npm test; npm run lint',
+    powershell: 'npm ci; if ($?) { npm test }; npm run lint',
+    cmd: 'npm ci && npm test & npm run lint',
+  },
+  {
+    name: 'words made of several quoted parts',
+    command: 'echo "$USER"\'s files\' \'-$x\'"y"',
+    powershell: 'Write-Output "${env:USER}s files" "-`$xy"',
+    cmd: 'echo %USER%s files -$xy',
+  },
+  {
+    name: 'discarded output',
+    command: 'ls > /dev/null',
+    powershell: 'Get-ChildItem > $null',
+    cmd: 'dir > NUL',
+  },
+  {
+    name: 'environment variables',
+    command: 'export NODE_ENV=production',
+    powershell: '$env:NODE_ENV = "production"',
+    cmd: 'set "NODE_ENV=production"',
+  },
+  {
+    name: 'cross-platform programs',
+    command: 'ollama pull llama3 && git status',
+    powershell: 'ollama pull llama3; if ($?) { git status }',
+    cmd: 'ollama pull llama3 && git status',
+  },
+  {
+    name: 'programs hidden by Windows PowerShell aliases',
+    command: 'curl -o out.zip https://example.com/out.zip',
+    powershell: 'curl.exe -o out.zip https://example.com/out.zip',
+    cmd: 'curl -o out.zip https://example.com/out.zip',
+  },
+  {
+    name: 'local scripts',
+    command: './build.sh --release',
+    powershell: './build.sh --release',
+    cmd: '.\\build.sh --release',
+  },
+  {
+    name: 'commands already written for Windows',
+    command: 'Get-ChildItem -Force',
+    powershell: 'Get-ChildItem -Force',
+    cmd: 'Get-ChildItem -Force',
+  },
+];
+
+describe('translateCommand', () => {
+  it.each(CASES.flatMap(({ name, command, ...expected }) =>
+    (['powershell', 'cmd'] as WindowsShell[]).map(shell => ({ name, shell, command, expected: expected[shell] }))
+  ))('translates $name for $shell', ({ command, shell, expected }) => {
+    expect(translateCommand(command, shell)).toEqual({ command: expected, warnings: [] });
+  });
+
+  it.each([
+    ['wget https://example.com/file', 'powershell', /alias for Invoke-WebRequest/],
+    ['diff a.txt b.txt', 'powershell', /alias for Compare-Object/],
+    ['sed -i s/a/b/ file', 'cmd', /sed has no equivalent/],
+    ['cd -', 'powershell', /cd - has no equivalent/],
+    ['rm ~bob/notes', 'cmd', /another user's home directory/],
+    ['rm *.log "[1].txt"', 'powershell', /can't mix wildcards/],
+    ['head -n 5 log.txt', 'cmd', /head has no cmd equivalent/],
+    ['npm ci && npm test || echo failed', 'powershell', /mix && and \|\|/],
+  ] as const)('leaves %j for %s as written', (command, shell, warning) => {
+    const { command: translated, warnings } = translateCommand(command, shell);
+    expect(translated).toBe(command);
+    expect(warnings).toEqual([expect.stringMatching(warning)]);
+  });
+
+  it('leaves whole command lines it can\'t split as written', () => {
+    expect(translateCommand('ls &', 'cmd').warnings).toEqual(['Left the command as written: background jobs are not supported.']);
+    expect(translateCommand('echo "unterminated', 'powershell').command).toBe('echo "unterminated');
+  });
+});
@@ -0,0 +1,685 @@
+/**
+ * Translates POSIX shell commands into PowerShell or cmd.
+ *
+ * The command is tokenized with its quoting preserved, split into simple
+ * commands, and each common utility is rewritten together with its flags.
+ * Programs that work the same everywhere (git, npm, ollama...) and all
+ * arguments, URLs and quoted strings pass through untouched. Anything that
+ * can't be translated faithfully is left as written and reported as a warning.
+ */
+
+export type WindowsShell = 'powershell' | 'cmd';
+
+export interface CommandTranslation {
+  command: string;
+  // Parts that could not be translated safely and were left as written
+  warnings: string[];
+}
+
+interface WordPart {
+  text: string;
+  quote: 'none' | 'single' | 'double';
+}
+
+interface Word {
+  raw: string;
+  parts: WordPart[];
+}
+
+type Operator = '&&' | '||' | '|' | ';' | '&';
+
+interface SimpleCommand {
+  words: Word[];
+  // Redirections such as "> out.txt" or "2>&1", kept in order
+  redirects: { operator: string; target?: Word }[];
+  // Operator joining this command to the next one
+  next?: Operator;
+}
+
+class TranslationError extends Error {}
+
+const wordValue = (word: Word): string => word.parts.map(part => part.text).join('');
+
+const tokenize = (command: string): SimpleCommand[] => {
+  const commands: SimpleCommand[] = [];
+  let current: SimpleCommand = { words: [], redirects: [] };
+  let word: Word | null = null;
+  let pendingRedirect: string | null = null;
+
+  const addPart = (text: string, quote: WordPart['quote'], raw: string) => {
+    word = word ?? { raw: '', parts: [] };
+    word.raw += raw;
+    const last = word.parts[word.parts.length - 1];
+    if (last && last.quote === quote) {
+      last.text += text;
+    } else {
+      word.parts.push({ text, quote });
+    }
+  };
+
+  const endWord = () => {
+    if (!word) {
+      return;
+    }
+    if (pendingRedirect) {
+      current.redirects.push({ operator: pendingRedirect, target: word });
+      pendingRedirect = null;
+    } else {
+      current.words.push(word);
+    }
+    word = null;
+  };
+
+  const endCommand = (next?: Operator) => {
+    endWord();
+    if (pendingRedirect) {
+      throw new TranslationError(`redirection "${pendingRedirect}" has no target`);
+    }
+    if (current.words.length > 0) {
+      current.next = next;
+      commands.push(current);
+    } else if (next) {
+      throw new TranslationError(`"${next}" has no command before it`);
+    }
+    current = { words: [], redirects: [] };
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new TranslationError('unterminated single quote');
+      }
+      addPart(command.slice(i + 1, end), 'single', command.slice(i, end + 1));
+      i = end;
+    } else if (char === '"') {
+      let text = '';
+      let j = i + 1;
+      for (; j < command.length && command[j] !== '"'; j++) {
+        if (command[j] === '\\' && /["\\$`]/.test(command[j + 1] ?? '')) {
+          j++;
+        }
+        text += command[j];
+      }
+      if (j >= command.length) {
+        throw new TranslationError('unterminated double quote');
+      }
+      addPart(text, 'double', command.slice(i, j + 1));
+      i = j;
+    } else if (char === '\\') {
+      // An escaped character is a literal; treat it as single-quoted text
+      addPart(command[i + 1] ?? '', 'single', command.slice(i, i + 2));
+      i++;
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else if (char === '&' && command[i + 1] === '&' || char === '|' && command[i + 1] === '|') {
+      endCommand(`${char}${char}` as Operator);
+      i++;
+    } else if (char === '|' || char === ';') {
+      endCommand(char);
+    } else if (char === '&' && command[i - 1] !== '>') {
+      endCommand('&');
+    } else if (char === '>' || char === '<') {
+      // Redirection, optionally preceded by a file descriptor: 2>, >>, 2>&1
+      const fd = word && /^\d$/.test(word.raw) ? word.raw : '';
+      if (fd) {
+        word = null;
+      } else {
+        endWord();
+      }
+      const operator = command.slice(i).match(/^(>>|>&\d|>|<)/)[0];
+      i += operator.length - 1;
+      if (operator.startsWith('>&')) {
+        current.redirects.push({ operator: `${fd}${operator}` });
+      } else {
+        pendingRedirect = `${fd}${operator}`;
+      }
+    } else if (char === '`' || (char === '$' && command[i + 1] === '(') || char === '(' || char === ')' || char === '{' && !word?.raw.endsWith('$')) {
+      throw new TranslationError('subshells, command substitution and grouping are not supported');
+    } else {
+      addPart(char, 'none', char);
+    }
+  }
+
+  endCommand();
+  return commands;
+};
+
+// Environment variables referenced as $NAME or ${NAME}
+const VARIABLE = /\$\{?([A-Za-z_][A-Za-z0-9_]*)\}?/g;
+
+// Variables PowerShell defines itself under the same name
+const POWERSHELL_AUTOMATIC = new Set(['HOME', 'PWD', 'true', 'false', 'null', 'args', 'input']);
+
+const emitPowerShell = (word: Word): string => {
+  // Braces keep a variable apart from text that follows it from the next part
+  const withVariables = (value: string, braced = false) => value.replace(VARIABLE, (_match, name: string) => {
+    const variable = POWERSHELL_AUTOMATIC.has(name) ? name : `env:${name}`;
+    return braced ? `\${${variable}}` : `$${variable}`;
+  });
+  // A quoted string ends the argument in PowerShell, so a word made of several parts becomes one double-quoted string
+  if (word.parts.length > 1) {
+    return `"${word.parts.map(({ text, quote }) => quote === 'single'
+      ? text.replace(/[`"$]/g, '`$&')
+      : withVariables(text.replace(/[`"]/g, '`$&'), true)).join('')}"`;
+  }
+  return word.parts.map(({ text, quote }) => {
+    if (quote === 'single') {
+      return `'${text.replace(/'/g, "''")}'`;
+    }
+    if (quote === 'double') {
+      return `"${withVariables(text).replace(/`/g, '``').replace(/"/g, '`"')}"`;
+    }
+    return withVariables(text);
+  }).join('');
+};
+
+// cmd writes variables as %NAME%; Windows keeps the home directory in USERPROFILE
+const withCmdVariables = (value: string): string => {
+  return value.replace(VARIABLE, (_match, name: string) => `%${name === 'HOME' ? 'USERPROFILE' : name}%`);
+};
+
+const emitCmd = (word: Word, isPath = false): string => {
+  const hasQuotes = word.parts.some(part => part.quote !== 'none');
+  const text = word.parts.map(({ text: value, quote }) => {
+    const converted = quote === 'single' ? value : withCmdVariables(value);
+    // cmd treats "/" as a switch prefix, so paths need backslashes
+    return isPath && !/^[a-z]+:\/\//i.test(converted) ? converted.replace(/\//g, '\\') : converted;
+  }).join('');
+  if (text.includes('"') && hasQuotes) {
+    throw new TranslationError('cmd can\'t quote text that contains double quotes');
+  }
+  // cmd only understands double quotes
+  return hasQuotes || /[\s&|<>^]/.test(text) ? `"${text}"` : text;
+};
+
+// Neither Windows shell expands a leading "~", so it becomes the home directory variable
+const expandHome = (word: Word, shell: WindowsShell): Word => {
+  const [first, ...rest] = word.parts;
+  if (first.quote !== 'none' || !first.text.startsWith('~')) {
+    return word;
+  }
+  if (!/^~(\/|$)/.test(first.text)) {
+    throw new TranslationError(`${first.text.split('/')[0]} can't name another user's home directory`);
+  }
+  const home = shell === 'powershell' ? '$HOME' : '$USERPROFILE';
+  return { raw: word.raw, parts: [{ text: home + first.text.slice(1), quote: 'none' }, ...rest] };
+};
+
+const emit = (word: Word, shell: WindowsShell, isPath = false): string => {
+  const expanded = expandHome(word, shell);
+  return shell === 'powershell' ? emitPowerShell(expanded) : emitCmd(expanded, isPath);
+};
+
+// A PowerShell path argument. A leading "-" is quoted so it isn't read as a parameter name.
+const emitPowerShellPath = (word: Word): string => {
+  const expanded = expandHome(word, 'powershell');
+  const [first] = expanded.parts;
+  return expanded.parts.length === 1 && first.quote === 'none' && first.text.startsWith('-')
+    ? emitPowerShell({ raw: expanded.raw, parts: [{ text: first.text, quote: 'double' }] })
+    : emitPowerShell(expanded);
+};
+
+// Unquoted *, ? and [ are wildcards the POSIX shell would have expanded
+const hasWildcard = (word: Word): boolean => word.parts.some(({ text, quote }) => quote === 'none' && /[*?[]/.test(text));
+
+// PowerShell's path parameter for `operands`: -LiteralPath, so names like "[1].txt" are taken as
+// written, or -Path when the shell would have expanded a wildcard
+const powerShellPaths = (operands: Word[]): string => {
+  const wildcards = operands.some(hasWildcard);
+  if (wildcards && operands.some(operand => !hasWildcard(operand) && /[*?[\]]/.test(wordValue(operand)))) {
+    throw new TranslationError('PowerShell can\'t mix wildcards with paths that contain *, ? or [');
+  }
+  return `${wildcards ? '-Path' : '-LiteralPath'} ${operands.map(emitPowerShellPath).join(',')}`;
+};
+
+interface ParsedArgs {
+  flags: Set<string>;
+  values: Record<string, string>;
+  operands: Word[];
+}
+
+// Parse utility flags. `known` lists single-letter flags; `withValue` those taking a value.
+// Long options are mapped to their short form through `long`.
+const parseArgs = (
+  program: string,
+  args: Word[],
+  known: string,
+  withValue = '',
+  long: Record<string, string> = {}
+): ParsedArgs => {
+  const parsed: ParsedArgs = { flags: new Set(), values: {}, operands: [] };
+  let onlyOperands = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const value = wordValue(args[i]);
+    const quoted = args[i].parts.some(part => part.quote !== 'none');
+
+    if (onlyOperands || quoted || !value.startsWith('-') || value === '-') {
+      parsed.operands.push(args[i]);
+    } else if (value === '--') {
+      onlyOperands = true;
+    } else if (value.startsWith('--')) {
+      const [name, inline] = value.slice(2).split('=');
+      const short = long[name];
+      if (!short) {
+        throw new TranslationError(`${program} option --${name} has no known equivalent`);
+      }
+      if (withValue.includes(short)) {
+        parsed.values[short] = inline ?? wordValue(args[++i] ?? { raw: '', parts: [] });
+      } else {
+        parsed.flags.add(short);
+      }
+    } else if (/^-\d+$/.test(value) && withValue.includes('n')) {
+      // head -5 is short for head -n 5
+      parsed.values.n = value.slice(1);
+    } else {
+      const letters = value.slice(1);
+      for (let j = 0; j < letters.length; j++) {
+        const flag = letters[j];
+        if (!known.includes(flag)) {
+          throw new TranslationError(`${program} option -${flag} has no known equivalent`);
+        }
+        if (withValue.includes(flag)) {
+          const rest = letters.slice(j + 1);
+          parsed.values[flag] = rest || wordValue(args[++i] ?? { raw: '', parts: [] });
+          break;
+        }
+        parsed.flags.add(flag);
+      }
+    }
+  }
+  return parsed;
+};
+
+const requireOperands = (program: string, operands: Word[], min: number, max = Infinity) => {
+  if (operands.length < min || operands.length > max) {
+    throw new TranslationError(`${program} with ${operands.length} argument${operands.length === 1 ? '' : 's'} is not supported`);
+  }
+};
+
+interface TranslateContext {
+  shell: WindowsShell;
+  // The command reads from a pipe
+  piped: boolean;
+}
+
+type Translator = (args: Word[], context: TranslateContext) => string;
+
+const paths = (operands: Word[], shell: WindowsShell) => operands.map(operand => emit(operand, shell, true)).join(' ');
+
+const number = (program: string, value: string | undefined, fallback: number): number => {
+  const count = value === undefined ? fallback : Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new TranslationError(`${program} count "${value}" is not a number`);
+  }
+  return count;
+};
+
+const TRANSLATORS: Record<string, Translator> = {
+  ls: (args, { shell }) => {
+    const { flags, operands } = parseArgs('ls', args, 'laRh1', '', { all: 'a', recursive: 'R' });
+    if (shell === 'cmd') {
+      return ['dir', flags.has('a') && '/a', flags.has('R') && '/s', paths(operands, shell)].filter(Boolean).join(' ');
+    }
+    return ['Get-ChildItem', flags.has('a') && '-Force', flags.has('R') && '-Recurse', operands.length > 0 && powerShellPaths(operands)].filter(Boolean).join(' ');
+  },
+  cat: (args, { shell }) => {
+    const { operands } = parseArgs('cat', args, '');
+    requireOperands('cat', operands, 1);
+    return shell === 'cmd' ? `type ${paths(operands, shell)}` : `Get-Content ${powerShellPaths(operands)}`;
+  },
+  rm: (args, { shell }) => {
+    const { flags, operands } = parseArgs('rm', args, 'rRfvi', '', { recursive: 'r', force: 'f' });
+    requireOperands('rm', operands, 1);
+    const recursive = flags.has('r') || flags.has('R');
+    if (shell === 'cmd') {
+      return recursive
+        ? `rmdir /s /q ${paths(operands, shell)}`
+        : ['del', flags.has('f') && '/f', '/q', paths(operands, shell)].filter(Boolean).join(' ');
+    }
+    return ['Remove-Item', recursive && '-Recurse', flags.has('f') && '-Force', powerShellPaths(operands)].filter(Boolean).join(' ');
+  },
+  cp: (args, { shell }) => {
+    const { flags, operands } = parseArgs('cp', args, 'rRfv', '', { recursive: 'r', force: 'f' });
+    requireOperands('cp', operands, 2, shell === 'cmd' ? 2 : Infinity);
+    const recursive = flags.has('r') || flags.has('R');
+    if (shell === 'cmd') {
+      return recursive ? `xcopy /e /i /y ${paths(operands, shell)}` : `copy /y ${paths(operands, shell)}`;
+    }
+    const destination = operands[operands.length - 1];
+    return ['Copy-Item', recursive && '-Recurse', flags.has('f') && '-Force', powerShellPaths(operands.slice(0, -1)), '-Destination', emitPowerShellPath(destination)]
+      .filter(Boolean).join(' ');
+  },
+  mv: (args, { shell }) => {
+    const { flags, operands } = parseArgs('mv', args, 'fv', '', { force: 'f' });
+    requireOperands('mv', operands, 2, 2);
+    if (shell === 'cmd') {
+      return `move /y ${paths(operands, shell)}`;
+    }
+    return ['Move-Item', flags.has('f') && '-Force', powerShellPaths([operands[0]]), '-Destination', emitPowerShellPath(operands[1])].filter(Boolean).join(' ');
+  },
+  mkdir: (args, { shell }) => {
+    const { flags, operands } = parseArgs('mkdir', args, 'pv', '', { parents: 'p' });
+    requireOperands('mkdir', operands, 1);
+    if (shell === 'cmd') {
+      // cmd's mkdir already creates missing parents
+      return `mkdir ${paths(operands, shell)}`;
+    }
+    return ['New-Item', '-ItemType Directory', flags.has('p') && '-Force', '-Path', operands.map(emitPowerShellPath).join(',')].filter(Boolean).join(' ');
+  },
+  touch: (args, { shell }) => {
+    const { operands } = parseArgs('touch', args, '');
+    requireOperands('touch', operands, 1, 1);
+    if (shell === 'cmd') {
+      // Creates the file if missing; existing files keep their timestamp
+      return `type nul >> ${emit(operands[0], shell, true)}`;
+    }
+    const path = powerShellPaths(operands);
+    return `if (Test-Path ${path}) { (Get-Item ${path}).LastWriteTime = Get-Date } else { New-Item -ItemType File -Path ${emitPowerShellPath(operands[0])} | Out-Null }`;
+  },
+  cd: (args, { shell }) => {
+    const { operands } = parseArgs('cd', args, '');
+    requireOperands('cd', operands, 0, 1);
+    // With no directory, cd goes home
+    const [directory = { raw: '~', parts: [{ text: '~', quote: 'none' }] }] = operands;
+    if (wordValue(directory) === '-') {
+      throw new TranslationError('cd - has no equivalent');
+    }
+    // cmd only changes drive with /d
+    return shell === 'cmd' ? `cd /d ${emit(directory, shell, true)}` : `Set-Location ${powerShellPaths([directory])}`;
+  },
+  pwd: (args, { shell }) => {
+    requireOperands('pwd', args, 0, 0);
+    return shell === 'cmd' ? 'cd' : 'Get-Location';
+  },
+  clear: (args, { shell }) => shell === 'cmd' ? 'cls' : 'Clear-Host',
+  which: (args, { shell }) => {
+    const { operands } = parseArgs('which', args, 'a');
+    requireOperands('which', operands, 1);
+    return shell === 'cmd' ? `where ${paths(operands, shell)}` : `Get-Command ${operands.map(operand => emit(operand, shell)).join(',')}`;
+  },
+  echo: (args, { shell }) => {
+    const first = args[0] && wordValue(args[0]);
+    if (first === '-n' || first === '-e') {
+      throw new TranslationError(`echo ${first} is not supported`);
+    }
+    if (shell === 'cmd') {
+      // cmd prints quotes literally, so pass the text through unquoted
+      const text = args.map(arg => arg.parts.map(({ text: value, quote }) => quote === 'single' ? value : withCmdVariables(value)).join(''));
+      return text.length ? `echo ${text.join(' ')}` : 'echo.';
+    }
+    return ['Write-Output', ...args.map(arg => emit(arg, shell))].join(' ');
+  },
+  grep: (args, { shell, piped }) => {
+    const { flags, operands } = parseArgs('grep', args, 'ivnrlcE', '', {
+      'ignore-case': 'i', 'invert-match': 'v', 'line-number': 'n', recursive: 'r', 'files-with-matches': 'l', count: 'c',
+    });
+    requireOperands('grep', operands, 1);
+    const [pattern, ...files] = operands;
+    if (!piped && files.length === 0 && !flags.has('r')) {
+      throw new TranslationError('grep needs input files or a pipe');
+    }
+
+    if (shell === 'cmd') {
+      if (flags.has('l') || flags.has('c')) {
+        throw new TranslationError('findstr has no equivalent for grep -l or -c');
+      }
+      return [
+        'findstr', flags.has('i') && '/i', flags.has('v') && '/v', flags.has('n') && '/n', flags.has('r') && '/s',
+        `/r /c:"${emitCmd(pattern).replace(/^"(.*)"$/, '$1')}"`,
+        files.length ? paths(files, shell) : flags.has('r') ? '*' : '',
+      ].filter(Boolean).join(' ');
+    }
+
+    const source = flags.has('r')
+      ? `Get-ChildItem -Recurse -File ${files.length ? powerShellPaths(files) : ''}`.trim() + ' | '
+      : '';
+    const select = [
+      'Select-String', '-Pattern', emit(pattern, shell),
+      !flags.has('r') && files.length && powerShellPaths(files),
+      // grep is case-sensitive by default, Select-String is not
+      !flags.has('i') && '-CaseSensitive', flags.has('v') && '-NotMatch', flags.has('l') && '-List',
+    ].filter(Boolean).join(' ');
+    const output = flags.has('l') ? ' | Select-Object -ExpandProperty Path'
+      : flags.has('c') ? ' | Measure-Object | Select-Object -ExpandProperty Count'
+        : '';
+    return `${source}${select}${output}`;
+  },
+  head: (args, { shell, piped }) => {
+    if (shell === 'cmd') {
+      throw new TranslationError('head has no cmd equivalent');
+    }
+    const { values, operands } = parseArgs('head', args, 'n', 'n', { lines: 'n' });
+    const count = number('head', values.n, 10);
+    if (piped && operands.length === 0) {
+      return `Select-Object -First ${count}`;
+    }
+    requireOperands('head', operands, 1);
+    return `Get-Content ${powerShellPaths(operands)} -TotalCount ${count}`;
+  },
+  tail: (args, { shell, piped }) => {
+    if (shell === 'cmd') {
+      throw new TranslationError('tail has no cmd equivalent');
+    }
+    const { flags, values, operands } = parseArgs('tail', args, 'nf', 'n', { lines: 'n', follow: 'f' });
+    const count = number('tail', values.n, 10);
+    if (piped && operands.length === 0) {
+      if (flags.has('f')) {
+        throw new TranslationError('tail -f on a pipe is not supported');
+      }
+      return `Select-Object -Last ${count}`;
+    }
+    requireOperands('tail', operands, 1);
+    return ['Get-Content', powerShellPaths(operands), `-Tail ${count}`, flags.has('f') && '-Wait'].filter(Boolean).join(' ');
+  },
+  wc: (args, { shell, piped }) => {
+    const { flags, operands } = parseArgs('wc', args, 'lwc', '', { lines: 'l', words: 'w', chars: 'c' });
+    if (shell === 'cmd' || flags.size !== 1) {
+      throw new TranslationError(shell === 'cmd' ? 'wc has no cmd equivalent' : 'wc needs exactly one of -l, -w or -c');
+    }
+    const measure = flags.has('l') ? '-Line' : flags.has('w') ? '-Word' : '-Character';
+    const property = flags.has('l') ? 'Lines' : flags.has('w') ? 'Words' : 'Characters';
+    if (!piped) {
+      requireOperands('wc', operands, 1);
+    }
+    const source = piped && operands.length === 0 ? '' : `Get-Content ${powerShellPaths(operands)} | `;
+    return `${source}Measure-Object ${measure} | Select-Object -ExpandProperty ${property}`;
+  },
+  export: (args, { shell }) => {
+    return args.map(arg => {
+      const value = wordValue(arg);
+      const match = value.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s);
+      if (!match) {
+        throw new TranslationError(`export ${value} is not an assignment`);
+      }
+      const [, name, rest] = match;
+      const valueWord: Word = { raw: rest, parts: [{ text: rest, quote: arg.parts.some(part => part.quote === 'single') ? 'single' : 'double' }] };
+      return shell === 'cmd'
+        ? `set "${name}=${withCmdVariables(rest)}"`
+        : `$env:${name} = ${emitPowerShell(valueWord)}`;
+    }).join(shell === 'cmd' ? ' & ' : '; ');
+  },
+  env: (args, { shell }) => {
+    requireOperands('env', args, 0, 0);
+    return shell === 'cmd' ? 'set' : 'Get-ChildItem Env:';
+  },
+  find: (args, { shell }) => {
+    if (shell === 'cmd') {
+      throw new TranslationError('find has no cmd equivalent');
+    }
+    // Only the common "find <dir> -name <pattern> [-type f|d]" form
+    const values = args.map(wordValue);
+    const root = values[0] && !values[0].startsWith('-') ? args[0] : null;
+    const rest = root ? args.slice(1) : args;
+    const options: string[] = [];
+    for (let i = 0; i < rest.length; i += 2) {
+      const option = wordValue(rest[i]);
+      const value = rest[i + 1];
+      if (option === '-name' && value) {
+        options.push(`-Filter ${emit(value, shell)}`);
+      } else if (option === '-type' && value && ['f', 'd'].includes(wordValue(value))) {
+        options.push(wordValue(value) === 'f' ? '-File' : '-Directory');
+      } else {
+        throw new TranslationError(`find ${option} is not supported`);
+      }
+    }
+    return ['Get-ChildItem', root && powerShellPaths([root]), '-Recurse', ...options].filter(Boolean).join(' ');
+  },
+};
+
+// Utilities with no faithful translation
+const UNSUPPORTED: Record<string, string> = {
+  sudo: 'Windows has no sudo; start the command bridge from an elevated terminal instead',
+  doas: 'Windows has no doas; start the command bridge from an elevated terminal instead',
+  chmod: 'Windows has no Unix file modes',
+  chown: 'Windows has no Unix file owners',
+  ln: 'links need New-Item -ItemType SymbolicLink or mklink, which differ in meaning',
+  sed: 'sed has no equivalent',
+  awk: 'awk has no equivalent',
+  xargs: 'xargs has no equivalent',
+  source: 'POSIX scripts can\'t be sourced',
+  '.': 'POSIX scripts can\'t be sourced',
+};
+
+// The bridge runs Windows PowerShell 5.1, where these aliases hide the programs of the same name
+const POWERSHELL_SHADOWED: Record<string, string> = {
+  curl: 'curl.exe',
+  where: 'where.exe',
+  sc: 'sc.exe',
+};
+
+// Aliases there with no program behind them on a stock Windows install
+const POWERSHELL_ALIASES: Record<string, string> = {
+  wget: 'wget is an alias for Invoke-WebRequest in Windows PowerShell, which takes different options; use curl.exe',
+  diff: 'diff is an alias for Compare-Object in Windows PowerShell, which compares objects rather than files',
+};
+
+const CMD_BUILTINS = new Set(['dir', 'copy', 'xcopy', 'robocopy', 'del', 'erase', 'rmdir', 'rd', 'move', 'type', 'findstr', 'where', 'cls', 'set', 'md']);
+
+// Commands already written for Windows are left alone
+const isWindowsNative = (commands: SimpleCommand[]): boolean => {
+  return commands.some(({ words }) => {
+    const program = wordValue(words[0]);
+    return /^[A-Z][a-z]+-[A-Z][A-Za-z]+$/.test(program)
+      || /^\$env:/i.test(program)
+      || CMD_BUILTINS.has(program.toLowerCase()) && words.slice(1).some(word => /^\/[a-z?]{1,2}$/i.test(wordValue(word)))
+      || words.some(word => /^[A-Za-z]:\\/.test(wordValue(word)));
+  });
+};
+
+const translateRedirect = ({ operator, target }: SimpleCommand['redirects'][number], shell: WindowsShell): string => {
+  if (!target) {
+    return operator;
+  }
+  if (operator === '<' && shell === 'powershell') {
+    throw new TranslationError('PowerShell has no input redirection');
+  }
+  const value = wordValue(target);
+  const file = value === '/dev/null'
+    ? (shell === 'cmd' ? 'NUL' : '$null')
+    : emit(target, shell, true);
+  return `${operator} ${file}`;
+};
+
+const emitProgram = (word: Word, shell: WindowsShell): string => {
+  const program = wordValue(word);
+  if (shell === 'powershell' && POWERSHELL_SHADOWED[program]) {
+    return POWERSHELL_SHADOWED[program];
+  }
+  return emit(word, shell, shell === 'cmd' && program.startsWith('./'));
+};
+
+const translateSimple = (command: SimpleCommand, shell: WindowsShell, piped: boolean, warnings: string[]): string => {
+  const [programWord, ...args] = command.words;
+  const program = wordValue(programWord);
+
+  try {
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(program)) {
+      throw new TranslationError('inline variable assignments are not supported');
+    }
+    if (UNSUPPORTED[program]) {
+      throw new TranslationError(UNSUPPORTED[program]);
+    }
+    if (shell === 'powershell' && POWERSHELL_ALIASES[program]) {
+      throw new TranslationError(POWERSHELL_ALIASES[program]);
+    }
+
+    const translator = TRANSLATORS[program];
+    const translated = translator
+      ? translator(args, { shell, piped })
+      // Cross-platform programs keep their arguments; only the quoting and variables change
+      : [emitProgram(programWord, shell), ...args.map(arg => emit(arg, shell))].join(' ');
+    return [translated, ...command.redirects.map(redirect => translateRedirect(redirect, shell))].join(' ');
+  } catch (error) {
+    if (error instanceof TranslationError) {
+      const original = [
+        ...command.words.map(word => word.raw),
+        ...command.redirects.map(({ operator, target }) => target ? `${operator} ${target.raw}` : operator),
+      ].join(' ');
+      warnings.push(`Left "${original}" as written: ${error.message}.`);
+      return original;
+    }
+    throw error;
+  }
+};
+
+// Join translated commands. Windows PowerShell 5 has no && or ||, so those become $? checks.
+const joinCommands = (commands: SimpleCommand[], translated: string[], shell: WindowsShell): string => {
+  let result = translated[0];
+  let closing = '';
+  for (let i = 1; i < translated.length; i++) {
+    const operator = commands[i - 1].next;
+    if (shell === 'cmd') {
+      result += operator === ';' ? ` & ${translated[i]}` : ` ${operator} ${translated[i]}`;
+    } else if (operator === '&&' || operator === '||') {
+      result += `; if (${operator === '&&' ? '$?' : '-not $?'}) { ${translated[i]}`;
+      closing += ' }';
+    } else if (operator === ';') {
+      // A list item runs whatever the chain before it did
+      result += `${closing}; ${translated[i]}`;
+      closing = '';
+    } else {
+      result += ` ${operator} ${translated[i]}`;
+    }
+  }
+  return result + closing;
+};
+
+// Translate a POSIX command line for a Windows shell
+export const translateCommand = (command: string, shell: WindowsShell): CommandTranslation => {
+  const unchanged = (reason: string): CommandTranslation => ({ command, warnings: [`Left the command as written: ${reason}.`] });
+
+  if (command.includes('\n') || /<<|<\(|>\(/.test(command)) {
+    return unchanged('multi-line commands, heredocs and process substitution are not supported');
+  }
+
+  let commands: SimpleCommand[];
+  try {
+    commands = tokenize(command);
+  } catch (error) {
+    if (error instanceof TranslationError) {
+      return unchanged(error.message);
+    }
+    throw error;
+  }
+
+  if (commands.length === 0 || isWindowsNative(commands)) {
+    return { command, warnings: [] };
+  }
+
+  const operators = new Set(commands.map(({ next }) => next));
+  if (operators.has('&')) {
+    return unchanged('background jobs are not supported');
+  }
+  if (shell === 'powershell' && operators.has('&&') && operators.has('||')) {
+    return unchanged('PowerShell can\'t express chains that mix && and ||');
+  }
+
+  const warnings: string[] = [];
+  const translated = commands.map((simple, index) =>
+    translateSimple(simple, shell, index > 0 && commands[index - 1].next === '|', warnings));
+  return { command: joinCommands(commands, translated, shell), warnings };
+};
@@ -0,0 +1,49 @@
+/**
+ * Keyboard shortcut strings such as "Mod+K" or "Alt+Shift+1". "Mod" is Ctrl,
+ * or Cmd on a Mac; keys are matched by physical position so Alt combinations
+ * still work on layouts where Alt types a special character.
+ */
+
+import { detectOS } from './platformUtils';
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock']);
+
+// The shortcut string for a key press, or null for a bare modifier
+export const eventToKeybinding = (
+  event: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): string | null => {
+  if (MODIFIER_KEYS.has(event.key)) {
+    return null;
+  }
+
+  const key = event.code.match(/^Key([A-Z])$/)?.[1]
+    ?? event.code.match(/^Digit(\d)$/)?.[1]
+    ?? (event.key.length === 1 ? event.key.toUpperCase() : event.key);
+  return [
+    (event.ctrlKey || event.metaKey) && 'Mod',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    key,
+  ].filter(Boolean).join('+');
+};
+
+// Human-readable form, using the Mac symbols there
+export const formatKeybinding = (binding: string): string => {
+  const parts = binding.split('+');
+  if (detectOS() === 'mac') {
+    const symbols: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+    return parts.map(part => symbols[part] ?? part).join('');
+  }
+  return parts.map(part => part === 'Mod' ? 'Ctrl' : part).join('+');
+};
+
+// Whether a shortcut has Ctrl, Cmd or Alt, so it can fire while typing in a field
+export const hasCommandModifier = (binding: string): boolean => {
+  return /^(Mod|Alt)\+/.test(binding);
+};
+
+// Whether key presses on this element are text entry
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+};
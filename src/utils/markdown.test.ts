@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Inline, parseInline, parseMarkdown, sanitizeUrl } from './markdown';
+
+// Every link target anywhere in a parsed tree
+const linkTargets = (nodes: Inline[]): string[] => nodes.flatMap(node => {
+  if (node.type === 'link') {
+    return [node.href, ...linkTargets(node.children)];
+  }
+  return 'children' in node ? linkTargets(node.children) : [];
+});
+
+const UNSAFE_URLS = [
+  'javascript:alert(1)',
+  'JavaScript:alert(1)',
+  ' javascript:alert(1)',
+  'java\tscript:alert(1)',
+  'java\nscript:alert(1)',
+  'javascript&colon;alert(1)',
+  '&#106;avascript:alert(1)',
+  'jav&#x09;ascript:alert(1)',
+  'vbscript:msgbox(1)',
+  'data:text/html,<script>alert(1)</script>',
+  'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+  'file:///etc/passwd',
+  'blob:https://example.com/1234',
+  '//evil.example.com',
+  '/relative/path',
+  'not a url',
+  '',
+];
+
+describe('sanitizeUrl', () => {
+  it.each(UNSAFE_URLS)('rejects %j', (href) => {
+    expect(sanitizeUrl(href)).toBeUndefined();
+  });
+
+  it('keeps http, https and mailto links', () => {
+    expect(sanitizeUrl('https://ollama.com/library')).toBe('https://ollama.com/library');
+    expect(sanitizeUrl('http://localhost:11434/api/tags')).toBe('http://localhost:11434/api/tags');
+    expect(sanitizeUrl('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+  });
+
+  it('returns the normalised URL, so quotes and brackets are escaped', () => {
+    expect(sanitizeUrl('https://example.com/"><script>')).toBe('https://example.com/%22%3E%3Cscript%3E');
+  });
+});
+
+describe('parseInline', () => {
+  it('drops the link but keeps the text for unsafe targets', () => {
+    expect(parseInline('[click me](javascript:alert(1))')).toEqual([{ type: 'text', text: 'click me' }]);
+  });
+
+  it('never produces a link to an unsafe URL', () => {
+    const payloads = UNSAFE_URLS.filter(Boolean).flatMap(href => [`[x](${href})`, `[x](<${href}>)`, `<${href}>`, href]);
+    for (const payload of payloads) {
+      expect(linkTargets(parseInline(payload)).filter(href => !/^(https?|mailto):/.test(href))).toEqual([]);
+    }
+  });
+
+  it('keeps raw HTML as text', () => {
+    const nodes = parseInline('<img src=x onerror=alert(1)> and <script>alert(1)</script>');
+    expect(nodes.every(node => node.type === 'text')).toBe(true);
+    expect(nodes.map(node => (node.type === 'text' ? node.text : '')).join('')).toBe('<img src=x onerror=alert(1)> and <script>alert(1)</script>');
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('reduces fence info strings to name-like characters', () => {
+    const [block] = parseMarkdown('```js" onmouseover="alert(1)\nx\n```');
+    expect(block).toEqual({ type: 'code', language: expect.stringMatching(/^[\w+#.-]*$/), content: 'x' });
+  });
+});
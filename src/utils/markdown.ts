@@ -0,0 +1,382 @@
+/**
+ * A small markdown parser for AI responses. It produces a tree that the
+ * Markdown component renders as React elements, so text is always escaped:
+ * raw HTML in a response shows up as written, and links are kept only when
+ * they point at http, https or mailto URLs.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | undefined;
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; language: string; content: string }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'table'; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Lists and quotes nested deeper than this are read as plain paragraphs
+const MAX_DEPTH = 16;
+
+// Longest link text looked for, so a stray "[" doesn't rescan the whole response
+const MAX_LINK_LABEL = 500;
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const FENCE_CLOSE = /^ {0,3}(`{3,}|~{3,})\s*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// The URL to link to, or undefined for schemes such as javascript: and data:
+export const sanitizeUrl = (href: string): string | undefined => {
+  try {
+    const url = new URL(href.trim());
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Info strings like "{bash}", ".sh" or "bash title=x" reduce to the language name,
+// which ends up in a class name and so keeps only name-like characters
+const fenceLanguage = (info: string): string => info.replace(/^[{.]+|[}]+$/g, '').replace(/[^\w+#.-]/g, '').toLowerCase();
+
+const startsBlock = (line: string): boolean =>
+  FENCE_OPEN.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+// A header row followed by a |---|:---:| delimiter row
+const startsTable = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && TABLE_DELIMITER.test(lines[index + 1] ?? '') && lines[index + 1].includes('-');
+
+// Split a table row into cells on pipes that aren't escaped or inside code
+const splitRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  const row = line.trim().replace(/^\|/, '');
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      cell += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.trim()) {
+    cells.push(cell.trim());
+  }
+  return cells;
+};
+
+const tableAlign = (delimiter: string): TableAlign => {
+  const left = delimiter.startsWith(':');
+  const right = delimiter.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : undefined;
+};
+
+// Find the closing run for an emphasis or code delimiter, or -1
+const findClosing = (text: string, marker: string, from: number): number => {
+  for (let index = text.indexOf(marker, from); index !== -1; index = text.indexOf(marker, index + 1)) {
+    const before = text[index - 1];
+    const after = text[index + marker.length];
+    if (marker[0] === '`') {
+      if (before !== '`' && after !== '`') {
+        return index;
+      }
+      continue;
+    }
+    // A closing run follows text and, for underscores, doesn't sit inside a word
+    if (before && !/\s/.test(before) && before !== marker[0] && after !== marker[0] && !(marker[0] === '_' && after && /\w/.test(after))) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+// Parse [text](url "title") starting at the opening bracket
+const parseLink = (text: string, start: number): { label: string; href: string; end: number } | undefined => {
+  let depth = 0;
+  let index = start;
+  for (; index < text.length && index - start <= MAX_LINK_LABEL; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text[index] === '[') {
+      depth++;
+    } else if (text[index] === ']' && --depth === 0) {
+      break;
+    }
+  }
+  const target = text.slice(index + 1).match(/^\(\s*<?([^\s()<>]*(?:\([^\s()]*\)[^\s()<>]*)*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/);
+  if (text[index] !== ']' || !target) {
+    return undefined;
+  }
+  return { label: text.slice(start + 1, index), href: target[1], end: index + 1 + target[0].length };
+};
+
+// Links to unsafe URLs keep their text but lose the link
+const linkOrText = (href: string, children: Inline[]): Inline[] => {
+  const safe = sanitizeUrl(href);
+  return safe ? [{ type: 'link', href: safe, children }] : children;
+};
+
+export const parseInline = (text: string): Inline[] => {
+  const nodes: Inline[] = [];
+  let buffer = '';
+  // Delimiters with no closing run left in the text; later ones won't find one either
+  const unclosed = new Set<string>();
+  const closingFor = (marker: string, from: number): number => {
+    const index = unclosed.has(marker) ? -1 : findClosing(text, marker, from);
+    if (index === -1) {
+      unclosed.add(marker);
+    }
+    return index;
+  };
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+  const push = (...inline: Inline[]) => {
+    flush();
+    nodes.push(...inline);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && text[i + 1] === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+    if (char === '\\' && /[!-/:-@[-`{-~]/.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i++;
+      continue;
+    }
+    if (char === '\n') {
+      buffer = buffer.replace(/ +$/, '');
+      push({ type: 'break' });
+      continue;
+    }
+
+    if (char === '`') {
+      const marker = rest.match(/^`+/)[0];
+      const close = closingFor(marker, i + marker.length);
+      if (close === -1) {
+        buffer += marker;
+        i += marker.length - 1;
+        continue;
+      }
+      let code = text.slice(i + marker.length, close).replace(/\n/g, ' ');
+      if (/^ .*[^ ].* $/.test(code)) {
+        code = code.slice(1, -1);
+      }
+      push({ type: 'code', text: code });
+      i = close + marker.length - 1;
+      continue;
+    }
+
+    const autolink = char === '<' && rest.match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+    if (autolink) {
+      push(...linkOrText(autolink[1], [{ type: 'text', text: autolink[1] }]));
+      i += autolink[0].length - 1;
+      continue;
+    }
+    const bareUrl = (char === 'h' || char === 'H') && !/\w/.test(text[i - 1] ?? '') && rest.match(/^https?:\/\/[^\s<>]+[^\s<>.,:;!?'")\]*_]/i);
+    if (bareUrl) {
+      push(...linkOrText(bareUrl[0], [{ type: 'text', text: bareUrl[0] }]));
+      i += bareUrl[0].length - 1;
+      continue;
+    }
+
+    // Images aren't loaded; they show as a link to the image instead
+    if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const link = parseLink(text, char === '!' ? i + 1 : i);
+      if (link) {
+        const label = parseInline(link.label);
+        push(...linkOrText(link.href, label.length > 0 ? label : [{ type: 'text', text: link.href }]));
+        i = link.end - 1;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_' || (char === '~' && text[i + 1] === '~')) {
+      const run = rest.match(char === '~' ? /^~~/ : char === '*' ? /^\*{1,3}/ : /^_{1,3}/)[0];
+      const opens = text[i + run.length] && !/\s/.test(text[i + run.length])
+        && !(char === '_' && /\w/.test(text[i - 1] ?? ''));
+      const close = opens ? closingFor(run, i + run.length + 1) : -1;
+      if (close === -1) {
+        buffer += run;
+        i += run.length - 1;
+        continue;
+      }
+      const inner = parseInline(text.slice(i + run.length, close));
+      if (char === '~') {
+        push({ type: 'del', children: inner });
+      } else if (run.length === 3) {
+        push({ type: 'strong', children: [{ type: 'em', children: inner }] });
+      } else {
+        push({ type: run.length === 2 ? 'strong' : 'em', children: inner });
+      }
+      i = close + run.length - 1;
+      continue;
+    }
+
+    buffer += char;
+  }
+
+  flush();
+  return nodes;
+};
+
+const parseLines = (lines: string[], depth: number): Block[] => {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code; an unclosed fence runs to the end, as in a response still streaming
+    const opening = line.match(FENCE_OPEN);
+    if (opening) {
+      const marker = opening[1];
+      const content: string[] = [];
+      let closed = false;
+      for (i++; i < lines.length && !closed; i++) {
+        const closing = lines[i].match(FENCE_CLOSE);
+        closed = closing && closing[1][0] === marker[0] && closing[1].length >= marker.length;
+        if (!closed) {
+          content.push(lines[i]);
+        }
+      }
+      if (!closed && content.length > 0 && !content[content.length - 1].trim()) {
+        content.pop();
+      }
+      blocks.push({ type: 'code', language: fenceLanguage(opening[2]), content: content.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (depth < MAX_DEPTH && QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || quoted.length > 0 && !startsBlock(lines[i])); i++) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(quoted, depth + 1) });
+      continue;
+    }
+
+    const firstItem = line.match(LIST_ITEM);
+    if (depth < MAX_DEPTH && firstItem) {
+      const ordered = /\d/.test(firstItem[2]);
+      const items: Block[][] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || /\d/.test(item[2]) !== ordered) {
+          break;
+        }
+        // Continuation lines are indented at least as far as the item's text
+        const indent = item[0].length === lines[i].length ? item[1].length + item[2].length + 1 : item[0].length;
+        const content = [lines[i].slice(item[0].length)];
+        for (i++; i < lines.length; i++) {
+          const next = lines[i];
+          const indented = next.match(/^ */)[0].length >= Math.min(indent, 4);
+          if (next.trim() && indented) {
+            content.push(next.slice(Math.min(indent, next.match(/^ */)[0].length)));
+          } else if (!next.trim() && lines[i + 1]?.match(/^ */)[0].length >= Math.min(indent, 4) && lines[i + 1].trim()) {
+            content.push('');
+          } else if (next.trim() && content[content.length - 1].trim() && !startsBlock(next)) {
+            // A lazy continuation of the item's paragraph
+            content.push(next);
+          } else {
+            break;
+          }
+        }
+        items.push(parseLines(content, depth + 1));
+        // Blank lines between items don't end the list
+        while (i < lines.length && !lines[i].trim() && lines[i + 1]?.match(LIST_ITEM)) {
+          i++;
+        }
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(firstItem[2], 10) : 1, items });
+      continue;
+    }
+
+    if (startsTable(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(tableAlign);
+      const rows: Inline[][][] = [];
+      for (i += 2; i < lines.length && lines[i].trim() && lines[i].includes('|'); i++) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+      }
+      blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim(); i++) {
+      // "Title" underlined with === or --- is a heading
+      const underline = paragraph.length > 0 && lines[i].match(/^ {0,3}(=+|-+)\s*$/);
+      if (underline) {
+        blocks.push({ type: 'heading', level: underline[1][0] === '=' ? 1 : 2, children: parseInline(paragraph.join('\n').trim()) });
+        paragraph.length = 0;
+        i++;
+        break;
+      }
+      if (paragraph.length > 0 && (startsBlock(lines[i]) || startsTable(lines, i))) {
+        break;
+      }
+      paragraph.push(paragraph.length === 0 ? lines[i].trimStart() : lines[i]);
+    }
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n').trim()) });
+    }
+  }
+
+  return blocks;
+};
+
+// Parse a markdown document into blocks
+export const parseMarkdown = (markdown: string): Block[] => {
+  return parseLines(markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'), 0);
+};
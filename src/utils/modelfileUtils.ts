@@ -0,0 +1,258 @@
+/**
+ * Parsing and validation for Ollama Modelfiles
+ */
+
+export interface ModelfileIssue {
+  line: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export type ModelfileParameterValue = number | string | string[];
+
+export interface ParsedModelfile {
+  from?: string;
+  system?: string;
+  template?: string;
+  license?: string;
+  parameters: Record<string, ModelfileParameterValue>;
+  messages: { role: string; content: string }[];
+}
+
+type ParameterType = 'int' | 'float' | 'string';
+
+export interface ParameterSpec {
+  type: ParameterType;
+  min?: number;
+  max?: number;
+  repeatable?: boolean;
+}
+
+// Parameters Ollama accepts in a Modelfile, with their value types and sane ranges
+export const PARAMETER_SPECS: Record<string, ParameterSpec> = {
+  mirostat: { type: 'int', min: 0, max: 2 },
+  mirostat_eta: { type: 'float', min: 0, max: 1 },
+  mirostat_tau: { type: 'float', min: 0, max: 10 },
+  num_ctx: { type: 'int', min: 1, max: 1048576 },
+  num_predict: { type: 'int', min: -2 },
+  num_gpu: { type: 'int', min: 0 },
+  num_thread: { type: 'int', min: 1 },
+  repeat_last_n: { type: 'int', min: -1 },
+  repeat_penalty: { type: 'float', min: 0, max: 2 },
+  temperature: { type: 'float', min: 0, max: 2 },
+  seed: { type: 'int' },
+  stop: { type: 'string', repeatable: true },
+  top_k: { type: 'int', min: 0 },
+  top_p: { type: 'float', min: 0, max: 1 },
+  min_p: { type: 'float', min: 0, max: 1 },
+};
+
+const DIRECTIVES = ['FROM', 'PARAMETER', 'SYSTEM', 'TEMPLATE', 'ADAPTER', 'LICENSE', 'MESSAGE'];
+
+const MESSAGE_ROLES = ['system', 'user', 'assistant'];
+
+interface Instruction {
+  line: number;
+  directive: string;
+  args: string;
+}
+
+// Split a Modelfile into instructions, joining """triple-quoted""" values that span lines
+const tokenize = (text: string, issues: ModelfileIssue[]): Instruction[] => {
+  const lines = text.split(/\r?\n/);
+  const instructions: Instruction[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i].trim();
+    if (!raw || raw.startsWith('#')) {
+      continue;
+    }
+
+    const match = raw.match(/^(\S+)\s*([\s\S]*)$/);
+    const directive = match[1].toUpperCase();
+    let args = match[2];
+    const startLine = i + 1;
+
+    // Anything after the directive may open a multi-line """ block
+    const quoteIndex = args.indexOf('"""');
+    if (quoteIndex !== -1 && args.indexOf('"""', quoteIndex + 3) === -1) {
+      const parts = [args];
+      let closed = false;
+      while (++i < lines.length) {
+        parts.push(lines[i]);
+        if (lines[i].includes('"""')) {
+          closed = true;
+          break;
+        }
+      }
+      if (!closed) {
+        issues.push({ line: startLine, message: 'Unterminated """ block', severity: 'error' });
+      }
+      args = parts.join('\n');
+    }
+
+    instructions.push({ line: startLine, directive, args });
+  }
+
+  return instructions;
+};
+
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"""')) {
+    return trimmed.replace(/^"""/, '').replace(/"""$/, '');
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+};
+
+// Parse a Modelfile, collecting every problem instead of stopping at the first
+export const parseModelfile = (text: string): { modelfile: ParsedModelfile; issues: ModelfileIssue[] } => {
+  const issues: ModelfileIssue[] = [];
+  const modelfile: ParsedModelfile = { parameters: {}, messages: [] };
+
+  for (const { line, directive, args } of tokenize(text, issues)) {
+    if (!DIRECTIVES.includes(directive)) {
+      issues.push({ line, message: `Unknown directive "${directive}"`, severity: 'error' });
+      continue;
+    }
+
+    if (!args.trim()) {
+      issues.push({ line, message: `${directive} needs a value`, severity: 'error' });
+      continue;
+    }
+
+    switch (directive) {
+      case 'FROM':
+        if (modelfile.from) {
+          issues.push({ line, message: 'FROM may only appear once', severity: 'error' });
+        }
+        modelfile.from = unquote(args);
+        break;
+
+      case 'SYSTEM':
+      case 'TEMPLATE':
+      case 'LICENSE': {
+        const key = directive.toLowerCase() as 'system' | 'template' | 'license';
+        if (modelfile[key] !== undefined) {
+          issues.push({ line, message: `${directive} appears more than once; the last one wins`, severity: 'warning' });
+        }
+        modelfile[key] = unquote(args);
+        if (directive === 'TEMPLATE' && !/\{\{.*\}\}/s.test(modelfile.template)) {
+          issues.push({ line, message: 'TEMPLATE has no {{ }} placeholders', severity: 'warning' });
+        }
+        break;
+      }
+
+      case 'ADAPTER':
+        // Adapters must be uploaded as blobs first, which the browser cannot do from a local path
+        issues.push({ line, message: 'ADAPTER is not supported here; create adapter models with the ollama CLI', severity: 'error' });
+        break;
+
+      case 'MESSAGE': {
+        const [, role, content] = args.match(/^(\S+)\s+([\s\S]*)$/) ?? [];
+        if (!role || !MESSAGE_ROLES.includes(role)) {
+          issues.push({ line, message: `MESSAGE role must be one of ${MESSAGE_ROLES.join(', ')}`, severity: 'error' });
+          break;
+        }
+        modelfile.messages.push({ role, content: unquote(content ?? '') });
+        break;
+      }
+
+      case 'PARAMETER':
+        parseParameter(line, args, modelfile, issues);
+        break;
+    }
+  }
+
+  if (!modelfile.from) {
+    issues.push({ line: 1, message: 'A FROM line naming the base model is required', severity: 'error' });
+  }
+
+  return { modelfile, issues: issues.sort((a, b) => a.line - b.line) };
+};
+
+const parseParameter = (line: number, args: string, modelfile: ParsedModelfile, issues: ModelfileIssue[]) => {
+  const [, name, rawValue] = args.match(/^(\S+)\s+([\s\S]+)$/) ?? [];
+  if (!name) {
+    issues.push({ line, message: 'PARAMETER needs a name and a value', severity: 'error' });
+    return;
+  }
+
+  const spec = PARAMETER_SPECS[name];
+  if (!spec) {
+    issues.push({ line, message: `Unknown parameter "${name}"`, severity: 'warning' });
+    modelfile.parameters[name] = unquote(rawValue);
+    return;
+  }
+
+  const value = unquote(rawValue);
+
+  if (spec.type === 'string') {
+    const existing = modelfile.parameters[name];
+    modelfile.parameters[name] = spec.repeatable
+      ? [...(Array.isArray(existing) ? existing : []), value]
+      : value;
+    return;
+  }
+
+  const number = Number(value);
+  const problem = validateParameterValue(name, value);
+  if (problem) {
+    issues.push({ line, message: problem, severity: 'error' });
+    return;
+  }
+  if (modelfile.parameters[name] !== undefined) {
+    issues.push({ line, message: `${name} is set more than once; the last one wins`, severity: 'warning' });
+  }
+
+  modelfile.parameters[name] = number;
+};
+
+// Check a numeric parameter against its type and range; returns a message, or null when valid
+export const validateParameterValue = (name: string, value: string | number): string | null => {
+  const spec = PARAMETER_SPECS[name];
+  if (!spec || spec.type === 'string') {
+    return null;
+  }
+
+  const number = Number(value);
+  if (value === '' || Number.isNaN(number) || (spec.type === 'int' && !Number.isInteger(number))) {
+    return `${name} must be ${spec.type === 'int' ? 'an integer' : 'a number'}`;
+  }
+  if (spec.min !== undefined && number < spec.min) {
+    return `${name} must be at least ${spec.min}`;
+  }
+  if (spec.max !== undefined && number > spec.max) {
+    return `${name} must be at most ${spec.max}`;
+  }
+
+  return null;
+};
+
+// Read "name value" lines as returned in /api/show's parameters field
+export const parseParameterLines = (text: string): Record<string, string[]> => {
+  const values: Record<string, string[]> = {};
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^(\S+)\s+(.+)$/);
+    if (match) {
+      values[match[1]] = [...(values[match[1]] ?? []), unquote(match[2])];
+    }
+  }
+  return values;
+};
+
+// Starter Modelfile for a team coding model based on the given base model
+export const getModelfileTemplate = (baseModel: string): string => `FROM ${baseModel}
+
+PARAMETER temperature 0.1
+PARAMETER num_ctx 16384
+PARAMETER stop "<|im_end|>"
+
+SYSTEM """
+You are a senior engineer on our team. Follow the project's existing conventions,
+prefer small focused changes, and always explain trade-offs briefly.
+"""
+`;
@@ -3,6 +3,8 @@
  * Utility functions for platform detection and system operations
  */
 
+import { CommandTranslation, translateCommand, WindowsShell } from './commandTranslation';
+
 // Detect the current operating system
 export const detectOS = (): 'windows' | 'linux' | 'mac' | 'unknown' => {
   const userAgent = window.navigator.userAgent;
@@ -15,23 +17,23 @@ export const detectOS = (): 'windows' | 'linux' | 'mac' | 'unknown' => {
 };
 
 // Get platform-specific installation instructions
-export const getOllamaInstallInstructions = (): { [key: string]: string } => {
+export const getOllamaInstallInstructions = (modelName: string): { [key: string]: string } => {
   return {
     windows: `
 # Install Ollama on Windows
 1. Download the latest Windows installer from https://ollama.com/download/windows
 2. Run the installer and follow the instructions
-3. Open Command Prompt and run: ollama run qwen2.5-coder:14b
+3. Open Command Prompt and run: ollama run ${modelName}
     `,
     linux: `
 # Install Ollama on Linux
 curl -fsSL https://ollama.com/install.sh | sh
-ollama run qwen2.5-coder:14b
+ollama run ${modelName}
     `,
     mac: `
 # Install Ollama on macOS
 curl -fsSL https://ollama.com/install.sh | sh
-ollama run qwen2.5-coder:14b
+ollama run ${modelName}
     `,
     unknown: 'Please visit https://ollama.com/download for installation instructions.'
   };
@@ -59,20 +61,18 @@ export const checkForNvidiaGPU = async (): Promise<boolean> => {
   }
 };
 
-// Format command for current OS
-export const formatCommand = (command: string, os: 'windows' | 'linux' | 'mac' | 'unknown'): string => {
+// Format command for the OS it will run on. Windows commands are translated
+// for the given shell; see commandTranslation for what is and isn't covered.
+export const formatCommand = (
+  command: string,
+  os: 'windows' | 'linux' | 'mac' | 'unknown',
+  shell: WindowsShell = 'cmd'
+): CommandTranslation => {
   if (os === 'windows') {
-    // Convert Unix-style commands to Windows Command Prompt style
-    return command
-      .replace(/\//g, '\\')
-      .replace(/^rm -rf/, 'rmdir /s /q')
-      .replace(/^rm/, 'del')
-      .replace(/^mkdir -p/, 'mkdir')
-      .replace(/^cp/, 'copy')
-      .replace(/^mv/, 'move');
+    return translateCommand(command, shell);
   }
   
-  return command;
+  return { command, warnings: [] };
 };
 
 // Get SSH command for port forwarding
@@ -0,0 +1,143 @@
+/**
+ * Helpers for composing prompts: spotting pasted code, guessing its language,
+ * and estimating how much of the context window a prompt uses
+ */
+
+interface LanguageRule {
+  language: string;
+  // Each matching pattern adds to the language's score
+  patterns: RegExp[];
+}
+
+// Checked in order; the highest score wins and earlier rules win ties
+const LANGUAGE_RULES: LanguageRule[] = [
+  {
+    language: 'tsx',
+    patterns: [/^import .* from ['"]react['"]/m, /<[A-Z]\w*[\s/>]/, /return \(\s*$/m, /className=/],
+  },
+  {
+    language: 'typescript',
+    patterns: [/^(export )?(interface|type) \w+/m, /: (string|number|boolean|void|unknown|any)\b/, /\bas const\b/, /^import .* from ['"]/m, /=>\s*[{(]?/],
+  },
+  {
+    language: 'javascript',
+    patterns: [/\b(const|let|var) \w+ = /, /\bfunction\s*\w*\s*\(/, /\brequire\(['"]/, /module\.exports/, /console\.log\(/],
+  },
+  {
+    language: 'python',
+    patterns: [/^\s*def \w+\(.*\):\s*$/m, /^\s*class \w+(\(.*\))?:\s*$/m, /^(from \w[\w.]* )?import \w/m, /\bself\./, /if __name__ == ['"]__main__['"]/, /^\s*(elif|except|finally)\b.*:\s*$/m],
+  },
+  {
+    language: 'go',
+    patterns: [/^package \w+/m, /^func (\(\w+ \*?\w+\) )?\w+\(/m, /:= /, /\bfmt\.\w+\(/],
+  },
+  {
+    language: 'rust',
+    patterns: [/^\s*(pub )?fn \w+/m, /\blet mut\b/, /^\s*(impl|use \w+::)/m, /\w+!\(/, /->\s*\w+.*\{\s*$/m],
+  },
+  {
+    language: 'java',
+    patterns: [/\bpublic (static )?(class|void|final)\b/, /\bSystem\.out\.print/, /^package [\w.]+;/m, /@Override/],
+  },
+  {
+    language: 'csharp',
+    patterns: [/^using System[\w.]*;/m, /^\s*namespace [\w.]+/m, /\bConsole\.Write/, /\bpublic (async )?Task\b/],
+  },
+  {
+    language: 'cpp',
+    patterns: [/^#include\s*[<"]/m, /\bstd::/, /\bcout\s*<</, /\btemplate\s*</],
+  },
+  {
+    language: 'sql',
+    patterns: [/^\s*(SELECT|INSERT INTO|UPDATE|DELETE FROM|CREATE (TABLE|INDEX|VIEW)|ALTER TABLE|WITH \w+ AS)\b/im, /\bFROM \w+/i, /\bWHERE\b/i],
+  },
+  {
+    language: 'dockerfile',
+    patterns: [/^FROM \S+/m, /^(RUN|COPY|WORKDIR|ENTRYPOINT|CMD|EXPOSE) /m],
+  },
+  {
+    language: 'bash',
+    patterns: [/^#!\/(usr\/)?bin\/(env )?(ba|z)?sh/m, /^\s*\$ \S/m, /^\s*(sudo|apt|brew|npm|git|cd|export|echo) /m, /\bfi\s*$/m],
+  },
+  {
+    language: 'html',
+    patterns: [/<!DOCTYPE html>/i, /<(html|head|body|div|span|p|a|ul|li)[\s>]/i, /<\/\w+>/],
+  },
+  {
+    language: 'css',
+    patterns: [/^\s*[.#]?[\w-]+(\s*[,>+~]?\s*[.#]?[\w-]+)*\s*\{\s*$/m, /^\s*[\w-]+:\s*[^;]+;\s*$/m, /@media\b/],
+  },
+  {
+    language: 'yaml',
+    patterns: [/^[\w-]+:\s*$/m, /^\s+[\w-]+: \S/m, /^\s*- [\w-]+/m, /^---\s*$/m],
+  },
+];
+
+// Stack traces and logs are fenced as plain text
+const TRACE_PATTERNS = [
+  /^Traceback \(most recent call last\):/m,
+  /^\s+at [\w$.<>]+ \(.*:\d+:\d+\)$/m,
+  /^\s+at [\w$.]+\([\w$]+\.(java|kt|scala):\d+\)$/m,
+  /^\s+File ".*", line \d+/m,
+  /^panic: /m,
+];
+
+const isJson = (text: string): boolean => {
+  if (!/^\s*[[{]/.test(text)) {
+    return false;
+  }
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Guess the language of a code snippet, or undefined when nothing stands out
+export const guessLanguage = (text: string): string | undefined => {
+  if (TRACE_PATTERNS.some(pattern => pattern.test(text))) {
+    return 'text';
+  }
+  if (isJson(text)) {
+    return 'json';
+  }
+
+  let best: { language: string; score: number } | undefined;
+  for (const { language, patterns } of LANGUAGE_RULES) {
+    const score = patterns.filter(pattern => pattern.test(text)).length;
+    if (score > (best?.score ?? 0)) {
+      best = { language, score };
+    }
+  }
+  // A single weak hint isn't enough to label prose as code
+  return best && best.score >= 2 ? best.language : undefined;
+};
+
+// Whether pasted text is code or a log rather than prose. Single lines are left
+// alone, since those are usually commands or questions.
+export const looksLikeCode = (text: string): boolean => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2 || /^\s*```/m.test(text)) {
+    return false;
+  }
+  if (guessLanguage(text)) {
+    return true;
+  }
+
+  // Otherwise go by how many lines are indented or end like code
+  const codeLike = lines.filter(line => /^(\t| {2,})\S/.test(line) || /[{};()[\]]\s*$/.test(line) || /^\s*(\/\/|#|--) /.test(line));
+  return codeLike.length / lines.length >= 0.5;
+};
+
+// Wrap code in a fenced block, using a longer fence if the code contains one
+export const wrapInFence = (code: string, language = ''): string => {
+  const longestRun = Math.max(2, ...(code.match(/`{3,}/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${language}\n${code.replace(/\r\n/g, '\n').replace(/\n+$/, '')}\n${fence}`;
+};
+
+// Rough token count; most tokenizers average about four characters per token for English and code
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / 4);
+};
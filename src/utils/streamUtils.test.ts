@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { NdjsonDecoder, readNdjson, StreamError } from './streamUtils';
+
+const encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+// Feed `bytes` to a fresh decoder in pieces that end at each of `cuts`
+const decodeInPieces = (bytes: Uint8Array, cuts: number[]): unknown[] => {
+  const decoder = new NdjsonDecoder();
+  const values: unknown[] = [];
+  let start = 0;
+  for (const cut of [...cuts, bytes.length]) {
+    values.push(...decoder.push(bytes.slice(start, cut)));
+    start = cut;
+  }
+  return [...values, ...decoder.flush()];
+};
+
+describe('NdjsonDecoder', () => {
+  it('parses one value per line', () => {
+    const decoder = new NdjsonDecoder();
+    expect(decoder.push('{"a":1}\n{"b":2}\n')).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(decoder.flush()).toEqual([]);
+  });
+
+  it('keeps a line split across chunks until it is complete', () => {
+    const decoder = new NdjsonDecoder();
+    expect(decoder.push('{"response":"hel')).toEqual([]);
+    expect(decoder.push('lo"}\n{"done"')).toEqual([{ response: 'hello' }]);
+    expect(decoder.push(':true}')).toEqual([]);
+    expect(decoder.flush()).toEqual([{ done: true }]);
+  });
+
+  it('gives the same result wherever the stream is split', () => {
+    const bytes = encode('{"response":"a"}\n{"response":"b"}\n\n{"done":true}\n');
+    const expected = [{ response: 'a' }, { response: 'b' }, { done: true }];
+    for (let cut = 0; cut <= bytes.length; cut++) {
+      expect(decodeInPieces(bytes, [cut])).toEqual(expected);
+    }
+  });
+
+  it('reassembles multi-byte UTF-8 characters split between chunks', () => {
+    const text = 'héllo → 世界 🧙';
+    const bytes = encode(`${JSON.stringify({ response: text })}\n`);
+    for (let cut = 1; cut < bytes.length; cut++) {
+      expect(decodeInPieces(bytes, [cut])).toEqual([{ response: text }]);
+    }
+  });
+
+  it('handles a chunk per byte', () => {
+    const bytes = encode('{"response":"🧙‍♂️"}\n{"done":true}');
+    const cuts = Array.from({ length: bytes.length - 1 }, (_, index) => index + 1);
+    expect(decodeInPieces(bytes, cuts)).toEqual([{ response: '🧙‍♂️' }, { done: true }]);
+  });
+
+  it('accepts CRLF line endings', () => {
+    const decoder = new NdjsonDecoder();
+    expect(decoder.push('{"a":1}\r\n{"b":2}\r\n')).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('throws a StreamError for an error reported in the stream', () => {
+    const decoder = new NdjsonDecoder();
+    expect(() => decoder.push('{"error":"model not found"}\n')).toThrow(new StreamError('model not found'));
+  });
+
+  it('throws a StreamError for a malformed line', () => {
+    const decoder = new NdjsonDecoder();
+    expect(() => decoder.push('{"response":\n')).toThrow(StreamError);
+  });
+});
+
+describe('readNdjson', () => {
+  it('yields values from a byte stream', async () => {
+    const bytes = encode('{"n":1}\n{"n":2}\n{"n":3}');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 5));
+        controller.enqueue(bytes.slice(5, 12));
+        controller.enqueue(bytes.slice(12));
+        controller.close();
+      },
+    });
+
+    const values: unknown[] = [];
+    for await (const value of readNdjson(body)) {
+      values.push(value);
+    }
+    expect(values).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const body = new ReadableStream<Uint8Array>({
+      start(stream) {
+        stream.enqueue(encode('{"n":1}\n'));
+        stream.enqueue(encode('{"n":2}\n'));
+      },
+    });
+
+    const values: unknown[] = [];
+    await expect(async () => {
+      for await (const value of readNdjson(body, controller.signal)) {
+        values.push(value);
+        controller.abort();
+      }
+    }).rejects.toThrow();
+    expect(values).toEqual([{ n: 1 }]);
+  });
+});
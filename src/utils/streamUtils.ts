@@ -0,0 +1,94 @@
+/**
+ * Utilities for decoding newline-delimited JSON (NDJSON) streams such as the
+ * ones returned by Ollama's streaming endpoints
+ */
+
+// Error reported by the server inside the stream, e.g. {"error":"model not found"}
+export class StreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamError';
+  }
+}
+
+// Incrementally turns raw byte chunks into parsed JSON values.
+// Lines may be split anywhere, including in the middle of a multi-byte UTF-8 character.
+export class NdjsonDecoder<T = unknown> {
+  private decoder = new TextDecoder();
+  private buffer = '';
+
+  // Feed a chunk and get back every complete line it finished
+  public push(chunk: Uint8Array | string): T[] {
+    this.buffer += typeof chunk === 'string'
+      ? chunk
+      : this.decoder.decode(chunk, { stream: true });
+
+    const lines = this.buffer.split('\n');
+    // The last piece has no newline after it yet, so keep it for the next chunk
+    this.buffer = lines.pop() ?? '';
+
+    return this.parseLines(lines);
+  }
+
+  // Parse whatever is left once the stream has ended
+  public flush(): T[] {
+    this.buffer += this.decoder.decode();
+    const rest = this.buffer;
+    this.buffer = '';
+
+    return this.parseLines([rest]);
+  }
+
+  private parseLines(lines: string[]): T[] {
+    const values: T[] = [];
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        continue;
+      }
+
+      let value: unknown;
+      try {
+        value = JSON.parse(trimmed);
+      } catch {
+        throw new StreamError(`Malformed line in response stream: ${trimmed.slice(0, 200)}`);
+      }
+
+      if (value && typeof value === 'object' && typeof (value as { error?: unknown }).error === 'string') {
+        throw new StreamError((value as { error: string }).error);
+      }
+
+      values.push(value as T);
+    }
+
+    return values;
+  }
+}
+
+// Read an NDJSON response body, yielding each parsed value as it arrives
+export async function* readNdjson<T = unknown>(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new NdjsonDecoder<T>();
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      yield* decoder.push(value);
+    }
+
+    yield* decoder.flush();
+  } finally {
+    // Stops the underlying fetch if the consumer bails out early
+    reader.cancel().catch(() => undefined);
+  }
+}
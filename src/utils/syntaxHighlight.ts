@@ -0,0 +1,411 @@
+/**
+ * A small rule-based syntax highlighter for code blocks. It runs entirely in
+ * the browser, with no grammars to download, and aims for readable colouring
+ * of common languages rather than a full parse.
+ */
+
+export type TokenKind = 'comment' | 'string' | 'keyword' | 'number' | 'function' | 'variable' | 'operator';
+
+export interface HighlightToken {
+  text: string;
+  // Plain text when undefined
+  kind?: TokenKind;
+}
+
+interface LanguageDefinition {
+  names: string[];
+  // Tried in order at each position; the first that matches wins
+  rules: [TokenKind, RegExp][];
+  keywords?: string[];
+  // Keywords match regardless of case, as in SQL
+  ignoreCase?: boolean;
+  // Identifiers followed by "(" are function calls
+  calls?: boolean;
+}
+
+interface CompiledLanguage {
+  rules: [TokenKind, RegExp][];
+  keywords: Set<string>;
+  ignoreCase: boolean;
+  calls: boolean;
+  identifier: RegExp;
+}
+
+// Longer blocks are shown without colour rather than slowing the page down
+const MAX_HIGHLIGHT_LENGTH = 100_000;
+
+// Matches at the end of the input, for comments and strings still being streamed
+const END = '(?![\\s\\S])';
+
+const LINE_COMMENT = `\\/\\/.*`;
+const BLOCK_COMMENT = `\\/\\*[\\s\\S]*?(?:\\*\\/|${END})`;
+const HASH_COMMENT = `(?<![^\\s])#.*`;
+const DOUBLE_QUOTED = `"(?:\\\\.|[^"\\\\\\n])*"?`;
+const SINGLE_QUOTED = `'(?:\\\\.|[^'\\\\\\n])*'?`;
+const BACKTICK_QUOTED = `\`(?:\\\\[\\s\\S]|[^\`\\\\])*\`?`;
+const NUMBER = `\\b(?:0[xX][\\da-fA-F_]+|0[bB][01_]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)[a-zA-Z]*\\b`;
+const OPERATOR = `[-+*/%=<>!&|^~?:]+`;
+
+const C_LIKE_RULES = (...strings: string[]): [TokenKind, string][] => [
+  ['comment', LINE_COMMENT],
+  ['comment', BLOCK_COMMENT],
+  ...strings.map(pattern => ['string', pattern] as [TokenKind, string]),
+  ['number', NUMBER],
+  ['operator', OPERATOR],
+];
+
+const SHELL_KEYWORDS = [
+  'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac', 'in',
+  'function', 'return', 'local', 'export', 'readonly', 'unset', 'shift', 'exit', 'break', 'continue',
+  'source', 'alias', 'set', 'trap', 'eval', 'exec', 'select', 'time', 'end', 'begin', 'switch',
+];
+
+const JS_KEYWORDS = [
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger',
+  'declare', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for',
+  'from', 'function', 'get', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'keyof', 'let',
+  'namespace', 'new', 'null', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'satisfies',
+  'set', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined',
+  'var', 'void', 'while', 'with', 'yield',
+];
+
+const LANGUAGES: (Omit<LanguageDefinition, 'rules'> & { rules: [TokenKind, string][] })[] = [
+  {
+    names: ['javascript', 'js', 'jsx', 'mjs', 'cjs', 'typescript', 'ts', 'tsx', 'mts', 'cts'],
+    rules: C_LIKE_RULES(DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICK_QUOTED),
+    keywords: JS_KEYWORDS,
+    calls: true,
+  },
+  {
+    names: ['python', 'py', 'python3', 'py3'],
+    rules: [
+      ['comment', '#.*'],
+      ['string', `[rRbBuUfF]{0,2}"""[\\s\\S]*?(?:"""|${END})`],
+      ['string', `[rRbBuUfF]{0,2}'''[\\s\\S]*?(?:'''|${END})`],
+      ['string', `[rRbBuUfF]{0,2}${DOUBLE_QUOTED}`],
+      ['string', `[rRbBuUfF]{0,2}${SINGLE_QUOTED}`],
+      ['variable', '@[\\w.]+'],
+      ['number', NUMBER],
+      ['operator', OPERATOR],
+    ],
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+      'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'match',
+      'case', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'True', 'try', 'while',
+      'with', 'yield',
+    ],
+    calls: true,
+  },
+  {
+    names: ['bash', 'sh', 'shell', 'zsh', 'ksh', 'dash', 'fish', 'console', 'terminal', 'shell-session',
+      'shellsession', 'sh-session', 'bash-session'],
+    rules: [
+      ['comment', HASH_COMMENT],
+      ['string', DOUBLE_QUOTED],
+      ['string', `'[^']*'?`],
+      ['variable', '\\$\\{[^}\\n]*\\}?|\\$\\w+|\\$[@#?$!*0-9-]'],
+      ['operator', '&&|\\|\\||[|;&<>]+'],
+      ['number', '(?<![\\w-])\\d+(?![\\w.])'],
+    ],
+    keywords: SHELL_KEYWORDS,
+  },
+  {
+    names: ['powershell', 'pwsh', 'ps1', 'ps', 'posh', 'pwsh-session', 'powershell-session'],
+    rules: [
+      ['comment', `<#[\\s\\S]*?(?:#>|${END})`],
+      ['comment', HASH_COMMENT],
+      ['string', DOUBLE_QUOTED],
+      ['string', `'[^']*'?`],
+      ['variable', '\\$\\{[^}\\n]*\\}?|\\$[\\w:]+'],
+      ['function', '\\b[A-Za-z]+-[A-Za-z]\\w*\\b'],
+      ['operator', '(?<![\\w-])-[A-Za-z]+\\b|[|;=<>]+'],
+      ['number', NUMBER],
+    ],
+    keywords: [
+      'begin', 'break', 'catch', 'class', 'continue', 'do', 'else', 'elseif', 'end', 'exit', 'filter',
+      'finally', 'for', 'foreach', 'function', 'if', 'in', 'param', 'process', 'return', 'switch', 'throw',
+      'trap', 'try', 'until', 'while',
+    ],
+    ignoreCase: true,
+  },
+  {
+    names: ['cmd', 'bat', 'batch', 'dos', 'doscon'],
+    rules: [
+      ['comment', '(?<![^\\s])(?:[Rr][Ee][Mm]\\b|::).*'],
+      ['string', `"[^"\\n]*"?`],
+      ['variable', '%[\\w~:=,.-]+%|%~?\\w|![\\w]+!'],
+      ['operator', '&&|\\|\\||[|&<>]+'],
+      ['number', '(?<![\\w-])\\d+(?![\\w.])'],
+    ],
+    keywords: [
+      'call', 'cd', 'copy', 'del', 'do', 'echo', 'else', 'endlocal', 'equ', 'exist', 'exit', 'for', 'geq',
+      'goto', 'gtr', 'if', 'in', 'leq', 'lss', 'md', 'mkdir', 'move', 'neq', 'not', 'pause', 'set',
+      'setlocal', 'shift', 'start',
+    ],
+    ignoreCase: true,
+  },
+  {
+    names: ['go', 'golang'],
+    rules: C_LIKE_RULES(DOUBLE_QUOTED, SINGLE_QUOTED, '`[^`]*`?'),
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'false', 'for',
+      'func', 'go', 'goto', 'if', 'import', 'interface', 'iota', 'map', 'nil', 'package', 'range', 'return',
+      'select', 'struct', 'switch', 'true', 'type', 'var',
+    ],
+    calls: true,
+  },
+  {
+    names: ['rust', 'rs'],
+    rules: [
+      ['function', '\\b\\w+!(?=[([{])'],
+      ['variable', `'[a-z_]\\w*(?!')`],
+      ...C_LIKE_RULES(DOUBLE_QUOTED, `'(?:\\\\.|[^'\\\\\\n])'`),
+    ],
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'false',
+      'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return',
+      'self', 'Self', 'static', 'struct', 'super', 'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while',
+    ],
+    calls: true,
+  },
+  {
+    names: ['java', 'kotlin', 'kt', 'kts', 'scala', 'groovy', 'csharp', 'cs', 'c#', 'c', 'h', 'cpp', 'c++',
+      'cc', 'cxx', 'hpp', 'objc', 'swift', 'dart', 'php'],
+    rules: [
+      ['variable', '@\\w+'],
+      ['variable', '^\\s*#\\s*\\w+'],
+      ['variable', '\\$\\w+'],
+      ...C_LIKE_RULES(`@?${DOUBLE_QUOTED}`, SINGLE_QUOTED),
+    ],
+    keywords: [
+      'abstract', 'as', 'async', 'auto', 'await', 'base', 'bool', 'boolean', 'break', 'byte', 'case', 'catch',
+      'char', 'class', 'const', 'continue', 'data', 'def', 'default', 'delete', 'do', 'double', 'echo', 'else',
+      'enum', 'extends', 'extern', 'false', 'final', 'finally', 'float', 'for', 'foreach', 'fun', 'func',
+      'function', 'guard', 'if', 'implements', 'import', 'in', 'include', 'inline', 'int', 'interface',
+      'internal', 'is', 'let', 'long', 'namespace', 'new', 'nil', 'null', 'nullptr', 'object', 'operator',
+      'override', 'package', 'private', 'protected', 'public', 'readonly', 'record', 'return', 'sealed',
+      'short', 'signed', 'sizeof', 'static', 'string', 'struct', 'super', 'switch', 'template', 'this',
+      'throw', 'throws', 'true', 'try', 'typedef', 'typename', 'union', 'unsigned', 'using', 'val', 'var',
+      'virtual', 'void', 'volatile', 'when', 'where', 'while',
+    ],
+    calls: true,
+  },
+  {
+    names: ['ruby', 'rb'],
+    rules: [
+      ['comment', '#.*'],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['variable', ':\\w+|@{1,2}\\w+|\\$\\w+'],
+      ['number', NUMBER],
+      ['operator', OPERATOR],
+    ],
+    keywords: [
+      'begin', 'break', 'case', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'false', 'for', 'if',
+      'in', 'module', 'next', 'nil', 'puts', 'raise', 'require', 'rescue', 'return', 'self', 'then', 'true',
+      'unless', 'until', 'when', 'while', 'yield',
+    ],
+    calls: true,
+  },
+  {
+    names: ['json', 'jsonc', 'json5'],
+    rules: [
+      ['comment', LINE_COMMENT],
+      ['comment', BLOCK_COMMENT],
+      ['variable', `${DOUBLE_QUOTED}(?=\\s*:)`],
+      ['string', DOUBLE_QUOTED],
+      ['number', '-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?'],
+    ],
+    keywords: ['true', 'false', 'null'],
+  },
+  {
+    names: ['yaml', 'yml'],
+    rules: [
+      ['comment', HASH_COMMENT],
+      ['variable', `(?:${DOUBLE_QUOTED}|${SINGLE_QUOTED}|[\\w.-]+)(?=\\s*:(?:\\s|$))`],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['operator', '^---$|^\\s*- |[|>][-+]?$'],
+      ['number', '(?<![\\w.-])-?\\d+(?:\\.\\d+)?(?![\\w.-])'],
+    ],
+    keywords: ['true', 'false', 'null', 'yes', 'no', 'on', 'off'],
+  },
+  {
+    names: ['toml', 'ini', 'cfg', 'conf', 'properties', 'env', 'dotenv'],
+    rules: [
+      ['comment', '^\\s*[#;].*'],
+      ['keyword', '^\\s*\\[[^\\]\\n]*\\]?'],
+      ['variable', '^\\s*[\\w.-]+(?=\\s*=)'],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['number', NUMBER],
+    ],
+    keywords: ['true', 'false'],
+  },
+  {
+    names: ['sql', 'mysql', 'postgresql', 'postgres', 'psql', 'sqlite', 'plsql', 'tsql'],
+    rules: [
+      ['comment', '--.*'],
+      ['comment', BLOCK_COMMENT],
+      ['string', `'(?:''|[^'])*'?`],
+      ['variable', DOUBLE_QUOTED],
+      ['variable', '`[^`\\n]*`?'],
+      ['number', NUMBER],
+      ['operator', '[-+*/%=<>!|]+'],
+    ],
+    keywords: [
+      'add', 'all', 'alter', 'and', 'as', 'asc', 'begin', 'between', 'by', 'case', 'check', 'column', 'commit',
+      'constraint', 'create', 'cross', 'database', 'default', 'delete', 'desc', 'distinct', 'drop', 'else',
+      'end', 'exists', 'false', 'foreign', 'from', 'full', 'group', 'having', 'if', 'in', 'index', 'inner',
+      'insert', 'into', 'is', 'join', 'key', 'left', 'like', 'limit', 'not', 'null', 'offset', 'on', 'or',
+      'order', 'outer', 'primary', 'references', 'returning', 'right', 'rollback', 'select', 'set', 'table',
+      'then', 'transaction', 'true', 'truncate', 'union', 'unique', 'update', 'values', 'view', 'when',
+      'where', 'with',
+    ],
+    ignoreCase: true,
+    calls: true,
+  },
+  {
+    names: ['css', 'scss', 'sass', 'less'],
+    rules: [
+      ['comment', BLOCK_COMMENT],
+      ['comment', '(?<![:\\w])\\/\\/.*'],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['keyword', '@[\\w-]+'],
+      ['variable', '\\$[\\w-]+|--[\\w-]+'],
+      ['number', '#[\\da-fA-F]{3,8}\\b'],
+      ['variable', '[\\w-]+(?=\\s*:[^:{]*[;}]|\\s*:[^:{]*$)'],
+      ['number', '-?\\d*\\.?\\d+(?:%|[a-zA-Z]+)?'],
+      ['operator', '!important\\b'],
+    ],
+    calls: true,
+  },
+  {
+    names: ['html', 'xml', 'svg', 'xhtml', 'vue', 'svelte', 'markup'],
+    rules: [
+      ['comment', `<!--[\\s\\S]*?(?:-->|${END})`],
+      ['keyword', '(?<=<\\/?)[\\w:.-]+|<!DOCTYPE\\b'],
+      ['variable', '[\\w:@.-]+(?==)'],
+      ['string', `"[^"]*"?`],
+      ['string', `'[^']*'?`],
+      ['operator', '&[#\\w]+;'],
+    ],
+  },
+  {
+    names: ['dockerfile', 'docker', 'containerfile'],
+    rules: [
+      ['comment', '^\\s*#.*'],
+      ['keyword', '^\\s*(?:FROM|RUN|CMD|LABEL|EXPOSE|ENV|ADD|COPY|ENTRYPOINT|VOLUME|USER|WORKDIR|ARG|ONBUILD|STOPSIGNAL|HEALTHCHECK|SHELL|MAINTAINER)\\b'],
+      ['keyword', '\\bAS\\b'],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['variable', '\\$\\{[^}\\n]*\\}?|\\$\\w+'],
+      ['operator', '&&|\\|\\||\\\\$'],
+    ],
+  },
+  {
+    names: ['diff', 'patch', 'udiff'],
+    rules: [
+      ['comment', '^(?:diff |index |--- |\\+\\+\\+ ).*'],
+      ['function', '^@@.*'],
+      ['string', '^\\+.*'],
+      ['operator', '^-.*'],
+    ],
+  },
+];
+
+const compiled = new Map<string, CompiledLanguage>();
+LANGUAGES.forEach(language => {
+  const ignoreCase = language.ignoreCase ?? false;
+  const definition: CompiledLanguage = {
+    // Sticky, so each rule only matches at the current position
+    rules: language.rules.map(([kind, source]) => [kind, new RegExp(source, 'ym')]),
+    keywords: new Set((language.keywords ?? []).map(keyword => ignoreCase ? keyword.toLowerCase() : keyword)),
+    ignoreCase,
+    calls: language.calls ?? false,
+    identifier: /[A-Za-z_$][\w$]*/y,
+  };
+  language.names.forEach(name => compiled.set(name, definition));
+});
+
+// Whether the highlighter knows the fence language
+export const isHighlightable = (language: string): boolean => {
+  return compiled.has(language.toLowerCase());
+};
+
+// Split code into coloured tokens; unknown languages come back as one plain token
+export const highlight = (code: string, language: string): HighlightToken[] => {
+  const definition = compiled.get(language.toLowerCase());
+  if (!definition || code.length > MAX_HIGHLIGHT_LENGTH) {
+    return [{ text: code }];
+  }
+
+  const tokens: HighlightToken[] = [];
+  let plain = '';
+  const push = (text: string, kind?: TokenKind) => {
+    if (plain) {
+      tokens.push({ text: plain });
+      plain = '';
+    }
+    tokens.push({ text, kind });
+  };
+
+  let position = 0;
+  while (position < code.length) {
+    let matched = false;
+    for (const [kind, pattern] of definition.rules) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(code);
+      if (match && match[0]) {
+        push(match[0], kind);
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (matched) {
+      continue;
+    }
+
+    definition.identifier.lastIndex = position;
+    const word = definition.identifier.exec(code)?.[0];
+    // Identifiers are only words on their own, not the tail of something like "2px" or "foo-bar"
+    if (word && !/[\w$-]/.test(code[position - 1] ?? '')) {
+      const lookup = definition.ignoreCase ? word.toLowerCase() : word;
+      if (definition.keywords.has(lookup)) {
+        push(word, 'keyword');
+      } else if (definition.calls && /^\s*\(/.test(code.slice(position + word.length, position + word.length + 8))) {
+        push(word, 'function');
+      } else {
+        plain += word;
+      }
+      position += word.length;
+      continue;
+    }
+
+    plain += word ?? code[position];
+    position += word?.length ?? 1;
+  }
+
+  if (plain) {
+    tokens.push({ text: plain });
+  }
+  return tokens;
+};
+
+// Highlight code and split the tokens into lines, for showing line numbers
+export const highlightLines = (code: string, language: string): HighlightToken[][] => {
+  const lines: HighlightToken[][] = [[]];
+  for (const token of highlight(code, language)) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (part) {
+        lines[lines.length - 1].push({ text: part, kind: token.kind });
+      }
+    });
+  }
+  return lines;
+};
@@ -0,0 +1,371 @@
+/**
+ * Helpers for text coming from a terminal session.
+ *
+ * Output is replayed onto a simple screen model so carriage returns, cursor
+ * movement and line erasing behave as they would in a terminal: a progress
+ * bar that redraws itself ends up as one line. Colours and text styles (SGR
+ * sequences) are kept; every other control sequence is dropped.
+ */
+
+// A palette index (0-255) or a "#rrggbb" colour
+export type AnsiColor = number | string;
+
+export interface AnsiStyle {
+  fg?: AnsiColor;
+  bg?: AnsiColor;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  strikethrough?: boolean;
+}
+
+export interface AnsiSpan {
+  text: string;
+  style: AnsiStyle;
+}
+
+const DEFAULT_STYLE: AnsiStyle = {};
+
+// Older lines are dropped beyond this, and the cursor can't move past this column
+const MAX_LINES = 10_000;
+const MAX_COLUMNS = 4_000;
+const TRIM_BATCH = 1_000;
+const TAB_WIDTH = 8;
+// An unterminated escape longer than this is dropped rather than held back
+const MAX_PENDING = 4_096;
+
+// CSI sequences with their parameters, OSC/DCS/APC/PM strings, charset selections and other two-byte escapes.
+// An escape cut off at the end of the input is matched too, so it can wait for the rest.
+// eslint-disable-next-line no-control-regex
+const ESCAPE_SEQUENCE = /\x1b(?:\[([0-?]*)[ -/]*([@-~])?|[\]P^_][^\x07\x1b]*(?:\x07|\x1b\\|\x1b?$)|[ -/]*[0-~]?)/y;
+
+const toHex = (value: number): string => value.toString(16).padStart(2, '0');
+
+const parseParams = (text: string): number[] => {
+  // Colon sub-parameters, as in "4:3" for curly underline, count as their first part
+  return text ? text.split(';').map(param => parseInt(param.split(':')[0], 10) || 0) : [];
+};
+
+// Apply SGR parameters, as in "ESC[1;31m", to a style; returns a new style
+export const applySgr = (style: AnsiStyle, params: number[]): AnsiStyle => {
+  if (params.length === 0) {
+    return DEFAULT_STYLE;
+  }
+
+  let next = { ...style };
+  for (let i = 0; i < params.length; i++) {
+    const code = params[i];
+    if (code === 38 || code === 48) {
+      // Extended colours: 5;n picks from the 256-colour palette, 2;r;g;b is truecolour
+      let color: AnsiColor | undefined;
+      if (params[i + 1] === 5 && i + 2 < params.length) {
+        color = Math.min(params[i + 2], 255);
+        i += 2;
+      } else if (params[i + 1] === 2 && i + 4 < params.length) {
+        color = `#${params.slice(i + 2, i + 5).map(value => toHex(Math.min(value, 255))).join('')}`;
+        i += 4;
+      } else {
+        break;
+      }
+      next[code === 38 ? 'fg' : 'bg'] = color;
+      continue;
+    }
+
+    if (code === 0) {
+      next = {};
+    } else if (code === 1) {
+      next.bold = true;
+    } else if (code === 2) {
+      next.dim = true;
+    } else if (code === 3) {
+      next.italic = true;
+    } else if (code === 4 || code === 21) {
+      next.underline = true;
+    } else if (code === 7) {
+      next.inverse = true;
+    } else if (code === 9) {
+      next.strikethrough = true;
+    } else if (code === 22) {
+      next.bold = next.dim = undefined;
+    } else if (code === 23) {
+      next.italic = undefined;
+    } else if (code === 24) {
+      next.underline = undefined;
+    } else if (code === 27) {
+      next.inverse = undefined;
+    } else if (code === 29) {
+      next.strikethrough = undefined;
+    } else if (code >= 30 && code <= 37) {
+      next.fg = code - 30;
+    } else if (code === 39) {
+      next.fg = undefined;
+    } else if (code >= 40 && code <= 47) {
+      next.bg = code - 40;
+    } else if (code === 49) {
+      next.bg = undefined;
+    } else if (code >= 90 && code <= 97) {
+      next.fg = code - 90 + 8;
+    } else if (code >= 100 && code <= 107) {
+      next.bg = code - 100 + 8;
+    }
+  }
+  return next;
+};
+
+// The SGR sequence that switches from the default style to this one
+const styleToSgr = (style: AnsiStyle): string => {
+  const color = (base: number, value: AnsiColor): string => typeof value === 'number'
+    ? `${base};5;${value}`
+    : `${base};2;${[1, 3, 5].map(index => parseInt(value.slice(index, index + 2), 16)).join(';')}`;
+  const params = [
+    style.bold && '1',
+    style.dim && '2',
+    style.italic && '3',
+    style.underline && '4',
+    style.inverse && '7',
+    style.strikethrough && '9',
+    style.fg !== undefined && color(38, style.fg),
+    style.bg !== undefined && color(48, style.bg),
+  ].filter(Boolean);
+  return params.length > 0 ? `\x1b[0;${params.join(';')}m` : '';
+};
+
+interface Cell {
+  char: string;
+  style: AnsiStyle;
+}
+
+// Replays terminal output. Feed chunks with `write` as they arrive; `toString`
+// gives the text so far with only SGR sequences left in it.
+export class TerminalScreen {
+  private lines: Cell[][] = [[]];
+  // Rendered text of each line, cleared when the line changes
+  private rendered: (string | undefined)[] = [];
+  private row = 0;
+  private col = 0;
+  private saved = { row: 0, col: 0 };
+  private style: AnsiStyle = DEFAULT_STYLE;
+  // The start of an escape sequence split across chunks
+  private pending = '';
+  private droppedLines = 0;
+
+  public write(data: string): void {
+    const text = this.pending + data;
+    this.pending = '';
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\x1b') {
+        ESCAPE_SEQUENCE.lastIndex = i;
+        const match = ESCAPE_SEQUENCE.exec(text);
+        const sequence = match[0];
+        const kind = sequence[1];
+        const complete = kind === '[' ? match[2] !== undefined
+          : kind !== undefined && ']P^_'.includes(kind) ? sequence.endsWith('\x07') || sequence.endsWith('\x1b\\')
+          : sequence.length > 1 && sequence[sequence.length - 1] >= '0';
+        if (!complete && i + sequence.length >= text.length && text.length - i <= MAX_PENDING) {
+          this.pending = text.slice(i);
+          return;
+        }
+        if (kind === '[' && complete) {
+          this.handleCsi(match[1], match[2]);
+        } else if (sequence === '\x1b7') {
+          this.saved = { row: this.row, col: this.col };
+        } else if (sequence === '\x1b8') {
+          this.moveTo(this.saved.row, this.saved.col);
+        }
+        i += sequence.length - 1;
+      } else if (char === '\n') {
+        this.moveTo(this.row + 1, 0);
+      } else if (char === '\r') {
+        this.col = 0;
+      } else if (char === '\b') {
+        this.col = Math.max(0, this.col - 1);
+      } else if (char === '\t') {
+        const stop = (Math.floor(this.col / TAB_WIDTH) + 1) * TAB_WIDTH;
+        while (this.col < stop) {
+          this.put(' ');
+        }
+      } else if (char >= ' ' && char !== '\x7f' && (char < '\x80' || char > '\x9f')) {
+        this.put(char);
+      }
+      // Other control characters, such as the bell, are dropped
+    }
+  }
+
+  public toString(): string {
+    const lines = this.lines.map((line, index) => {
+      if (this.rendered[index] === undefined) {
+        this.rendered[index] = renderLine(line);
+      }
+      return this.rendered[index];
+    });
+    const notice = this.droppedLines > 0 ? [`[${this.droppedLines} earlier lines not shown]`] : [];
+    return [...notice, ...lines].join('\n');
+  }
+
+  private handleCsi(paramText: string, final: string): void {
+    // Private modes such as "?25l" (hide the cursor) don't affect the text
+    if (/^[<=>?]/.test(paramText)) {
+      return;
+    }
+    const params = parseParams(paramText);
+    const count = Math.max(1, params[0] ?? 1);
+
+    switch (final) {
+      case 'm':
+        this.style = applySgr(this.style, params);
+        break;
+      case 'A':
+        this.moveTo(this.row - count, this.col);
+        break;
+      case 'B':
+        this.moveTo(this.row + count, this.col);
+        break;
+      case 'C':
+        this.col = Math.min(this.col + count, MAX_COLUMNS);
+        break;
+      case 'D':
+        this.col = Math.max(0, this.col - count);
+        break;
+      case 'E':
+        this.moveTo(this.row + count, 0);
+        break;
+      case 'F':
+        this.moveTo(this.row - count, 0);
+        break;
+      case 'G':
+        this.col = Math.min(count - 1, MAX_COLUMNS);
+        break;
+      case 'H':
+      case 'f':
+        // Without a fixed screen size rows can't be placed reliably, so only the column is honoured
+        this.col = Math.min(Math.max(1, params[1] ?? 1) - 1, MAX_COLUMNS);
+        break;
+      case 'K':
+        this.eraseLine(params[0] ?? 0);
+        break;
+      case 'J':
+        this.eraseDisplay(params[0] ?? 0);
+        break;
+      case 's':
+        this.saved = { row: this.row, col: this.col };
+        break;
+      case 'u':
+        this.moveTo(this.saved.row, this.saved.col);
+        break;
+    }
+  }
+
+  private moveTo(row: number, col: number): void {
+    this.row = Math.max(0, row);
+    this.col = Math.min(col, MAX_COLUMNS);
+    while (this.lines.length <= this.row) {
+      this.lines.push([]);
+    }
+    // Trimmed in batches so long output doesn't shift the whole buffer on every line
+    if (this.lines.length > MAX_LINES + TRIM_BATCH) {
+      const excess = this.lines.length - MAX_LINES;
+      this.lines.splice(0, excess);
+      this.rendered.splice(0, excess);
+      this.droppedLines += excess;
+      this.row -= excess;
+      this.saved = { row: Math.max(0, this.saved.row - excess), col: this.saved.col };
+    }
+  }
+
+  private put(char: string): void {
+    const line = this.lines[this.row];
+    while (line.length < this.col) {
+      line.push({ char: ' ', style: DEFAULT_STYLE });
+    }
+    line[this.col] = { char, style: this.style };
+    this.col = Math.min(this.col + 1, MAX_COLUMNS);
+    this.rendered[this.row] = undefined;
+  }
+
+  private eraseLine(mode: number): void {
+    const line = this.lines[this.row];
+    if (mode === 0) {
+      line.length = Math.min(line.length, this.col);
+    } else if (mode === 1) {
+      for (let i = 0; i <= this.col && i < line.length; i++) {
+        line[i] = { char: ' ', style: DEFAULT_STYLE };
+      }
+    } else {
+      line.length = 0;
+    }
+    this.rendered[this.row] = undefined;
+  }
+
+  private eraseDisplay(mode: number): void {
+    if (mode === 0) {
+      // From the cursor to the end of the output
+      this.eraseLine(0);
+      this.lines.length = this.row + 1;
+      this.rendered.length = Math.min(this.rendered.length, this.row + 1);
+    } else if (mode === 2 || mode === 3) {
+      // As after running `clear`
+      this.lines = [[]];
+      this.rendered = [];
+      this.row = 0;
+      this.col = 0;
+    }
+  }
+}
+
+const renderLine = (line: Cell[]): string => {
+  let text = '';
+  let style = DEFAULT_STYLE;
+  for (const cell of line) {
+    if (cell.style !== style) {
+      text += styleToSgr(cell.style) || '\x1b[0m';
+      style = cell.style;
+    }
+    text += cell.char;
+  }
+  return style !== DEFAULT_STYLE && styleToSgr(style) ? `${text}\x1b[0m` : text;
+};
+
+// Replay raw terminal output in one go; see TerminalScreen
+export const normalizeTerminalOutput = (text: string): string => {
+  const screen = new TerminalScreen();
+  screen.write(text);
+  return screen.toString();
+};
+
+// Split text into runs of the same style, reading SGR sequences and dropping any other escapes
+export const parseAnsi = (text: string): AnsiSpan[] => {
+  const spans: AnsiSpan[] = [];
+  let style = DEFAULT_STYLE;
+  let start = 0;
+  let plain = '';
+
+  const flush = () => {
+    if (plain) {
+      spans.push({ text: plain, style });
+      plain = '';
+    }
+  };
+
+  for (let i = text.indexOf('\x1b'); i !== -1; i = text.indexOf('\x1b', start)) {
+    plain += text.slice(start, i);
+    ESCAPE_SEQUENCE.lastIndex = i;
+    const match = ESCAPE_SEQUENCE.exec(text);
+    if (match[2] === 'm' && !/^[<=>?]/.test(match[1])) {
+      flush();
+      style = applySgr(style, parseParams(match[1]));
+    }
+    start = i + match[0].length;
+  }
+  plain += text.slice(start);
+  flush();
+  return spans;
+};
+
+// The text without any escape sequences, e.g. for copying or searching
+export const stripAnsi = (text: string): string => {
+  return parseAnsi(text).map(span => span.text).join('');
+};
@@ -72,6 +72,7 @@ export default {
 					'function': '#89b4fa',
 					'variable': '#f5c2e7',
 					'operator': '#f38ba8',
+					'number': '#fab387',
 					'highlight': 'rgba(147, 197, 253, 0.1)'
 				}
 			},